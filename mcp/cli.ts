@@ -0,0 +1,235 @@
+/**
+ * md-feedback CLI — gate checks for git hooks and local pipelines
+ *
+ *   md-feedback gate check [--gate merge] [--require proceed|done] [--allow-missing] [--json] <plan.md | dir>...
+ *   md-feedback gate signoff <plan.md> <gate-id>
+ *
+ * `gate check` evaluates the chosen gate (an id or a gate type) in every plan and
+ * exits 1 while one of them holds it, listing the memos in the way. A gate that no
+ * plan has is an error (a typo must not pass) unless --allow-missing is given. `gate signoff`
+ * records the git user's sign-off; it only runs in an interactive terminal and asks
+ * for confirmation, so an agent calling the CLI cannot sign off on a person's behalf.
+ * This is an honor-system check, not authentication: the identity is git config and
+ * the terminal and prompt can be driven by anyone at the keyboard.
+ *
+ * Exit codes: 0 = ok, 1 = a gate is held (or the sign-off was refused), 2 = usage or read
+ * error, or no plan has the gate.
+ */
+
+import { statSync } from 'fs'
+import { dirname } from 'path'
+import { execFileSync } from 'child_process'
+import { createInterface } from 'readline'
+import { readMarkdownFile, writeMarkdownFile, listMarkdownFiles, readAnnotationKinds } from './file-ops.js'
+import { splitDocument } from '../shared/document-writer.js'
+import { parseAnnotations, sectionAt } from '../shared/annotation-parser.js'
+import { evaluateAllGates, explainAllGates, blockingMemos } from '../shared/gate-evaluator.js'
+import { signOffGate } from '../shared/gate-editing.js'
+import type { Gate } from '../shared/types.js'
+
+const USAGE = `Usage:
+  md-feedback gate check [options] <plan.md | dir>...
+      --gate <id|type>    Gate to check: a gate id or a gate type (default: merge)
+      --require <level>   proceed: fail while the gate is blocked (default)
+                          done: fail until the gate is done
+      --allow-missing     Pass when no plan has the gate (default: exit 2)
+      --json              Print the result as JSON
+  md-feedback gate signoff <plan.md> <gate-id>
+      Sign off a gate as your git user (interactive terminals only)`
+
+interface CheckedGate {
+  id: string
+  type: Gate['type']
+  scope: string | null
+  status: Gate['status']
+  reason: string | null
+  blocking: { id: string; type: string; priority: string | null; section: string; text: string }[]
+}
+
+interface CheckedFile {
+  file: string
+  ok: boolean
+  gates: CheckedGate[]          // empty when the plan has no such gate
+  error?: string
+}
+
+class UsageError extends Error {}
+
+/** The plan's gates matching `gate` (id or type), evaluated with the memos holding them */
+function checkFile(file: string, gate: string, require: 'proceed' | 'done'): CheckedFile {
+  try {
+    const parts = splitDocument(readMarkdownFile(file))
+    const kinds = readAnnotationKinds(file)
+    const doc = parseAnnotations(parts.body, kinds)
+    const evaluated = evaluateAllGates(parts.gates, parts.memos, kinds, doc.headings, doc.tasks)
+    const reasons = explainAllGates(parts.gates, parts.memos, kinds, doc.headings, doc.tasks)
+    const gates = evaluated
+      .map((g, i) => ({ gate: g, reason: reasons[i].reason }))
+      .filter(({ gate: g }) => g.id === gate || g.type === gate)
+      .map(({ gate: g, reason }): CheckedGate => ({
+        id: g.id,
+        type: g.type,
+        scope: g.scope ?? null,
+        status: g.status,
+        reason,
+        blocking: g.status === 'done' ? [] : blockingMemos(g, parts.memos, kinds, doc.headings).map(m => ({
+          id: m.id,
+          type: m.type,
+          priority: m.priority ?? null,
+          section: sectionAt(doc.headings, parseInt(m.anchor.match(/^L(\d+)/)?.[1] ?? '0', 10) - 1),
+          text: m.text.split('\n')[0],
+        })),
+      }))
+    const held = (g: CheckedGate) => require === 'done' ? g.status !== 'done' : g.status === 'blocked'
+    return { file, ok: !gates.some(held), gates }
+  } catch (err) {
+    return { file, ok: false, gates: [], error: err instanceof Error ? err.message : String(err) }
+  }
+}
+
+function formatFile(result: CheckedFile, gate: string): string[] {
+  if (result.error) return [`✗ ${result.file}: ${result.error}`]
+  if (result.gates.length === 0) return [`- ${result.file}: no ${gate} gate`]
+  const L: string[] = []
+  for (const g of result.gates) {
+    const name = `${g.type} gate "${g.id}"${g.scope ? ` (scope: ${g.scope})` : ''}`
+    const mark = g.status === 'done' ? '✓' : result.ok ? '◐' : '✗'
+    L.push(`${mark} ${result.file}: ${name} is ${g.status}`)
+    if (g.reason) L.push(`    ${g.reason}`)
+    for (const m of g.blocking) {
+      const where = m.section ? ` under "${m.section}"` : ''
+      L.push(`    - ${m.type} ${m.id}${m.priority ? ` [${m.priority}]` : ''}${where}: ${m.text}`)
+    }
+  }
+  return L
+}
+
+function gateCheck(args: string[]): number {
+  let gate = 'merge'
+  let require: 'proceed' | 'done' = 'proceed'
+  let json = false
+  let allowMissing = false
+  const paths: string[] = []
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === '--json') json = true
+    else if (arg === '--allow-missing') allowMissing = true
+    else if (arg === '--gate') {
+      gate = args[++i] ?? ''
+      if (!gate) throw new UsageError('--gate needs a gate id or type')
+    } else if (arg === '--require') {
+      const level = args[++i]
+      if (level !== 'proceed' && level !== 'done') throw new UsageError('--require must be "proceed" or "done"')
+      require = level
+    } else if (arg.startsWith('--')) throw new UsageError(`Unknown option ${arg}`)
+    else paths.push(arg)
+  }
+  if (paths.length === 0) throw new UsageError('Name at least one plan file or directory')
+
+  const files = paths.flatMap(p => {
+    try {
+      return statSync(p).isDirectory() ? listMarkdownFiles(p) : [p]
+    } catch {
+      return [p]                // reported as unreadable by checkFile
+    }
+  })
+  const results = files.map(file => checkFile(file, gate, require))
+  // Directories may hold notes without gates; only named files are reported when they have none
+  const shown = results.filter(r => r.error || r.gates.length > 0 || paths.includes(r.file))
+  const held = results.filter(r => !r.ok)
+  // A misspelled --gate matches nothing; only pass that when asked to
+  const found = results.some(r => r.gates.length > 0)
+  const missing = !found && !allowMissing && !results.some(r => r.error)
+
+  if (json) {
+    console.log(JSON.stringify({ gate, require, ok: held.length === 0 && !missing, found, files: shown }, null, 2))
+  } else {
+    for (const r of shown) console.log(formatFile(r, gate).join('\n'))
+    const plans = `${shown.length} plan${shown.length === 1 ? '' : 's'}`
+    console.log(missing
+      ? `${gate} gate: not found in ${results.length} file${results.length === 1 ? '' : 's'} (pass --allow-missing to accept plans without it)`
+      : held.length === 0
+        ? `${gate} gate: ok (${plans})`
+        : `${gate} gate: held in ${held.length} of ${plans}`)
+  }
+  if (results.some(r => r.error) || missing) return 2
+  return held.length === 0 ? 0 : 1
+}
+
+/** git config value in the plan's directory, '' when unset */
+function gitConfig(key: string, cwd: string): string {
+  try {
+    return execFileSync('git', ['config', key], { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] }).trim()
+  } catch {
+    return ''
+  }
+}
+
+function ask(question: string): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout })
+  return new Promise(resolve => rl.question(question, (answer: string) => {
+    rl.close()
+    resolve(answer)
+  }))
+}
+
+async function gateSignoff(args: string[]): Promise<number> {
+  const [file, id, ...rest] = args
+  if (!file || !id || rest.length > 0) throw new UsageError('gate signoff takes a plan file and a gate id')
+  if (!process.stdin.isTTY || !process.stdout.isTTY) {
+    console.error('Sign-offs are recorded by a person: run `md-feedback gate signoff` in an interactive terminal.')
+    return 1
+  }
+  const name = gitConfig('user.name', dirname(file))
+  const email = gitConfig('user.email', dirname(file))
+  if (!name) {
+    console.error('Set `git config user.name` (and user.email) to sign off gates.')
+    return 1
+  }
+
+  const markdown = readMarkdownFile(file)
+  const gate = splitDocument(markdown).gates.find(g => g.id === id)
+  if (!gate) {
+    console.error(`Gate not found: ${id}`)
+    return 1
+  }
+  const answer = await ask(`Sign off ${gate.type} gate "${id}" in ${file} as ${name}${email ? ` <${email}>` : ''}? [y/N] `)
+  if (!/^y(es)?$/i.test(answer.trim())) {
+    console.error('Not signed off.')
+    return 1
+  }
+  const result = signOffGate(markdown, id, { name, email }, readAnnotationKinds(file))
+  if ('error' in result) {
+    console.error(result.error)
+    return 1
+  }
+  writeMarkdownFile(file, result.markdown)
+  console.log(`Signed off gate "${id}" as ${name} — it is now ${result.gate.status}.`)
+  return 0
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, sub, ...args] = argv
+  if (!command || command === '--help' || command === '-h') {
+    console.log(USAGE)
+    return command ? 0 : 2
+  }
+  try {
+    if (command === 'gate' && sub === 'check') return gateCheck(args)
+    if (command === 'gate' && sub === 'signoff') return await gateSignoff(args)
+    throw new UsageError(`Unknown command: ${[command, sub].filter(Boolean).join(' ')}`)
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err
+    console.error(`${err.message}\n\n${USAGE}`)
+    return 2
+  }
+}
+
+// exitCode rather than exit(): let piped output flush first
+main(process.argv.slice(2)).then(
+  (code) => { process.exitCode = code },
+  (err) => {
+    console.error('md-feedback:', err instanceof Error ? err.message : err)
+    process.exitCode = 2
+  },
+)
@@ -1,13 +1,14 @@
 import * as esbuild from 'esbuild'
 
-await esbuild.build({
-  entryPoints: ['mcp/server.ts'],
+const options = {
   bundle: true,
-  outfile: 'dist/mcp-server.js',
   format: 'cjs',
   platform: 'node',
   target: 'node18',
   banner: { js: '#!/usr/bin/env node' },
   external: [],
   sourcemap: true,
-})
+}
+
+await esbuild.build({ ...options, entryPoints: ['mcp/server.ts'], outfile: 'dist/mcp-server.js' })
+await esbuild.build({ ...options, entryPoints: ['mcp/cli.ts'], outfile: 'dist/cli.js' })
@@ -1,6 +1,63 @@
-import { readFileSync, writeFileSync, existsSync } from 'fs'
+import { readFileSync, writeFileSync, existsSync, readdirSync } from 'fs'
+import { join, dirname, resolve } from 'path'
+import { SIDECAR_DIR, sidecarPath, parseSidecar, serializeSidecar, attachSidecar, detachSidecar, sameBody } from '../shared/sidecar.js'
+import { KINDS_REGISTRY_FILE, parseKindsRegistry } from '../shared/kinds-registry.js'
+import { DEFAULT_ANNOTATION_KINDS, type AnnotationKind } from '../shared/types.js'
 
+/**
+ * Read a markdown file as annotated markdown. Files in sidecar mode
+ * (.md-feedback/<name>.json beside them) come back with their annotations merged in,
+ * so every tool sees the same inline format.
+ */
 export function readMarkdownFile(filePath: string): string {
+  const markdown = readText(filePath)
+  const sidecarFile = sidecarPath(filePath)
+  if (!existsSync(sidecarFile)) return markdown
+  try {
+    return attachSidecar(markdown, parseSidecar(readText(sidecarFile)))
+  } catch (err) {
+    throw new Error(`Cannot read sidecar ${sidecarFile}: ${err instanceof Error ? err.message : String(err)}`)
+  }
+}
+
+/**
+ * Write annotated markdown. In sidecar mode the annotations go to the sidecar and
+ * the markdown file is only rewritten when its body actually changed.
+ */
+export function writeMarkdownFile(filePath: string, content: string): void {
+  const sidecarFile = sidecarPath(filePath)
+  if (!existsSync(sidecarFile)) {
+    writeText(filePath, content)
+    return
+  }
+  const { markdown, sidecar } = detachSidecar(content)
+  writeText(sidecarFile, serializeSidecar(sidecar))
+  if (!sameBody(readText(filePath), markdown)) writeText(filePath, markdown)
+}
+
+/**
+ * Annotation kinds for a markdown file: the nearest .md-feedback/kinds.json in its
+ * directory or above (the extension writes md-feedback.annotationKinds there), else
+ * the built-in kinds.
+ */
+export function readAnnotationKinds(filePath: string): AnnotationKind[] {
+  let dir = dirname(resolve(filePath))
+  for (;;) {
+    const registry = join(dir, SIDECAR_DIR, KINDS_REGISTRY_FILE)
+    if (existsSync(registry)) {
+      try {
+        return parseKindsRegistry(readText(registry))
+      } catch (err) {
+        throw new Error(`Cannot read kinds registry ${registry}: ${err instanceof Error ? err.message : String(err)}`)
+      }
+    }
+    const parent = dirname(dir)
+    if (parent === dir) return DEFAULT_ANNOTATION_KINDS
+    dir = parent
+  }
+}
+
+function readText(filePath: string): string {
   if (!existsSync(filePath)) {
     throw new Error(`File not found: ${filePath}`)
   }
@@ -11,7 +68,7 @@ export function readMarkdownFile(filePath: string): string {
   }
 }
 
-export function writeMarkdownFile(filePath: string, content: string): void {
+function writeText(filePath: string, content: string): void {
   try {
     writeFileSync(filePath, content, 'utf-8')
   } catch (err) {
@@ -19,6 +76,24 @@ export function writeMarkdownFile(filePath: string, content: string): void {
   }
 }
 
+/** All .md files under a directory, skipping node_modules and dot-directories */
+export function listMarkdownFiles(dir: string): string[] {
+  if (!existsSync(dir)) {
+    throw new Error(`Directory not found: ${dir}`)
+  }
+  const files: string[] = []
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name)
+    if (entry.isDirectory()) {
+      if (entry.name === 'node_modules' || entry.name.startsWith('.')) continue
+      files.push(...listMarkdownFiles(path))
+    } else if (entry.isFile() && entry.name.endsWith('.md')) {
+      files.push(path)
+    }
+  }
+  return files
+}
+
 /** Extract highlight text from <mark> tags */
 export function extractHighlightTexts(markdown: string): string[] {
   const texts: string[] = []
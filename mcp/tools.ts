@@ -1,12 +1,25 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { z } from 'zod'
-import { readMarkdownFile, writeMarkdownFile } from './file-ops.js'
-import { createCheckpoint, extractCheckpoints, getAnnotationCounts, getSectionsWithAnnotations, getAllSections } from '../shared/checkpoint.js'
+import { readMarkdownFile, writeMarkdownFile, listMarkdownFiles, readAnnotationKinds } from './file-ops.js'
+import { createCheckpoint, extractCheckpoints, getAnnotationCounts, formatAnnotationCounts, getSectionsWithAnnotations, getAllSections } from '../shared/checkpoint.js'
 import { buildHandoffDocument, formatHandoffMarkdown, parseHandoffFile } from '../shared/handoff-generator.js'
-import { extractMemos } from '../shared/markdown-roundtrip.js'
-import { splitDocument, mergeDocument, serializeMemoV2, serializeCursor, generateBodyHash } from '../shared/document-writer.js'
-import { evaluateAllGates } from '../shared/gate-evaluator.js'
-import type { MemoStatus, ReviewDocument } from '../shared/types.js'
+import { splitDocument, mergeDocument, serializeMemoV2, serializeCursor, generateBodyHash, resolveAnchor, generateMemoId, applySuggestion, toggleTask } from '../shared/document-writer.js'
+import { migrateAnnotations } from '../shared/format-migration.js'
+import { lintAnnotations, applyLintFixes } from '../shared/annotation-linter.js'
+import { createGate, updateGate, deleteGate } from '../shared/gate-editing.js'
+import { readReviewSettings } from '../shared/review-settings.js'
+import { getReviewState, transitionReview } from '../shared/review-lifecycle.js'
+import { reviewStatusLine, memoFeedbackItem, kindGroups, pushKindSections, byPriority, priorityTag, bullet, replyLine, where } from '../shared/context-generator.js'
+import { parseAnnotations, sectionAt, taskSections } from '../shared/annotation-parser.js'
+import { evaluateAllGates, explainAllGates, sortGatesByDependency, blockingMemos, findDependencyCycles, getNextActionable } from '../shared/gate-evaluator.js'
+import { matchesLabels, normalizeLabels, changeMemoStatus, PLAN_STATUSES, PLAN_STATUS_LABELS } from '../shared/types.js'
+import type { AnnotationKind, DocumentParts, Gate, MemoPriority, MemoReply, MemoStatus, MemoType, MemoV2, PlanStatus, ReviewDocument } from '../shared/types.js'
+
+/** Evaluate a document's gates; scoped gates and task conditions need the body's headings and task items */
+function evaluateGates(parts: DocumentParts, kinds: AnnotationKind[]): Gate[] {
+  const doc = parseAnnotations(parts.body, kinds)
+  return evaluateAllGates(parts.gates, parts.memos, kinds, doc.headings, doc.tasks)
+}
 
 export function registerTools(server: McpServer): void {
 
@@ -82,7 +95,7 @@ export function registerTools(server: McpServer): void {
     async ({ file, target }) => {
       try {
         const markdown = readMarkdownFile(file)
-        const doc = buildHandoffDocument(markdown, file)
+        const doc = buildHandoffDocument(markdown, file, readAnnotationKinds(file))
         const handoff = formatHandoffMarkdown(doc, target || 'standalone')
         return {
           content: [{
@@ -112,7 +125,7 @@ export function registerTools(server: McpServer): void {
     async ({ file }) => {
       try {
         const markdown = readMarkdownFile(file)
-        const counts = getAnnotationCounts(markdown)
+        const counts = getAnnotationCounts(markdown, readAnnotationKinds(file))
         const checkpoints = extractCheckpoints(markdown)
         const sections = getSectionsWithAnnotations(markdown)
         const status = {
@@ -180,26 +193,35 @@ export function registerTools(server: McpServer): void {
   // ─── list_annotations ───
   server.tool(
     'list_annotations',
-    'List all annotations (USER_MEMO comments) in a markdown file. Returns structured array with id, type, status, owner, text, and color.',
+    'List all annotations (USER_MEMO comments) in a markdown file. Returns structured array with id, type, status, owner, text, and color. Optionally filter by labels.',
     {
       file: z.string().describe('Path to the annotated markdown file'),
+      labels: z.array(z.string()).optional().describe('Only include memos carrying any of these labels (e.g., ["security", "api"])'),
     },
-    async ({ file }) => {
+    async ({ file, labels }) => {
       try {
         const markdown = readMarkdownFile(file)
         const parts = splitDocument(markdown)
-        const annotations = parts.memos.map(m => ({
+        const annotations = parts.memos.filter(m => matchesLabels(m.labels, labels)).map(m => ({
           id: m.id,
           type: m.type,
           status: m.status,
+          priority: m.priority,
+          labels: m.labels,
+          dependsOn: m.dependsOn,
           owner: m.owner,
           source: m.source,
           color: m.color,
           text: m.text,
           anchorText: m.anchorText,
           anchor: m.anchor,
+          range: m.range,
+          orphaned: m.orphaned ?? false,
+          suggestion: m.suggestion,
           createdAt: m.createdAt,
           updatedAt: m.updatedAt,
+          replies: m.replies,
+          history: m.history,
         }))
         return {
           content: [{
@@ -222,11 +244,12 @@ export function registerTools(server: McpServer): void {
   // ─── get_document_structure (v0.4.0 — full ReviewDocument) ───
   server.tool(
     'get_document_structure',
-    'Parse an annotated markdown file and return the full v0.4.0 ReviewDocument: { bodyMd, memos[] (with status/owner), checkpoints[], gates[], cursor, sections, summary }. Ideal for AI agents.',
+    'Parse an annotated markdown file and return the full v0.4.0 ReviewDocument: { bodyMd, memos[] (with status/owner/dependsOn), checkpoints[], gates[], cursor, review (frontmatter settings: status, reviewers, exportTargets, gateTemplates, autoCheckpoint), nextActionable[], dependencyCycles[], tasks[] (task-list items per heading, with their bodyMd line), sections, summary }. Memos whose anchored text can no longer be found are flagged orphaned. Work nextActionable in order — those memos have no open dependencies; check off finished task items with toggle_task. Ideal for AI agents. Optionally filter memos by labels.',
     {
       file: z.string().describe('Path to the annotated markdown file'),
+      labels: z.array(z.string()).optional().describe('Only include memos carrying any of these labels; gates are still evaluated against all memos'),
     },
-    async ({ file }) => {
+    async ({ file, labels }) => {
       try {
         const markdown = readMarkdownFile(file)
         const parts = splitDocument(markdown)
@@ -234,33 +257,44 @@ export function registerTools(server: McpServer): void {
         const reviewedSections = getSectionsWithAnnotations(markdown)
 
         // Evaluate gates with current memo states
-        const gates = evaluateAllGates(parts.gates, parts.memos)
+        const gates = evaluateGates(parts, readAnnotationKinds(file))
 
-        const open = parts.memos.filter(m => m.status === 'open').length
-        const done = parts.memos.filter(m => m.status === 'done' || m.status === 'answered' || m.status === 'wontfix').length
+        const memos = parts.memos.filter(m => matchesLabels(m.labels, labels))
+        // Dependencies are resolved against all memos, then scoped to the label filter
+        const nextActionable = getNextActionable(parts.memos).filter(m => matchesLabels(m.labels, labels))
+        const open = memos.filter(m => m.status === 'open').length
+        const done = memos.filter(m => m.status === 'done' || m.status === 'answered' || m.status === 'wontfix').length
         const blocked = gates.filter(g => g.status === 'blocked').length
+        const tasks = taskSections(parseAnnotations(parts.body))
 
         const structure: ReviewDocument = {
           version: '0.4.0',
           file,
           bodyMd: parts.body,
-          memos: parts.memos,
+          memos,
           checkpoints: parts.checkpoints,
           gates,
           cursor: parts.cursor,
+          review: readReviewSettings(parts.frontmatter).settings,
+          nextActionable,
+          dependencyCycles: findDependencyCycles(parts.memos),
+          tasks,
           sections: {
             all: allSections,
             reviewed: reviewedSections,
             uncovered: allSections.filter(s => !reviewedSections.includes(s)),
           },
           summary: {
-            total: parts.memos.length,
+            total: memos.length,
             open,
             done,
             blocked,
-            fixes: parts.memos.filter(m => m.type === 'fix').length,
-            questions: parts.memos.filter(m => m.type === 'question').length,
-            highlights: parts.memos.filter(m => m.type === 'highlight').length,
+            fixes: memos.filter(m => m.type === 'fix').length,
+            questions: memos.filter(m => m.type === 'question').length,
+            highlights: memos.filter(m => m.type === 'highlight').length,
+            orphaned: memos.filter(m => m.orphaned).length,
+            tasks: tasks.reduce((n, s) => n + s.total, 0),
+            tasksDone: tasks.reduce((n, s) => n + s.done, 0),
           },
         }
 
@@ -285,14 +319,16 @@ export function registerTools(server: McpServer): void {
   // ─── update_memo_status (v0.4.0 NEW) ───
   server.tool(
     'update_memo_status',
-    'Update the status of a memo annotation. Writes the change back to the markdown file. Returns the updated memo.',
+    'Update the status of a memo annotation. The transition is appended to the memo\'s status history with who made it. Writes the change back to the markdown file. Returns the updated memo.',
     {
       file: z.string().describe('Path to the annotated markdown file'),
       memoId: z.string().describe('The memo ID to update'),
       status: z.enum(['open', 'answered', 'done', 'wontfix']).describe('New status'),
       owner: z.enum(['human', 'agent', 'tool']).optional().describe('Optionally change the owner'),
+      actor: z.enum(['human', 'agent', 'tool']).optional().describe('Who is making the change, recorded in the history (default: agent)'),
+      source: z.string().optional().describe('Agent/tool name recorded in the history, e.g. "claude", "cursor" (default: "generic")'),
     },
-    async ({ file, memoId, status, owner }) => {
+    async ({ file, memoId, status, owner, actor, source }) => {
       try {
         const markdown = readMarkdownFile(file)
         const parts = splitDocument(markdown)
@@ -308,12 +344,11 @@ export function registerTools(server: McpServer): void {
           }
         }
 
-        memo.status = status as MemoStatus
+        changeMemoStatus(memo, status as MemoStatus, actor || 'agent', source || 'generic')
         if (owner) memo.owner = owner as typeof memo.owner
-        memo.updatedAt = new Date().toISOString()
 
         // Re-evaluate gates after status change
-        parts.gates = evaluateAllGates(parts.gates, parts.memos)
+        parts.gates = evaluateGates(parts, readAnnotationKinds(file))
 
         const updated = mergeDocument(parts)
         writeMarkdownFile(file, updated)
@@ -336,6 +371,394 @@ export function registerTools(server: McpServer): void {
     },
   )
 
+  // ─── get_memo_history ───
+  server.tool(
+    'get_memo_history',
+    'Audit memo status transitions: every from→to change with actor (human/agent/tool), source, and timestamp, oldest first. Also lists memos currently closed (done/wontfix) by an agent, for review. Optionally restrict to one memo or one actor.',
+    {
+      file: z.string().describe('Path to the annotated markdown file'),
+      memoId: z.string().optional().describe('Only this memo'),
+      actor: z.enum(['human', 'agent', 'tool']).optional().describe('Only transitions made by this actor'),
+    },
+    async ({ file, memoId, actor }) => {
+      try {
+        const markdown = readMarkdownFile(file)
+        const parts = splitDocument(markdown)
+
+        const memos = memoId ? parts.memos.filter(m => m.id === memoId) : parts.memos
+        if (memoId && memos.length === 0) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ error: `Memo not found: ${memoId}` }),
+            }],
+            isError: true,
+          }
+        }
+
+        const transitions = memos
+          .flatMap(m => m.history.map(h => ({ memoId: m.id, type: m.type, ...h })))
+          .filter(t => !actor || t.actor === actor)
+          .sort((a, b) => a.at.localeCompare(b.at))
+
+        // Closed memos whose closing transition was made by an agent
+        const closedByAgent = memos
+          .filter(m => m.status === 'done' || m.status === 'wontfix')
+          .filter(m => m.history[m.history.length - 1]?.actor === 'agent')
+          .map(m => ({
+            memoId: m.id,
+            type: m.type,
+            status: m.status,
+            text: m.text,
+            source: m.history[m.history.length - 1].source,
+            at: m.history[m.history.length - 1].at,
+          }))
+
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ transitions, total: transitions.length, closedByAgent }, null, 2),
+          }],
+        }
+      } catch (err) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+          }],
+          isError: true,
+        }
+      }
+    },
+  )
+
+  // ─── reply_to_memo ───
+  server.tool(
+    'reply_to_memo',
+    'Append a reply to a memo\'s conversation thread (e.g., answer a question or explain a fix). Optionally update the memo status in the same write. Returns the updated memo.',
+    {
+      file: z.string().describe('Path to the annotated markdown file'),
+      memoId: z.string().describe('The memo ID to reply to'),
+      text: z.string().describe('Reply body'),
+      author: z.string().optional().describe('Display name of the replier (default: "agent")'),
+      owner: z.enum(['human', 'agent', 'tool']).optional().describe('Who is replying (default: agent)'),
+      status: z.enum(['open', 'answered', 'done', 'wontfix']).optional().describe('Optionally change the memo status (e.g., "answered")'),
+    },
+    async ({ file, memoId, text, author, owner, status }) => {
+      try {
+        const markdown = readMarkdownFile(file)
+        const parts = splitDocument(markdown)
+
+        const memo = parts.memos.find(m => m.id === memoId)
+        if (!memo) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ error: `Memo not found: ${memoId}` }),
+            }],
+            isError: true,
+          }
+        }
+
+        const now = new Date().toISOString()
+        const reply: MemoReply = {
+          author: author || 'agent',
+          owner: owner || 'agent',
+          createdAt: now,
+          text,
+        }
+        memo.replies.push(reply)
+        if (status) changeMemoStatus(memo, status as MemoStatus, reply.owner, reply.author)
+        memo.updatedAt = now
+
+        parts.gates = evaluateGates(parts, readAnnotationKinds(file))
+
+        const updated = mergeDocument(parts)
+        writeMarkdownFile(file, updated)
+
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ memo, reply }, null, 2),
+          }],
+        }
+      } catch (err) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+          }],
+          isError: true,
+        }
+      }
+    },
+  )
+
+  // ─── apply_suggestion ───
+  server.tool(
+    'apply_suggestion',
+    'Apply a suggestion memo: replace its anchored text in the plan with the suggested replacement, mark the memo "done", and re-anchor memos so their line hashes stay valid. Returns the updated memo.',
+    {
+      file: z.string().describe('Path to the annotated markdown file'),
+      memoId: z.string().describe('The suggestion memo ID to apply'),
+      source: z.string().optional().describe('Agent/tool name recorded in the status history (default: "generic")'),
+    },
+    async ({ file, memoId, source }) => {
+      try {
+        const markdown = readMarkdownFile(file)
+        const parts = splitDocument(markdown)
+
+        const memo = parts.memos.find(m => m.id === memoId)
+        if (!memo) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ error: `Memo not found: ${memoId}` }),
+            }],
+            isError: true,
+          }
+        }
+        if (memo.suggestion == null) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ error: `Memo has no suggestion: ${memoId}` }),
+            }],
+            isError: true,
+          }
+        }
+
+        const result = applySuggestion(parts.body, parts.memos, memoId)
+        if (!result) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ error: `Anchored text not found in document body: "${memo.anchorText}"` }),
+            }],
+            isError: true,
+          }
+        }
+
+        parts.body = result.body
+        parts.memos = result.memos
+        const applied = parts.memos.find(m => m.id === memoId)!
+        changeMemoStatus(applied, 'done', 'agent', source || 'generic')
+        parts.gates = evaluateGates(parts, readAnnotationKinds(file))
+
+        const updated = mergeDocument(parts)
+        writeMarkdownFile(file, updated)
+
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ memo: applied }, null, 2),
+          }],
+        }
+      } catch (err) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+          }],
+          isError: true,
+        }
+      }
+    },
+  )
+
+  // ─── toggle_task ───
+  server.tool(
+    'toggle_task',
+    'Check (or uncheck) a task-list item ("- [ ] …") in the plan body, e.g. after completing it. Identify the item by line (1-based line of bodyMd, as listed in get_document_structure tasks[]) or by its text. Gate statuses are re-evaluated, since gates can require task items (task.done, task(<heading>).open == 0). Returns the item and its section\'s progress.',
+    {
+      file: z.string().describe('Path to the annotated markdown file'),
+      line: z.number().int().min(1).optional().describe('Body line of the task item (1-based line of bodyMd)'),
+      text: z.string().optional().describe('Text of the task item (exact, or a unique part of it)'),
+      checked: z.boolean().optional().describe('true to check the item (default), false to uncheck it'),
+    },
+    async ({ file, line, text, checked }) => {
+      try {
+        if ((line == null) === (text == null)) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ error: 'Provide exactly one of line or text' }),
+            }],
+            isError: true,
+          }
+        }
+        const markdown = readMarkdownFile(file)
+        const parts = splitDocument(markdown)
+        const tasks = parseAnnotations(parts.body).tasks
+
+        let matches = line != null ? tasks.filter(t => t.range.startLine === line - 1) : tasks.filter(t => t.text === text!.trim())
+        if (line == null && matches.length === 0) {
+          const needle = text!.trim().toLowerCase()
+          matches = tasks.filter(t => t.text.toLowerCase().includes(needle))
+        }
+        if (matches.length !== 1) {
+          const error = matches.length === 0
+            ? line != null ? `No task item on body line ${line}` : `No task item matches "${text}"`
+            : `"${text}" matches ${matches.length} task items (lines ${matches.map(t => t.range.startLine + 1).join(', ')}) — pass line instead`
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ error }),
+            }],
+            isError: true,
+          }
+        }
+
+        const result = toggleTask(parts.body, parts.memos, matches[0].range.startLine, checked ?? true)!
+        parts.body = result.body
+        parts.memos = result.memos
+        parts.gates = evaluateGates(parts, readAnnotationKinds(file))
+        writeMarkdownFile(file, mergeDocument(parts))
+
+        const task = { line: matches[0].range.startLine + 1, text: matches[0].text, checked: checked ?? true }
+        const section = taskSections(parseAnnotations(parts.body)).find(s => s.tasks.some(t => t.line === task.line))!
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ task, section: { heading: section.heading, done: section.done, total: section.total } }, null, 2),
+          }],
+        }
+      } catch (err) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+          }],
+          isError: true,
+        }
+      }
+    },
+  )
+
+  // ─── add_annotation ───
+  server.tool(
+    'add_annotation',
+    'Create a new annotation (owner="agent") anchored in the plan. Provide exactly one anchor: anchorText (exact text on a line), heading (+ optional occurrence), or startLine/endLine (1-based lines of bodyMd from get_document_structure). Returns the created memo.',
+    {
+      file: z.string().describe('Path to the annotated markdown file'),
+      type: z.string().describe('Annotation kind: fix, question, highlight, decision, risk, todo, or a kind configured in md-feedback.annotationKinds'),
+      text: z.string().describe('Memo text (the feedback itself). Markdown; may span several lines with lists or code fences'),
+      anchorText: z.string().optional().describe('Exact text of the line to anchor to'),
+      heading: z.string().optional().describe('Heading title to anchor to (without #)'),
+      occurrence: z.number().int().min(0).optional().describe('0-based match index when anchorText or heading appears more than once (default: 0)'),
+      startLine: z.number().int().min(1).optional().describe('First body line of the anchored range (1-based)'),
+      endLine: z.number().int().min(1).optional().describe('Last body line of the anchored range (default: startLine); blank lines at either end are dropped'),
+      priority: z.enum(['P0', 'P1', 'P2', 'P3']).optional().describe('Severity: P0 (blocking) … P3 (nit)'),
+      labels: z.array(z.string()).optional().describe('Labels/tags, e.g. ["security", "backend"]'),
+      dependsOn: z.array(z.string()).optional().describe('IDs of memos that must be resolved before this one (e.g., the question a fix waits on)'),
+      suggestion: z.string().optional().describe('Fix only: exact replacement for anchorText, applied later with apply_suggestion'),
+      source: z.string().optional().describe('Agent/tool name, e.g. "claude", "cursor" (default: "generic")'),
+    },
+    async ({ file, type, text, anchorText, heading, occurrence, startLine, endLine, priority, labels, dependsOn, suggestion, source }) => {
+      try {
+        const anchorKinds = [anchorText != null, heading != null, startLine != null].filter(Boolean).length
+        if (anchorKinds !== 1) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ error: 'Provide exactly one anchor: anchorText, heading, or startLine' }),
+            }],
+            isError: true,
+          }
+        }
+
+        const kinds = readAnnotationKinds(file)
+        const kind = kinds.find(k => k.type === type)
+        if (!kind) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ error: `Unknown annotation kind "${type}" (known: ${kinds.map(k => k.type).join(', ')})` }),
+            }],
+            isError: true,
+          }
+        }
+
+        const markdown = readMarkdownFile(file)
+        const parts = splitDocument(markdown)
+
+        if (suggestion != null && (type !== 'fix' || anchorText == null)) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ error: 'suggestion requires type "fix" and an anchorText to replace' }),
+            }],
+            isError: true,
+          }
+        }
+
+        const unknownDeps = (dependsOn || []).filter(id => !parts.memos.some(m => m.id === id))
+        if (unknownDeps.length > 0) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ error: `Unknown memo IDs in dependsOn: ${unknownDeps.join(', ')}` }),
+            }],
+            isError: true,
+          }
+        }
+
+        const resolved = resolveAnchor(parts.body, { anchorText, heading, occurrence, startLine, endLine })
+        if (!resolved) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ error: 'Anchor not found in document body' }),
+            }],
+            isError: true,
+          }
+        }
+
+        const now = new Date().toISOString()
+        const memo: MemoV2 = {
+          id: generateMemoId(),
+          type: type as MemoType,
+          status: 'open',
+          priority: priority as MemoPriority | undefined,
+          labels: normalizeLabels(labels || []),
+          dependsOn: [...new Set(dependsOn || [])],
+          owner: 'agent',
+          source: source || 'generic',
+          color: kind.color,
+          text,
+          anchorText: resolved.anchorText,
+          anchor: resolved.anchor,
+          ...(resolved.range ? { range: resolved.range } : {}),
+          ...(suggestion != null ? { suggestion } : {}),
+          createdAt: now,
+          updatedAt: now,
+          replies: [],
+          history: [],
+        }
+        parts.memos.push(memo)
+        parts.gates = evaluateGates(parts, kinds)
+
+        const updated = mergeDocument(parts)
+        writeMarkdownFile(file, updated)
+
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ memo }, null, 2),
+          }],
+        }
+      } catch (err) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+          }],
+          isError: true,
+        }
+      }
+    },
+  )
+
   // ─── update_cursor (v0.4.0 NEW) ───
   server.tool(
     'update_cursor',
@@ -383,7 +806,7 @@ export function registerTools(server: McpServer): void {
   // ─── evaluate_gates (v0.4.0 NEW) ───
   server.tool(
     'evaluate_gates',
-    'Evaluate all gates in a markdown file against current memo statuses. Returns updated gate statuses without modifying the file.',
+    'Evaluate all gates in a markdown file against current memo statuses. canProceedIf / doneDefinition may be conditions over memo and task-list counts, e.g. "fix.open == 0 && question.open <= 1 && label(security).done" or "task(Phase 2).done" (every task item under that heading checked). A gate with dependsOn (gate IDs) stays blocked until those gates are done. A gate with requiredSignoffs is awaiting-signoff once its conditions pass, until enough people sign off in the VS Code panel or CLI (sign-offs cannot be recorded over MCP). Returns updated gate statuses in dependency order, each not-done gate with the `reason` (the failed clause and actual counts, or the gate dependency still pending) and the `blocking` memo IDs, without modifying the file.',
     {
       file: z.string().describe('Path to the annotated markdown file'),
     },
@@ -391,7 +814,14 @@ export function registerTools(server: McpServer): void {
       try {
         const markdown = readMarkdownFile(file)
         const parts = splitDocument(markdown)
-        const gates = evaluateAllGates(parts.gates, parts.memos)
+        const kinds = readAnnotationKinds(file)
+        const { headings, tasks } = parseAnnotations(parts.body, kinds)
+        const evaluations = explainAllGates(parts.gates, parts.memos, kinds, headings, tasks)
+        const gates = sortGatesByDependency(parts.gates.map((gate, i) => {
+          const { status, reason } = evaluations[i]
+          const blocking = status === 'done' ? [] : blockingMemos(gate, parts.memos, kinds, headings).map(m => m.id)
+          return { ...gate, status, ...(reason ? { reason } : {}), ...(blocking.length ? { blocking } : {}) }
+        }))
 
         return {
           content: [{
@@ -402,6 +832,7 @@ export function registerTools(server: McpServer): void {
                 total: gates.length,
                 blocked: gates.filter(g => g.status === 'blocked').length,
                 proceed: gates.filter(g => g.status === 'proceed').length,
+                awaitingSignoff: gates.filter(g => g.status === 'awaiting-signoff').length,
                 done: gates.filter(g => g.status === 'done').length,
               },
             }, null, 2),
@@ -419,34 +850,233 @@ export function registerTools(server: McpServer): void {
     },
   )
 
+  // ─── create_gate ───
+  server.tool(
+    'create_gate',
+    'Add a gate to a markdown file. References are checked (blockedBy memo IDs, dependsOn gate IDs, no dependency cycles, scope heading, condition syntax) and all gate statuses are re-evaluated. Returns the created gate.',
+    {
+      file: z.string().describe('Path to the annotated markdown file'),
+      id: z.string().optional().describe('Gate ID (default: the next free gate-N)'),
+      type: z.enum(['merge', 'release', 'implement', 'custom']).optional().describe('Gate type'),
+      blockedBy: z.array(z.string()).optional().describe('Memo IDs that block the gate while open'),
+      dependsOn: z.array(z.string()).optional().describe('Gate IDs that must be done first (e.g., release depends on merge)'),
+      minPriority: z.enum(['P0', 'P1', 'P2', 'P3']).nullable().optional().describe('Only open memos at or above this priority block the gate (null clears it)'),
+      scope: z.string().nullable().optional().describe('Heading text: only memos under that heading and its subheadings count (null clears it)'),
+      canProceedIf: z.string().optional().describe('Condition or description, e.g. "fix.open == 0 && question.open <= 1"'),
+      doneDefinition: z.string().optional().describe('Condition or description of done, e.g. "memo.resolved"'),
+    },
+    async ({ file, ...input }) => {
+      try {
+        const result = createGate(readMarkdownFile(file), input, readAnnotationKinds(file))
+        if ('error' in result) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ error: result.error }),
+            }],
+            isError: true,
+          }
+        }
+        writeMarkdownFile(file, result.markdown)
+
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ gate: result.gate }, null, 2),
+          }],
+        }
+      } catch (err) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+          }],
+          isError: true,
+        }
+      }
+    },
+  )
+
+  // ─── update_gate ───
+  server.tool(
+    'update_gate',
+    'Change a gate\'s fields; omitted fields are kept. Renaming it (newId) also updates other gates\' dependsOn. Checked like create_gate, and all gate statuses are re-evaluated. Required sign-offs and recorded sign-offs are kept as they are — only a person can change them. Returns the updated gate.',
+    {
+      file: z.string().describe('Path to the annotated markdown file'),
+      gateId: z.string().describe('The gate ID to update'),
+      newId: z.string().optional().describe('Rename the gate'),
+      type: z.enum(['merge', 'release', 'implement', 'custom']).optional().describe('Gate type'),
+      blockedBy: z.array(z.string()).optional().describe('Memo IDs that block the gate while open'),
+      dependsOn: z.array(z.string()).optional().describe('Gate IDs that must be done first (e.g., release depends on merge)'),
+      minPriority: z.enum(['P0', 'P1', 'P2', 'P3']).nullable().optional().describe('Only open memos at or above this priority block the gate (null clears it)'),
+      scope: z.string().nullable().optional().describe('Heading text: only memos under that heading and its subheadings count (null clears it)'),
+      canProceedIf: z.string().optional().describe('Condition or description, e.g. "fix.open == 0 && question.open <= 1"'),
+      doneDefinition: z.string().optional().describe('Condition or description of done, e.g. "memo.resolved"'),
+    },
+    async ({ file, gateId, newId, ...input }) => {
+      try {
+        const result = updateGate(readMarkdownFile(file), gateId, { ...input, id: newId }, readAnnotationKinds(file))
+        if ('error' in result) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ error: result.error }),
+            }],
+            isError: true,
+          }
+        }
+        writeMarkdownFile(file, result.markdown)
+
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ gate: result.gate }, null, 2),
+          }],
+        }
+      } catch (err) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+          }],
+          isError: true,
+        }
+      }
+    },
+  )
+
+  // ─── delete_gate ───
+  server.tool(
+    'delete_gate',
+    'Remove a gate from a markdown file. Gates that depended on it no longer do; they are listed in `dependents`. Gates that require sign-off can only be removed by a person in VS Code.',
+    {
+      file: z.string().describe('Path to the annotated markdown file'),
+      gateId: z.string().describe('The gate ID to delete'),
+    },
+    async ({ file, gateId }) => {
+      try {
+        const markdown = readMarkdownFile(file)
+        if (splitDocument(markdown).gates.find(g => g.id === gateId)?.requiredSignoffs) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ error: `Gate "${gateId}" requires sign-off; remove it from the VS Code panel` }),
+            }],
+            isError: true,
+          }
+        }
+        const result = deleteGate(markdown, gateId, readAnnotationKinds(file))
+        if ('error' in result) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ error: result.error }),
+            }],
+            isError: true,
+          }
+        }
+        writeMarkdownFile(file, result.markdown)
+
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ deleted: result.gate.id, dependents: result.dependents }, null, 2),
+          }],
+        }
+      } catch (err) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+          }],
+          isError: true,
+        }
+      }
+    },
+  )
+
+  // ─── set_review_state ───
+  server.tool(
+    'set_review_state',
+    'Move the plan\'s document-level review state (frontmatter review.status): draft → in-review → changes-requested / approved → implementing → done. Moving back (reopen, request changes) is always allowed; approved and implementing are refused while an implement gate is blocked, and done while a merge or release gate is not done. Returns the previous and new state and the moves now available.',
+    {
+      file: z.string().describe('Path to the annotated markdown file'),
+      state: z.enum(PLAN_STATUSES as [PlanStatus, ...PlanStatus[]]).describe('Target review state'),
+    },
+    async ({ file, state }) => {
+      try {
+        const markdown = readMarkdownFile(file)
+        const kinds = readAnnotationKinds(file)
+        const result = transitionReview(markdown, state, kinds)
+        if ('error' in result) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ error: result.error, ...getReviewState(markdown, kinds) }),
+            }],
+            isError: true,
+          }
+        }
+
+        // Only the frontmatter changes
+        const updated = result.frontmatter + markdown.slice(splitDocument(markdown).frontmatter.length)
+        writeMarkdownFile(file, updated)
+
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ from: result.from, ...getReviewState(updated, kinds) }, null, 2),
+          }],
+        }
+      } catch (err) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+          }],
+          isError: true,
+        }
+      }
+    },
+  )
+
   // ─── export_review ───
   server.tool(
     'export_review',
-    'Export review feedback in a format optimized for a specific AI coding tool. Targets: claude-code, cursor, codex, copilot, cline, windsurf, roo-code, gemini, generic, handoff. Returns formatted markdown ready to save to the appropriate file.',
+    'Export review feedback in a format optimized for a specific AI coding tool. Targets: claude-code, cursor, codex, copilot, cline, windsurf, roo-code, gemini, generic, handoff. Without a target, the plan\'s default (frontmatter review.exportTargets, first entry) is used, else generic. Returns formatted markdown ready to save to the appropriate file. Pass labels to export only the memos carrying them (e.g., only "backend" fixes).',
     {
       file: z.string().describe('Path to the annotated markdown file'),
-      target: z.enum(['claude-code', 'cursor', 'codex', 'copilot', 'cline', 'windsurf', 'roo-code', 'gemini', 'antigravity', 'generic', 'handoff']).describe('Target AI tool format'),
+      target: z.enum(['claude-code', 'cursor', 'codex', 'copilot', 'cline', 'windsurf', 'roo-code', 'gemini', 'antigravity', 'generic', 'handoff']).optional().describe('Target AI tool format (default: the plan\'s first export target, else generic)'),
+      labels: z.array(z.string()).optional().describe('Only export memos carrying any of these labels (ignored for handoff)'),
     },
-    async ({ file, target }) => {
+    async ({ file, target: requested, labels }) => {
       try {
         const markdown = readMarkdownFile(file)
+        const kinds = readAnnotationKinds(file)
+        const settings = readReviewSettings(splitDocument(markdown).frontmatter).settings
+        const target = requested ?? settings.exportTargets[0] ?? 'generic'
 
         if (target === 'handoff') {
-          const doc = buildHandoffDocument(markdown, file)
+          const doc = buildHandoffDocument(markdown, file, kinds)
           const handoff = formatHandoffMarkdown(doc, 'standalone')
           return { content: [{ type: 'text' as const, text: handoff }] }
         }
 
         // For claude-code, cursor, generic — use context-generator logic
-        const { memos } = extractMemos(markdown)
-        const counts = getAnnotationCounts(markdown)
+        const parts = splitDocument(markdown)
+        const headings = parseAnnotations(parts.body, kinds).headings
+        const items = parts.memos
+          .filter(m => matchesLabels(m.labels, labels))
+          .map(m => memoFeedbackItem(m, sectionAt(headings, parseInt(m.anchor.match(/^L(\d+)/)?.[1] ?? '0', 10) - 1)))
+        const counts = getAnnotationCounts(markdown, kinds)
         const allSections = getAllSections(markdown)
         const reviewedSections = getSectionsWithAnnotations(markdown)
 
         // Build feedback items from memos
-        const fixes = memos.filter(m => m.color === 'red')
-        const questions = memos.filter(m => m.color === 'blue')
-        const highlights = memos.filter(m => m.color === 'yellow')
+        const fixes = byPriority(items.filter(i => i.type === 'fix'))
+        const questions = byPriority(items.filter(i => i.type === 'question'))
+        const highlights = items.filter(i => i.type === 'highlight')
+        const extras = kindGroups(items, kinds)
 
         const L: string[] = []
         const docTitle = allSections[0] || 'Plan Review'
@@ -454,27 +1084,33 @@ export function registerTools(server: McpServer): void {
         if (target === 'claude-code' || target === 'codex' || target === 'copilot' || target === 'cline' || target === 'windsurf' || target === 'roo-code' || target === 'gemini' || target === 'antigravity') {
           L.push(`## Active Plan Review: ${file}`)
           L.push(`Follow this plan. Refer to ${file} for details.`)
+          L.push(reviewStatusLine(settings.status))
           L.push('')
           if (fixes.length > 0) {
             L.push('### Must Fix')
             for (const f of fixes) {
-              const anchor = f.anchorText ? `"${f.anchorText.slice(0, 60)}" → ` : ''
-              L.push(`- ${anchor}${f.text}`)
+              const anchor = f.text ? `"${f.text.slice(0, 60)}"${where(f)} → ` : ''
+              L.push(bullet(`- ${priorityTag(f)}${anchor}`, f.feedback))
+              const reply = replyLine(f)
+              if (reply) L.push(reply)
             }
             L.push('')
           }
           if (questions.length > 0) {
             L.push('### Open Questions (resolve before implementing)')
             for (const q of questions) {
-              const anchor = q.anchorText ? `"${q.anchorText.slice(0, 60)}" — ` : ''
-              L.push(`- ${anchor}${q.text}`)
+              const anchor = q.text ? `"${q.text.slice(0, 60)}"${where(q)} — ` : ''
+              L.push(bullet(`- ${priorityTag(q)}${anchor}`, q.feedback))
+              const reply = replyLine(q)
+              if (reply) L.push(reply)
             }
             L.push('')
           }
+          pushKindSections(L, extras, title => `### ${title}`)
           if (highlights.length > 0) {
             L.push('### Key Points (preserve these)')
             for (const h of highlights) {
-              const anchor = h.anchorText ? `"${h.anchorText.slice(0, 80)}"` : h.text
+              const anchor = h.text ? `"${h.text.slice(0, 80)}"` : h.feedback
               L.push(`- ${anchor}`)
             }
             L.push('')
@@ -495,19 +1131,27 @@ export function registerTools(server: McpServer): void {
           L.push('---')
           L.push('')
           L.push(`Follow the plan at ${file} strictly.`)
+          L.push(reviewStatusLine(settings.status))
           L.push('')
           if (fixes.length > 0) {
             L.push('Required changes:')
             for (const f of fixes) {
-              L.push(`- ${f.anchorText ? `"${f.anchorText.slice(0, 50)}" → ` : ''}${f.text}`)
+              L.push(bullet(`- ${priorityTag(f)}${f.text ? `"${f.text.slice(0, 50)}"${where(f)} → ` : ''}`, f.feedback))
+              const reply = replyLine(f)
+              if (reply) L.push(reply)
             }
             L.push('')
           }
           if (questions.length > 0) {
             L.push('Open questions (resolve before coding):')
-            for (const q of questions) { L.push(`- ${q.text}`) }
+            for (const q of questions) {
+              L.push(bullet(`- ${priorityTag(q)}`, q.feedback))
+              const reply = replyLine(q)
+              if (reply) L.push(reply)
+            }
             L.push('')
           }
+          pushKindSections(L, extras, title => `${title}:`)
           L.push('Remove this file when all items are complete.')
         } else {
           // generic
@@ -515,28 +1159,34 @@ export function registerTools(server: McpServer): void {
           L.push('')
           L.push(`**Source:** \`${file}\``)
           L.push(`**Reviewed:** ${new Date().toISOString().split('T')[0]}`)
-          L.push(`**Summary:** ${counts.fixes} fix, ${counts.questions} question, ${counts.highlights} highlight`)
+          L.push(`**Status:** ${PLAN_STATUS_LABELS[settings.status]}`)
+          L.push(`**Summary:** ${formatAnnotationCounts(counts)}`)
           L.push('')
           if (fixes.length > 0) {
             L.push('## Must Fix')
             for (const f of fixes) {
-              const anchor = f.anchorText ? `"${f.anchorText.slice(0, 60)}" → ` : ''
-              L.push(`- ${anchor}${f.text}`)
+              const anchor = f.text ? `"${f.text.slice(0, 60)}"${where(f)} → ` : ''
+              L.push(bullet(`- ${priorityTag(f)}${anchor}`, f.feedback))
+              const reply = replyLine(f)
+              if (reply) L.push(reply)
             }
             L.push('')
           }
           if (questions.length > 0) {
             L.push('## Questions')
             for (const q of questions) {
-              const anchor = q.anchorText ? `"${q.anchorText.slice(0, 60)}" — ` : ''
-              L.push(`- ${anchor}${q.text}`)
+              const anchor = q.text ? `"${q.text.slice(0, 60)}"${where(q)} — ` : ''
+              L.push(bullet(`- ${priorityTag(q)}${anchor}`, q.feedback))
+              const reply = replyLine(q)
+              if (reply) L.push(reply)
             }
             L.push('')
           }
+          pushKindSections(L, extras, title => `## ${title}`)
           if (highlights.length > 0) {
             L.push('## Key Points')
             for (const h of highlights) {
-              L.push(`- ${h.anchorText || h.text}`)
+              L.push(`- ${h.text || h.feedback}`)
             }
             L.push('')
           }
@@ -564,4 +1214,114 @@ export function registerTools(server: McpServer): void {
       }
     },
   )
+
+  // ─── migrate_annotations ───
+  server.tool(
+    'migrate_annotations',
+    'Upgrade legacy <!-- @memo --> blocks and v0.3 single-line USER_MEMO comments to the v0.4 multi-line format (owner, source, timestamps, anchor). Pass file for one document or directory for every .md file under it. Use dryRun to preview each change (before/after) without writing.',
+    {
+      file: z.string().optional().describe('Path to one annotated markdown file'),
+      directory: z.string().optional().describe('Migrate every .md file under this directory (node_modules and dot-directories skipped)'),
+      dryRun: z.boolean().optional().describe('Return the changes without writing any file (default: false)'),
+    },
+    async ({ file, directory, dryRun }) => {
+      try {
+        if (!file === !directory) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ error: 'Provide exactly one of file or directory' }),
+            }],
+            isError: true,
+          }
+        }
+
+        const files = file ? [file] : listMarkdownFiles(directory!)
+        const migrated = []
+        for (const path of files) {
+          const result = migrateAnnotations(readMarkdownFile(path))
+          if (result.changes.length === 0) continue
+          if (!dryRun) writeMarkdownFile(path, result.markdown)
+          migrated.push({ file: path, changes: result.changes })
+        }
+
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({
+              dryRun: dryRun ?? false,
+              filesScanned: files.length,
+              filesChanged: migrated.length,
+              memosMigrated: migrated.reduce((n, f) => n + f.changes.filter(c => c.from !== 'wrapper').length, 0),
+              files: migrated,
+            }, null, 2),
+          }],
+        }
+      } catch (err) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+          }],
+          isError: true,
+        }
+      }
+    },
+  )
+
+  // ─── lint_document ───
+  server.tool(
+    'lint_document',
+    'Validate annotation blocks: unterminated or malformed blocks, unknown attributes, missing or duplicate IDs, gate/dependency references to missing memos, invalid status/type/owner/priority values, invalid gate conditions (plus info-level notes on the clause of a gate condition that is not met yet), extra PLAN_CURSORs, and invalid frontmatter review settings. Lines are 1-based. Pass fix=true to apply the available fixes and write the file.',
+    {
+      file: z.string().describe('Path to the annotated markdown file'),
+      fix: z.boolean().optional().describe('Apply available fixes and write the file (default: false)'),
+    },
+    async ({ file, fix }) => {
+      try {
+        const markdown = readMarkdownFile(file)
+        const kinds = readAnnotationKinds(file)
+        let issues = lintAnnotations(markdown, kinds)
+        let fixed = 0
+
+        if (fix) {
+          const result = applyLintFixes(markdown, issues.flatMap(i => i.fix ? [i.fix] : []))
+          if (result.applied > 0) {
+            writeMarkdownFile(file, result.markdown)
+            fixed = result.applied
+            issues = lintAnnotations(result.markdown, kinds)
+          }
+        }
+
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({
+              issues: issues.map(i => ({
+                line: i.line + 1,
+                severity: i.severity,
+                code: i.code,
+                message: i.message,
+                ...(i.fix ? { fix: i.fix.title } : {}),
+              })),
+              summary: {
+                errors: issues.filter(i => i.severity === 'error').length,
+                warnings: issues.filter(i => i.severity === 'warning').length,
+                info: issues.filter(i => i.severity === 'info').length,
+                ...(fix ? { fixed } : {}),
+              },
+            }, null, 2),
+          }],
+        }
+      } catch (err) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+          }],
+          isError: true,
+        }
+      }
+    },
+  )
 }
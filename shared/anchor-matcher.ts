@@ -0,0 +1,150 @@
+/**
+ * Anchor Matcher — find a memo's quoted text again after the body was edited
+ *
+ * createTextAnchor(): character range, plus prefix/suffix context when the quote is ambiguous
+ * findExactQuote(): the stored range if it still holds, else the best exact occurrence
+ * findFuzzyQuote(): approximate match (edit distance) that survives rewording
+ *
+ * Candidates are ranked by how well their surroundings match the stored
+ * prefix/suffix, then by distance from where the quote used to be.
+ */
+
+import type { TextAnchor } from './types'
+
+const CONTEXT_CHARS = 16          // prefix/suffix length stored with an ambiguous range
+const SEARCH_WINDOW = 2000        // chars around the old position searched before the whole body
+const MIN_FUZZY_QUOTE = 6         // shorter quotes only match exactly
+const MAX_FUZZY_QUOTE = 256       // longer quotes fall back to line-hash anchoring
+const MAX_ERROR_RATIO = 0.3       // edits allowed, relative to quote length
+const MAX_FUZZY_CELLS = 20_000_000 // body × quote budget for a whole-body scan
+
+export interface QuoteMatch {
+  start: number
+  end: number                   // exclusive
+  errors: number                // edit distance to the quote (0 = exact)
+}
+
+/**
+ * Build a character-range anchor for body[start, end). Context is only kept when the
+ * quote occurs more than once — a unique quote is found again without it.
+ */
+export function createTextAnchor(body: string, start: number, end: number): TextAnchor {
+  const quote = body.slice(start, end)
+  const ambiguous = !!quote && body.indexOf(quote) !== body.lastIndexOf(quote)
+  return {
+    start,
+    end,
+    prefix: ambiguous ? body.slice(Math.max(0, start - CONTEXT_CHARS), start) : '',
+    suffix: ambiguous ? body.slice(end, end + CONTEXT_CHARS) : '',
+  }
+}
+
+/**
+ * Exact match of `quote`: the stored range when it still holds the quote,
+ * otherwise the occurrence whose context and position best fit the old anchor.
+ * `near` is the expected offset when there is no stored range (e.g. from a line anchor).
+ */
+export function findExactQuote(body: string, quote: string, anchor?: TextAnchor, near = 0): QuoteMatch | null {
+  if (!quote) return null
+  if (anchor && body.slice(anchor.start, anchor.end) === quote) {
+    return { start: anchor.start, end: anchor.end, errors: 0 }
+  }
+
+  const candidates: QuoteMatch[] = []
+  for (let idx = body.indexOf(quote); idx >= 0; idx = body.indexOf(quote, idx + 1)) {
+    candidates.push({ start: idx, end: idx + quote.length, errors: 0 })
+  }
+  return pickBest(body, quote, candidates, anchor, anchor?.start ?? near)
+}
+
+/**
+ * Approximate match of `quote` allowing up to 30% edits, searched near the old
+ * position first. Returns null for quotes too short or too long to match safely.
+ */
+export function findFuzzyQuote(body: string, quote: string, anchor?: TextAnchor, near = 0): QuoteMatch | null {
+  if (quote.length < MIN_FUZZY_QUOTE || quote.length > MAX_FUZZY_QUOTE) return null
+  const maxErrors = Math.floor(quote.length * MAX_ERROR_RATIO)
+  const center = anchor?.start ?? near
+
+  const from = Math.max(0, center - SEARCH_WINDOW)
+  const to = Math.min(body.length, center + quote.length + SEARCH_WINDOW)
+  let candidates = approximateMatches(body.slice(from, to), quote, maxErrors)
+    .map(c => ({ ...c, start: c.start + from, end: c.end + from }))
+
+  const windowCoversBody = from === 0 && to === body.length
+  if (candidates.length === 0 && !windowCoversBody && body.length * quote.length <= MAX_FUZZY_CELLS) {
+    candidates = approximateMatches(body, quote, maxErrors)
+  }
+  return pickBest(body, quote, candidates, anchor, center)
+}
+
+// ─── Scoring ───
+
+function pickBest(body: string, quote: string, candidates: QuoteMatch[], anchor: TextAnchor | undefined, center: number): QuoteMatch | null {
+  let best: QuoteMatch | null = null
+  let bestScore = -Infinity
+  for (const c of candidates) {
+    const score = contextScore(body, c, anchor)
+      - c.errors / quote.length
+      - Math.abs(c.start - center) / (body.length + 1) * 0.5
+    if (score > bestScore) {
+      best = c
+      bestScore = score
+    }
+  }
+  return best
+}
+
+/** 0…1: how much of the stored prefix/suffix still surrounds the candidate */
+function contextScore(body: string, c: QuoteMatch, anchor: TextAnchor | undefined): number {
+  if (!anchor || anchor.prefix.length + anchor.suffix.length === 0) return 0
+  const before = body.slice(Math.max(0, c.start - anchor.prefix.length), c.start)
+  const after = body.slice(c.end, c.end + anchor.suffix.length)
+  let same = 0
+  while (same < before.length && before[before.length - 1 - same] === anchor.prefix[anchor.prefix.length - 1 - same]) same++
+  let sameAfter = 0
+  while (sameAfter < after.length && after[sameAfter] === anchor.suffix[sameAfter]) sameAfter++
+  return (same + sameAfter) / (anchor.prefix.length + anchor.suffix.length)
+}
+
+// ─── Approximate search (Sellers' algorithm with start tracking) ───
+
+/**
+ * All substrings of `text` within `maxErrors` edits of `pattern`.
+ * Overlapping hits are collapsed to the one with the fewest errors.
+ */
+function approximateMatches(text: string, pattern: string, maxErrors: number): QuoteMatch[] {
+  const m = pattern.length
+  let prev = new Int32Array(m + 1)
+  let prevStart = new Int32Array(m + 1)
+  let cur = new Int32Array(m + 1)
+  let curStart = new Int32Array(m + 1)
+  for (let j = 0; j <= m; j++) prev[j] = j
+
+  const hits: QuoteMatch[] = []
+  for (let i = 1; i <= text.length; i++) {
+    cur[0] = 0
+    curStart[0] = i
+    const ch = text[i - 1]
+    for (let j = 1; j <= m; j++) {
+      let cost = prev[j - 1] + (ch === pattern[j - 1] ? 0 : 1)
+      let start = prevStart[j - 1]
+      if (prev[j] + 1 < cost) { cost = prev[j] + 1; start = prevStart[j] }
+      if (cur[j - 1] + 1 < cost) { cost = cur[j - 1] + 1; start = curStart[j - 1] }
+      cur[j] = cost
+      curStart[j] = start
+    }
+    if (cur[m] <= maxErrors) {
+      const hit = { start: curStart[m], end: i, errors: cur[m] }
+      const last = hits[hits.length - 1]
+      if (last && hit.start < last.end) {
+        if (hit.errors < last.errors) hits[hits.length - 1] = hit
+      } else {
+        hits.push(hit)
+      }
+    }
+    const swap = prev; prev = cur; cur = swap
+    const swapStart = prevStart; prevStart = curStart; curStart = swapStart
+  }
+  return hits
+}
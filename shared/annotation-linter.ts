@@ -0,0 +1,456 @@
+/**
+ * Annotation Linter — report annotation blocks the parser would silently misread
+ *
+ * lintAnnotations(): malformed or unterminated blocks, missing and duplicate IDs,
+ *   dangling gate / dependency / scope references, gate dependency cycles,
+ *   invalid enum values, invalid gate conditions (and, as info, conditions not
+ *   met yet), extra PLAN_CURSORs, and problems in the frontmatter `review:` settings
+ * applyLintFixes(): apply the line edits attached to issues (quick fixes)
+ *
+ * Works on parseAnnotations() nodes plus the raw source lines, so code fences
+ * are skipped exactly as everywhere else. Lines are 0-based.
+ */
+
+import type { AnnotationKind, MemoV2 } from './types'
+import {
+  DEFAULT_ANNOTATION_KINDS, MEMO_STATUSES, MEMO_OWNERS, MEMO_PRIORITIES,
+  GATE_TYPES, GATE_STATUSES, kindForColor,
+} from './types'
+import { parseAnnotations, parseAttrs, MEMO_BODY_RE, type BlockNode } from './annotation-parser'
+import { generateMemoId } from './document-writer'
+import { nextGateId } from './gate-editing'
+import { readReviewSettings } from './review-settings'
+import { conditionHeadings, evaluateCondition, findDependencyCycles, looksLikeCondition, parseCondition, scopeSection } from './gate-evaluator'
+
+export type LintCode =
+  | 'unterminated-block'
+  | 'malformed-line'
+  | 'unknown-attribute'
+  | 'missing-id'
+  | 'duplicate-id'
+  | 'dangling-reference'
+  | 'invalid-value'
+  | 'multiple-cursors'
+  | 'invalid-setting'
+  | 'invalid-condition'
+  | 'dependency-cycle'
+  | 'unmet-condition'
+
+export interface LintIssue {
+  code: LintCode
+  severity: 'error' | 'warning' | 'info'
+  message: string
+  line: number                  // 0-based line the issue points at
+  fix?: LintFix
+}
+
+export interface LintFix {
+  title: string
+  edits: LintEdit[]
+}
+
+/** Replace lines [startLine, endLine) with `lines` (startLine === endLine inserts) */
+export interface LintEdit {
+  startLine: number
+  endLine: number
+  lines: string[]
+}
+
+const ATTR_LINE_RE = /^(\w+)="([^"]*)"$/
+const THREAD_LINE_RE = /^(reply|history)\s+/
+const SIGNOFF_LINE_RE = /^signoff\s+/
+const BLOCK_START_RE = /^<!-- (USER_MEMO|GATE|PLAN_CURSOR)\s*$/
+const BLOCK_END = '-->'
+
+const MEMO_ATTRS = new Set([
+  'id', 'type', 'status', 'priority', 'labels', 'dependsOn', 'owner', 'source', 'color',
+  'text', 'anchorText', 'anchor', 'range', 'prefix', 'suffix', 'code', 'cell', 'orphaned', 'suggestion',
+  'createdAt', 'updatedAt',
+])
+const GATE_ATTRS = new Set(['id', 'type', 'status', 'blockedBy', 'dependsOn', 'minPriority', 'scope', 'canProceedIf', 'doneDefinition', 'requiredSignoffs'])
+const CURSOR_ATTRS = new Set(['taskId', 'step', 'nextAction', 'lastSeenHash', 'updatedAt'])
+
+type AttrBlock = Extract<BlockNode, { type: 'memo' | 'gate' | 'cursor' }>
+
+export function lintAnnotations(markdown: string, kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS): LintIssue[] {
+  const doc = parseAnnotations(markdown, kinds)
+  const lines = doc.lines
+  const issues: LintIssue[] = []
+
+  const memoBlocks = doc.blocks.filter((b): b is Extract<BlockNode, { type: 'memo' }> => b.type === 'memo')
+  const memoIds = new Set(memoBlocks.map(b => b.memo.id))
+  const memos = memoBlocks.map(b => b.memo)
+  const gateIds = new Set<string>()
+  const gates = doc.blocks.flatMap(b => b.type === 'gate' ? [b.gate] : [])
+  const allGateIds = new Set(gates.map(g => g.id))
+  const gateCycles = findDependencyCycles(gates)
+
+  // ── Block structure and attribute values ──
+  for (const block of doc.blocks) {
+    if (block.type !== 'gate' && block.type !== 'cursor' && !(block.type === 'memo' && block.format === 'v4')) continue
+    const b: AttrBlock = block
+    const start = b.range.startLine
+    const bodyEnd = terminatedAt(lines, b)
+    if (bodyEnd === null) {
+      const last = lastAttrLine(lines, start)
+      issues.push({
+        code: 'unterminated-block',
+        severity: 'error',
+        message: `${blockName(b)} is missing its closing "${BLOCK_END}" — everything after it is swallowed`,
+        line: start,
+        fix: { title: `Close the block with "${BLOCK_END}"`, edits: [{ startLine: last + 1, endLine: last + 1, lines: [BLOCK_END] }] },
+      })
+      continue
+    }
+
+    const known = b.type === 'memo' ? MEMO_ATTRS : b.type === 'gate' ? GATE_ATTRS : CURSOR_ATTRS
+    const attrLine = new Map<string, number>()
+    for (let i = start + 1; i < bodyEnd; i++) {
+      const trimmed = lines[i].trim()
+      if (!trimmed) continue
+      const m = trimmed.match(ATTR_LINE_RE)
+      if (m) {
+        attrLine.set(m[1], i)
+        if (!known.has(m[1])) {
+          issues.push({
+            code: 'unknown-attribute',
+            severity: 'warning',
+            message: `Unknown ${blockName(b)} attribute "${m[1]}" is ignored`,
+            line: i,
+            fix: { title: `Remove "${m[1]}"`, edits: [{ startLine: i, endLine: i + 1, lines: [] }] },
+          })
+        }
+        continue
+      }
+      if (b.type === 'memo' && MEMO_BODY_RE.test(lines[i])) continue
+      if (b.type === 'memo' && THREAD_LINE_RE.test(trimmed)) {
+        issues.push(...lintThreadLine(trimmed, i))
+        continue
+      }
+      if (b.type === 'gate' && SIGNOFF_LINE_RE.test(trimmed)) {
+        if (!/\bname="[^"]+"/.test(trimmed)) {
+          issues.push({
+            code: 'invalid-value',
+            severity: 'error',
+            message: 'Sign-off has no name — it is read as "unknown"',
+            line: i,
+          })
+        }
+        continue
+      }
+      issues.push({
+        code: 'malformed-line',
+        severity: 'warning',
+        message: `Line is not key="value" and is ignored by the parser`,
+        line: i,
+        fix: { title: 'Remove line', edits: [{ startLine: i, endLine: i + 1, lines: [] }] },
+      })
+    }
+
+    const a = parseAttrs(lines.slice(start + 1, bodyEnd))
+    const setAttr = (key: string, value: string): LintEdit => {
+      const at = attrLine.get(key)
+      return at !== undefined
+        ? { startLine: at, endLine: at + 1, lines: [`  ${key}="${value}"`] }
+        : { startLine: start + 1, endLine: start + 1, lines: [`  ${key}="${value}"`] }
+    }
+    const removeAttr = (key: string): LintEdit => {
+      const at = attrLine.get(key)!
+      return { startLine: at, endLine: at + 1, lines: [] }
+    }
+    const checkEnum = (key: string, allowed: readonly string[], fallback: string | null) => {
+      const value = a[key]
+      if (value === undefined || allowed.includes(value)) return
+      issues.push({
+        code: 'invalid-value',
+        severity: 'error',
+        message: `Invalid ${key} "${value}" — expected ${allowed.join(', ')}`,
+        line: attrLine.get(key)!,
+        fix: fallback === null
+          ? { title: `Remove ${key}`, edits: [removeAttr(key)] }
+          : { title: `Change ${key} to "${fallback}"`, edits: [setAttr(key, fallback)] },
+      })
+    }
+
+    if (b.type === 'memo') {
+      if (!a.id) {
+        issues.push({
+          code: 'missing-id',
+          severity: 'error',
+          message: 'Memo has no id — a new one is invented on every read',
+          line: start,
+          fix: { title: 'Add a memo id', edits: [setAttr('id', generateMemoId())] },
+        })
+      }
+      checkEnum('status', MEMO_STATUSES, 'open')
+      checkEnum('owner', MEMO_OWNERS, 'human')
+      checkEnum('priority', MEMO_PRIORITIES, null)
+      if (a.type && !kinds.some(k => k.type === a.type)) {
+        const expected = kindForColor(a.color || 'red', kinds).type
+        issues.push({
+          code: 'invalid-value',
+          severity: 'warning',
+          message: `Unknown annotation kind "${a.type}" — expected ${kinds.map(k => k.type).join(', ')}`,
+          line: attrLine.get('type')!,
+          fix: { title: `Change type to "${expected}"`, edits: [setAttr('type', expected)] },
+        })
+      }
+      if (a.color && !kinds.some(k => k.color === a.color)) {
+        issues.push({
+          code: 'invalid-value',
+          severity: 'warning',
+          message: `Unknown color "${a.color}" — expected ${kinds.map(k => k.color).join(', ')}`,
+          line: attrLine.get('color')!,
+        })
+      }
+      for (const [key, re, shape] of [['code', /^\d+(-\d+)?$/, '"3" or "3-5"'], ['cell', /^\d+:\d+$/, '"row:column"']] as const) {
+        if (a[key] === undefined || re.test(a[key])) continue
+        issues.push({
+          code: 'invalid-value',
+          severity: 'error',
+          message: `Invalid ${key} "${a[key]}" — expected ${shape}`,
+          line: attrLine.get(key)!,
+          fix: { title: `Remove ${key}`, edits: [removeAttr(key)] },
+        })
+      }
+      issues.push(...danglingRefs(a.dependsOn, 'dependsOn', memoIds, attrLine.get('dependsOn'), setAttr))
+    } else if (b.type === 'gate') {
+      if (!a.id) {
+        issues.push({
+          code: 'missing-id',
+          severity: 'error',
+          message: 'Gate has no id — a new one is invented on every read',
+          line: start,
+          fix: { title: 'Add a gate id', edits: [setAttr('id', nextGateId(gates))] },
+        })
+      } else if (gateIds.has(a.id)) {
+        issues.push(duplicateId('Gate', a.id, attrLine.get('id')!, setAttr('id', nextGateId(gates))))
+      } else {
+        gateIds.add(a.id)
+      }
+      checkEnum('type', GATE_TYPES, 'custom')
+      checkEnum('status', GATE_STATUSES, 'blocked')
+      checkEnum('minPriority', MEMO_PRIORITIES, null)
+      if (a.requiredSignoffs !== undefined && !/^\d+$/.test(a.requiredSignoffs)) {
+        issues.push({
+          code: 'invalid-value',
+          severity: 'error',
+          message: `Invalid requiredSignoffs "${a.requiredSignoffs}" — expected a number of people`,
+          line: attrLine.get('requiredSignoffs')!,
+          fix: { title: 'Remove requiredSignoffs', edits: [removeAttr('requiredSignoffs')] },
+        })
+      }
+      issues.push(...danglingRefs(a.blockedBy, 'blockedBy', memoIds, attrLine.get('blockedBy'), setAttr))
+      issues.push(...danglingRefs(a.dependsOn, 'dependsOn', allGateIds, attrLine.get('dependsOn'), setAttr, 'gate'))
+      const cycle = gateCycles.find(c => c.includes(a.id))
+      if (cycle && attrLine.has('dependsOn')) {
+        issues.push({
+          code: 'dependency-cycle',
+          severity: 'error',
+          message: `Gate dependencies form a cycle (${[...cycle, cycle[0]].join(' → ')}) — these gates stay blocked`,
+          line: attrLine.get('dependsOn')!,
+        })
+      }
+      // Memo cards sit under the heading of the text they annotate: a scoped gate sees the cards in its section
+      let gateMemos: MemoV2[] | null = memos
+      let gateTasks = doc.tasks
+      if (a.scope) {
+        const section = scopeSection(a.scope, doc.headings)
+        gateMemos = section && memoBlocks
+          .filter(m => m.range.startLine >= section.start && m.range.startLine < section.end)
+          .map(m => m.memo)
+        gateTasks = section ? doc.tasks.filter(t => t.range.startLine >= section.start && t.range.startLine < section.end) : []
+        if (!section) {
+          issues.push({
+            code: 'dangling-reference',
+            severity: 'warning',
+            message: `scope "${a.scope}" matches no heading — the gate stays blocked`,
+            line: attrLine.get('scope')!,
+          })
+        }
+      }
+      for (const key of ['canProceedIf', 'doneDefinition'] as const) {
+        const text = a[key]
+        if (!text || !looksLikeCondition(text)) continue
+        const parsed = parseCondition(text, kinds)
+        if ('error' in parsed) {
+          issues.push({
+            code: 'invalid-condition',
+            severity: 'error',
+            message: `Invalid ${key} condition at column ${parsed.column + 1}: ${parsed.error} — the gate ${key === 'canProceedIf' ? 'stays blocked' : 'is never done'}`,
+            line: attrLine.get(key)!,
+          })
+          continue
+        }
+        const missing = conditionHeadings(parsed.condition).filter(h => !scopeSection(h, doc.headings))
+        if (missing.length > 0) {
+          issues.push({
+            code: 'dangling-reference',
+            severity: 'warning',
+            message: `${key} names ${missing.map(h => `task(${h})`).join(', ')} but no such heading exists — that clause fails`,
+            line: attrLine.get(key)!,
+          })
+          continue
+        }
+        const failed = gateMemos && evaluateCondition(parsed.condition, gateMemos, kinds, gateTasks, doc.headings).failed
+        if (failed) {
+          issues.push({
+            code: 'unmet-condition',
+            severity: 'info',
+            message: `Gate "${a.id || '?'}" ${key === 'canProceedIf' ? 'is blocked' : 'is not done'}: ${failed}`,
+            line: attrLine.get(key)!,
+          })
+        }
+      }
+    }
+  }
+
+  // ── Duplicate memo IDs (any format) ──
+  const seen = new Set<string>()
+  for (const block of memoBlocks) {
+    const { id } = block.memo
+    if (!seen.has(id)) {
+      seen.add(id)
+      continue
+    }
+    const idLine = findIdLine(lines, block)
+    const newId = generateMemoId()
+    issues.push(duplicateId('Memo', id, idLine, {
+      startLine: idLine,
+      endLine: idLine + 1,
+      lines: [lines[idLine].replace(`id="${id}"`, `id="${newId}"`)],
+    }))
+  }
+
+  // ── Only the last PLAN_CURSOR is used ──
+  const cursors = doc.blocks.filter(b => b.type === 'cursor')
+  for (const cursor of cursors.slice(0, -1)) {
+    issues.push({
+      code: 'multiple-cursors',
+      severity: 'warning',
+      message: `${cursors.length} PLAN_CURSOR blocks — only the last one is used`,
+      line: cursor.range.startLine,
+      fix: { title: 'Remove this cursor', edits: [{ startLine: cursor.range.startLine, endLine: cursor.range.endLine + 1, lines: [] }] },
+    })
+  }
+
+  // ── Frontmatter review settings ──
+  for (const issue of readReviewSettings(doc.frontmatter?.raw ?? '').issues) {
+    issues.push({ code: 'invalid-setting', severity: 'warning', message: issue.message, line: issue.line })
+  }
+
+  return issues.sort((x, y) => x.line - y.line)
+}
+
+/**
+ * Apply fixes bottom-up. A fix whose edits reach into lines an already-applied
+ * fix changed is skipped; returns the new markdown and how many fixes were applied.
+ */
+export function applyLintFixes(markdown: string, fixes: LintFix[]): { markdown: string; applied: number } {
+  const lines = markdown.split('\n')
+  const spans = fixes
+    .filter(f => f.edits.length > 0)
+    .map(fix => ({
+      fix,
+      start: Math.min(...fix.edits.map(e => e.startLine)),
+      end: Math.max(...fix.edits.map(e => e.endLine)),
+    }))
+    .sort((x, y) => y.start - x.start)
+
+  let applied = 0
+  let floor = lines.length        // lowest line changed so far
+  for (const { fix, start, end } of spans) {
+    if (end > floor) continue
+    for (const e of [...fix.edits].sort((x, y) => y.startLine - x.startLine)) {
+      lines.splice(e.startLine, e.endLine - e.startLine, ...e.lines)
+    }
+    floor = start
+    applied++
+  }
+  return { markdown: lines.join('\n'), applied }
+}
+
+// ─── Helpers ───
+
+function blockName(block: AttrBlock): string {
+  return block.type === 'memo' ? 'USER_MEMO' : block.type === 'gate' ? 'GATE' : 'PLAN_CURSOR'
+}
+
+/** Index of the block's closing line, or null when it runs into another block or off the file */
+function terminatedAt(lines: string[], block: AttrBlock): number | null {
+  const { startLine, endLine } = block.range
+  for (let i = startLine + 1; i < endLine; i++) {
+    if (BLOCK_START_RE.test(lines[i].trim())) return null
+  }
+  return lines[endLine].trim() === BLOCK_END && endLine > startLine ? endLine : null
+}
+
+/** Last line of the attribute (and memo body) run that follows a block start */
+function lastAttrLine(lines: string[], start: number): number {
+  let last = start
+  for (let i = start + 1; i < lines.length; i++) {
+    const trimmed = lines[i].trim()
+    if (!ATTR_LINE_RE.test(trimmed) && !THREAD_LINE_RE.test(trimmed) && !SIGNOFF_LINE_RE.test(trimmed) && !MEMO_BODY_RE.test(lines[i])) break
+    last = i
+  }
+  return last
+}
+
+function lintThreadLine(trimmed: string, line: number): LintIssue[] {
+  const a: Record<string, string> = {}
+  const attrRe = /(\w+)="([^"]*)"/g
+  let m: RegExpExecArray | null
+  while ((m = attrRe.exec(trimmed)) !== null) a[m[1]] = m[2]
+
+  const checks: [string, readonly string[]][] = trimmed.startsWith('reply')
+    ? [['owner', MEMO_OWNERS]]
+    : [['from', MEMO_STATUSES], ['to', MEMO_STATUSES], ['actor', MEMO_OWNERS]]
+  return checks
+    .filter(([key, allowed]) => a[key] !== undefined && !allowed.includes(a[key]))
+    .map(([key, allowed]) => ({
+      code: 'invalid-value' as const,
+      severity: 'error' as const,
+      message: `Invalid ${key} "${a[key]}" — expected ${allowed.join(', ')}`,
+      line,
+    }))
+}
+
+function danglingRefs(
+  list: string | undefined,
+  key: string,
+  known: Set<string>,
+  line: number | undefined,
+  setAttr: (key: string, value: string) => LintEdit,
+  noun = 'memo',
+): LintIssue[] {
+  if (!list || line === undefined) return []
+  const ids = list.split(',').map(id => id.trim()).filter(Boolean)
+  const missing = ids.filter(id => !known.has(id))
+  if (missing.length === 0) return []
+  const kept = ids.filter(id => known.has(id))
+  return [{
+    code: 'dangling-reference',
+    severity: 'warning',
+    message: `${key} refers to missing ${noun}${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}`,
+    line,
+    fix: { title: `Remove missing ID${missing.length === 1 ? '' : 's'} from ${key}`, edits: [setAttr(key, kept.join(','))] },
+  }]
+}
+
+function duplicateId(what: string, id: string, line: number, edit: LintEdit): LintIssue {
+  return {
+    code: 'duplicate-id',
+    severity: 'error',
+    message: `${what} id "${id}" is already used above`,
+    line,
+    fix: { title: `Give this ${what.toLowerCase()} a new id`, edits: [edit] },
+  }
+}
+
+/** Line holding a memo's id="…" (the block's first line for single-line formats) */
+function findIdLine(lines: string[], block: Extract<BlockNode, { type: 'memo' }>): number {
+  for (let i = block.range.startLine; i <= block.range.endLine; i++) {
+    if (lines[i].includes(`id="${block.memo.id}"`)) return i
+  }
+  return block.range.startLine
+}
@@ -0,0 +1,647 @@
+/**
+ * Annotation Parser — the one reader for review annotations in markdown
+ *
+ * parseAnnotations(): a single code-fence-aware scan that returns typed nodes
+ * with exact source ranges for every review block (memos in all formats,
+ * gates, plan cursor, checkpoints, wrappers, frontmatter), h1–h6 headings,
+ * task-list items, inline highlight marks, and other tools' HTML comments.
+ *
+ * Nothing inside a fenced code block (``` or ~~~) or inline code is an
+ * annotation. splitDocument, the panel roundtrip, checkpoint counts and the
+ * handoff generator all read through here so they always agree.
+ */
+
+import type { AnnotationKind, Checkpoint, Gate, GateSignoff, MemoColor, MemoPriority, MemoReply, MemoStatusChange, MemoTarget, MemoV2, PlanCursor, TaskSection, TextAnchor } from './types'
+import { colorToType, kindForColor, normalizeLabels, DEFAULT_ANNOTATION_KINDS, MEMO_PRIORITIES } from './types'
+
+// ─── Node types ───
+
+/** Where a node sits in the source: 0-based inclusive lines, and character offsets (end exclusive) */
+export interface SourceRange {
+  startLine: number
+  endLine: number
+  start: number
+  end: number
+}
+
+export interface FrontmatterNode {
+  type: 'frontmatter'
+  range: SourceRange
+  raw: string                   // exact source, including the closing --- and blank lines after it
+}
+
+export interface MemoNode {
+  type: 'memo'
+  format: 'v3' | 'v4' | 'legacy'
+  range: SourceRange
+  memo: MemoV2                  // anchorText/anchor only as stored; position-derived anchors are the caller's
+  anchorLine: number            // nearest non-empty body line above (0-based source line), or -1
+}
+
+export interface GateNode {
+  type: 'gate'
+  range: SourceRange
+  gate: Gate
+}
+
+export interface CursorNode {
+  type: 'cursor'
+  range: SourceRange
+  cursor: PlanCursor
+}
+
+export interface CheckpointNode {
+  type: 'checkpoint'
+  range: SourceRange
+  checkpoint: Checkpoint
+}
+
+/** MD Feedback banner, feedback-notes wrappers and stray </USER_MEMO> tags — dropped from the body */
+export interface WrapperNode {
+  type: 'wrapper'
+  range: SourceRange
+}
+
+export type BlockNode = FrontmatterNode | MemoNode | GateNode | CursorNode | CheckpointNode | WrapperNode
+
+export interface HeadingNode {
+  type: 'heading'
+  range: SourceRange
+  level: number
+  text: string
+}
+
+/** A task-list item: `- [ ] text` or `- [x] text` */
+export interface TaskNode {
+  type: 'task'
+  range: SourceRange
+  checked: boolean
+  text: string
+}
+
+export interface MarkNode {
+  type: 'mark'
+  range: SourceRange
+  syntax: 'html' | 'equals'     // <mark …>text</mark> or ==text==
+  color: string                 // as written: hex or color name (==text== is yellow)
+  text: string
+  memoId?: string               // memo card this highlight belongs to, if any
+}
+
+/** Another tool's whole-line HTML comment (prettier-ignore, TOC markers, lint directives) — body text */
+export interface CommentNode {
+  type: 'comment'
+  range: SourceRange
+  text: string                  // exact source lines
+}
+
+export interface ParsedAnnotations {
+  lines: string[]
+  frontmatter: FrontmatterNode | null
+  blocks: BlockNode[]           // source order, non-overlapping (frontmatter first if present)
+  headings: HeadingNode[]
+  tasks: TaskNode[]
+  marks: MarkNode[]
+  comments: CommentNode[]
+}
+
+// ─── Regex patterns ───
+
+// v0.3 single-line: <!-- USER_MEMO id="abc" color="red" status="done" : text -->
+// (any extra key="value" attributes before the colon are tolerated)
+const MEMO_V3_RE = /^<!-- USER_MEMO\s+id="([^"]+)"((?:\s+[\w-]+="[^"]*")*)\s*:\s*(.*?)\s*-->$/
+
+// v0.4 multi-line: <!-- USER_MEMO\n  id="abc"\n  type="fix"\n  ...  \n-->
+const MEMO_V4_START_RE = /^<!-- USER_MEMO\s*$/
+
+// Gate: <!-- GATE\n  id="gate-1"\n  ...  \n-->
+const GATE_START_RE = /^<!-- GATE\s*$/
+
+// Cursor: <!-- PLAN_CURSOR\n  ...  \n-->
+const CURSOR_START_RE = /^<!-- PLAN_CURSOR\s*$/
+
+// End of a multi-line memo / gate / cursor block
+const BLOCK_END_RE = /^-->$/
+
+// Checkpoint: <!-- CHECKPOINT id="..." ... -->
+const CHECKPOINT_RE = /^<!-- CHECKPOINT\s+id="([^"]+)"\s+time="([^"]+)"\s+note="([^"]*)"\s+fixes=(\d+)\s+questions=(\d+)\s+highlights=(\d+)\s+sections="([^"]*)" -->$/
+
+// Frontmatter fence (first line of the file, and its closing line)
+const FRONTMATTER_FENCE_RE = /^---\s*$/
+
+// Legacy memo blocks
+const LEGACY_MEMO_START_RE = /^<!-- @memo\s+id="([^"]+)"(?:\s+color="([^"]+)")?(?:\s+date="([^"]+)")?\s*-->$/
+const LEGACY_MEMO_END_RE = /^<!-- @\/memo -->$/
+
+// MD Feedback banner comment
+const BANNER_START_RE = /^<!--$/
+const BANNER_CONTENT_RE = /MD Feedback/
+
+// Feedback notes wrapper, and closing tags left behind by older panels
+const FEEDBACK_NOTES_RE = /^<!-- \/?(USER_FEEDBACK_NOTES|@\/?feedback-notes)\b.*-->$/
+const MEMO_CLOSE_RE = /^<!-- \/USER_MEMO\s*-->$/
+
+// Code fences: ``` or ~~~ (3+), closed by the same character at least as long
+export const FENCE_RE = /^\s*(`{3,}|~{3,})/
+
+// ATX heading
+const HEADING_RE = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+
+// Task-list item: "- [ ] text", "* [x] text", "1. [ ] text"
+export const TASK_RE = /^(\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\]\s+)(.*)$/
+
+// Inline highlights
+const MARK_HTML_RE = /<mark\b([^>]*)>(.*?)<\/mark>/g
+const MARK_EQUALS_RE = /==(?!=)(.+?)==/g
+const INLINE_CODE_RE = /`[^`\n]*`/g
+
+// Reply line inside a v0.4 memo: reply author="claude" owner="agent" createdAt="..." text="..."
+const REPLY_RE = /^reply\s+(.*)$/
+
+// Status history line inside a v0.4 memo: history from="open" to="done" actor="agent" source="claude" at="..."
+const HISTORY_RE = /^history\s+(.*)$/
+
+// Sign-off line inside a gate: signoff name="Ada" email="ada@example.com" at="..."
+const SIGNOFF_RE = /^signoff\s+(.*)$/
+
+// Body line of a multi-line memo: "  | text" (a bare "|" is a blank line)
+export const MEMO_BODY_RE = /^\s*\|(?: (.*))?$/
+
+const DEFAULT_MARK_COLOR = '#fef08a'
+
+// ─── Attribute helpers ───
+
+/** Reverse of the memo attribute escaping; "&amp;" goes last so "&amp;gt;" reads back as "&gt;" */
+function unescAttr(s: string): string {
+  return s.replace(/&quot;/g, '"').replace(/&#10;/g, '\n').replace(/&gt;/g, '>').replace(/&amp;/g, '&')
+}
+
+/**
+ * Memo body lines are raw markdown, so only "-->" needs escaping: one backslash is
+ * added before the ">" (and removed on read), which keeps any existing backslashes intact.
+ */
+export function escapeMemoBodyLine(s: string): string {
+  return s.replace(/--(\\*)>/g, '--$1\\>')
+}
+
+function unescapeMemoBodyLine(s: string): string {
+  return s.replace(/--(\\*)\\>/g, '--$1>')
+}
+
+/** Memo text from "| ..." body lines, or null when the memo has none */
+function parseMemoBody(lines: string[]): string | null {
+  const body: string[] = []
+  for (const line of lines) {
+    const m = line.match(MEMO_BODY_RE)
+    if (m) body.push(unescapeMemoBodyLine(m[1] ?? ''))
+  }
+  return body.length > 0 ? body.join('\n') : null
+}
+
+/** Parse attribute key="value" pairs from multi-line comment body */
+export function parseAttrs(lines: string[]): Record<string, string> {
+  const attrs: Record<string, string> = {}
+  for (const line of lines) {
+    const m = line.trim().match(/^(\w+)="([^"]*)"$/)
+    if (m) attrs[m[1]] = unescAttr(m[2])
+  }
+  return attrs
+}
+
+/** Parse `signoff ...` lines from a gate body, in file order (undefined when there are none) */
+function parseSignoffs(lines: string[]): GateSignoff[] | undefined {
+  const signoffs: GateSignoff[] = []
+  for (const line of lines) {
+    const m = line.trim().match(SIGNOFF_RE)
+    if (!m) continue
+    const a: Record<string, string> = {}
+    const attrRe = /(\w+)="([^"]*)"/g
+    let am: RegExpExecArray | null
+    while ((am = attrRe.exec(m[1])) !== null) a[am[1]] = unescAttr(am[2])
+    signoffs.push({ name: a.name || 'unknown', email: a.email || '', at: a.at || '' })
+  }
+  return signoffs.length > 0 ? signoffs : undefined
+}
+
+/** Parse `reply ...` lines from a v0.4 memo body, in file order */
+function parseReplies(lines: string[]): MemoReply[] {
+  const replies: MemoReply[] = []
+  for (const line of lines) {
+    const m = line.trim().match(REPLY_RE)
+    if (!m) continue
+    const a: Record<string, string> = {}
+    const attrRe = /(\w+)="([^"]*)"/g
+    let am: RegExpExecArray | null
+    while ((am = attrRe.exec(m[1])) !== null) a[am[1]] = unescAttr(am[2])
+    replies.push({
+      author: a.author || 'unknown',
+      owner: (a.owner as MemoReply['owner']) || 'human',
+      createdAt: a.createdAt || '',
+      text: a.text || '',
+    })
+  }
+  return replies
+}
+
+/** Parse `history ...` lines from a v0.4 memo body, in file order */
+function parseHistory(lines: string[]): MemoStatusChange[] {
+  const history: MemoStatusChange[] = []
+  for (const line of lines) {
+    const m = line.trim().match(HISTORY_RE)
+    if (!m) continue
+    const a: Record<string, string> = {}
+    const attrRe = /(\w+)="([^"]*)"/g
+    let am: RegExpExecArray | null
+    while ((am = attrRe.exec(m[1])) !== null) a[am[1]] = unescAttr(am[2])
+    history.push({
+      from: (a.from as MemoStatusChange['from']) || 'open',
+      to: (a.to as MemoStatusChange['to']) || 'open',
+      actor: (a.actor as MemoStatusChange['actor']) || 'human',
+      source: a.source || 'generic',
+      at: a.at || '',
+    })
+  }
+  return history
+}
+
+/** Parse range="120:142" plus prefix/suffix context into a TextAnchor */
+function parseRange(a: Record<string, string>): TextAnchor | undefined {
+  const m = (a.range || '').match(/^(\d+):(\d+)$/)
+  if (!m) return undefined
+  return { start: parseInt(m[1], 10), end: parseInt(m[2], 10), prefix: a.prefix || '', suffix: a.suffix || '' }
+}
+
+/** Parse code="3-5" (lines inside a code fence) or cell="2:3" (table row:column) */
+function parseTarget(a: Record<string, string>): MemoTarget | undefined {
+  const code = (a.code || '').match(/^(\d+)(?:-(\d+))?$/)
+  if (code) {
+    const startLine = parseInt(code[1], 10)
+    return { kind: 'code', startLine, endLine: code[2] ? parseInt(code[2], 10) : startLine }
+  }
+  const cell = (a.cell || '').match(/^(\d+):(\d+)$/)
+  if (cell) return { kind: 'cell', row: parseInt(cell[1], 10), col: parseInt(cell[2], 10) }
+  return undefined
+}
+
+function parsePriority(value: string | undefined): MemoPriority | undefined {
+  return MEMO_PRIORITIES.includes(value as MemoPriority) ? value as MemoPriority : undefined
+}
+
+/** Build a MemoV2 from the attribute lines of a v0.4 USER_MEMO block */
+export function parseMemoV2Block(attrLines: string[], fallbackAnchorText = ''): MemoV2 {
+  const a = parseAttrs(attrLines)
+  return {
+    id: a.id || `memo_${Date.now()}`,
+    type: (a.type as MemoV2['type']) || colorToType((a.color || 'red') as MemoColor),
+    status: (a.status as MemoV2['status']) || 'open',
+    priority: parsePriority(a.priority),
+    labels: a.labels ? normalizeLabels(a.labels.split(',')) : [],
+    dependsOn: a.dependsOn ? a.dependsOn.split(',').map(id => id.trim()).filter(Boolean) : [],
+    owner: (a.owner as MemoV2['owner']) || 'human',
+    source: a.source || 'generic',
+    color: (a.color || 'red') as MemoColor,
+    text: parseMemoBody(attrLines) ?? a.text ?? '',
+    anchorText: a.anchorText || fallbackAnchorText,
+    anchor: a.anchor || '',
+    ...(parseRange(a) ? { range: parseRange(a) } : {}),
+    ...(parseTarget(a) ? { target: parseTarget(a) } : {}),
+    ...(a.orphaned === 'true' ? { orphaned: true } : {}),
+    ...(a.suggestion != null ? { suggestion: a.suggestion } : {}),
+    createdAt: a.createdAt || new Date().toISOString(),
+    updatedAt: a.updatedAt || new Date().toISOString(),
+    replies: parseReplies(attrLines),
+    history: parseHistory(attrLines),
+  }
+}
+
+
+// ─── Parser ───
+
+/**
+ * Parse annotated markdown into typed nodes with source ranges.
+ * Unterminated multi-line blocks run to the end of the file, as they always have.
+ */
+export function parseAnnotations(markdown: string, kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS): ParsedAnnotations {
+  const lines = markdown.split('\n')
+  const lineStarts: number[] = []
+  let offset = 0
+  for (const line of lines) {
+    lineStarts.push(offset)
+    offset += line.length + 1
+  }
+  const rangeOf = (startLine: number, endLine: number): SourceRange => ({
+    startLine,
+    endLine,
+    start: lineStarts[startLine],
+    end: Math.min(markdown.length, lineStarts[endLine] + lines[endLine].length),
+  })
+  // Index of the first line matching `re` from `from`, or the last line if none does
+  const findEnd = (from: number, re: RegExp): number => {
+    let j = from
+    while (j < lines.length && !re.test(lines[j].trim())) j++
+    return Math.min(j, lines.length - 1)
+  }
+
+  const blocks: BlockNode[] = []
+  const headings: HeadingNode[] = []
+  const tasks: TaskNode[] = []
+  const marks: MarkNode[] = []
+  const comments: CommentNode[] = []
+  let frontmatter: FrontmatterNode | null = null
+  let fence: { char: string; len: number } | null = null
+  let lastBodyLine = -1           // nearest non-empty body line seen so far
+
+  let i = 0
+
+  // Frontmatter: --- … --- at the very top, plus the blank lines after it
+  if (lines.length > 1 && FRONTMATTER_FENCE_RE.test(lines[0])) {
+    let close = 1
+    while (close < lines.length && !FRONTMATTER_FENCE_RE.test(lines[close])) close++
+    if (close < lines.length - 1) {
+      let end = close
+      while (end + 1 < lines.length - 1 && lines[end + 1].trim() === '') end++
+      const range = rangeOf(0, end)
+      frontmatter = { type: 'frontmatter', range, raw: markdown.slice(0, lineStarts[end + 1]) }
+      blocks.push(frontmatter)
+      i = end + 1
+    }
+  }
+
+  while (i < lines.length) {
+    const line = lines[i]
+    const trimmed = line.trim()
+
+    // ── Fenced code: body text, never annotations ──
+    const fenceMatch = line.match(FENCE_RE)
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence.char && fenceMatch[1].length >= fence.len && line.trim() === fenceMatch[1]) {
+        fence = null
+      }
+      if (trimmed) lastBodyLine = i
+      i++
+      continue
+    }
+    if (fenceMatch) {
+      fence = { char: fenceMatch[1][0], len: fenceMatch[1].length }
+      lastBodyLine = i
+      i++
+      continue
+    }
+
+    // ── v0.3 single-line memo ──
+    const v3Match = trimmed.match(MEMO_V3_RE)
+    if (v3Match) {
+      const a = parseAttrs(v3Match[2].trim().split(/\s+(?=[\w-]+=")/))
+      const color = (a.color || 'red') as MemoColor
+      blocks.push({
+        type: 'memo',
+        format: 'v3',
+        range: rangeOf(i, i),
+        anchorLine: lastBodyLine,
+        memo: {
+          ...emptyMemo(v3Match[1], color),
+          status: (a.status as MemoV2['status']) || 'open',
+          text: v3Match[3].replace(/--\u200B>/g, '-->'),
+        },
+      })
+      i++
+      continue
+    }
+
+    // ── v0.4 multi-line memo ──
+    if (MEMO_V4_START_RE.test(trimmed)) {
+      const end = findEnd(i + 1, BLOCK_END_RE)
+      blocks.push({
+        type: 'memo',
+        format: 'v4',
+        range: rangeOf(i, end),
+        anchorLine: lastBodyLine,
+        memo: parseMemoV2Block(lines.slice(i + 1, end)),
+      })
+      i = end + 1
+      continue
+    }
+
+    // ── Gate ──
+    if (GATE_START_RE.test(trimmed)) {
+      const end = findEnd(i + 1, BLOCK_END_RE)
+      const a = parseAttrs(lines.slice(i + 1, end))
+      blocks.push({
+        type: 'gate',
+        range: rangeOf(i, end),
+        gate: {
+          id: a.id || `gate_${Date.now()}`,
+          type: (a.type as Gate['type']) || 'custom',
+          status: (a.status as Gate['status']) || 'blocked',
+          blockedBy: a.blockedBy ? a.blockedBy.split(',').map(s => s.trim()).filter(Boolean) : [],
+          dependsOn: a.dependsOn ? a.dependsOn.split(',').map(s => s.trim()).filter(Boolean) : undefined,
+          minPriority: parsePriority(a.minPriority),
+          scope: a.scope || undefined,
+          canProceedIf: a.canProceedIf || '',
+          doneDefinition: a.doneDefinition || '',
+          requiredSignoffs: a.requiredSignoffs ? Math.max(0, parseInt(a.requiredSignoffs, 10) || 0) || undefined : undefined,
+          signoffs: parseSignoffs(lines.slice(i + 1, end)),
+        },
+      })
+      i = end + 1
+      continue
+    }
+
+    // ── Plan Cursor ──
+    if (CURSOR_START_RE.test(trimmed)) {
+      const end = findEnd(i + 1, BLOCK_END_RE)
+      const a = parseAttrs(lines.slice(i + 1, end))
+      blocks.push({
+        type: 'cursor',
+        range: rangeOf(i, end),
+        cursor: {
+          taskId: a.taskId || '',
+          step: a.step || '',
+          nextAction: a.nextAction || '',
+          lastSeenHash: a.lastSeenHash || '',
+          updatedAt: a.updatedAt || new Date().toISOString(),
+        },
+      })
+      i = end + 1
+      continue
+    }
+
+    // ── Checkpoint ──
+    const cpMatch = trimmed.match(CHECKPOINT_RE)
+    if (cpMatch) {
+      blocks.push({
+        type: 'checkpoint',
+        range: rangeOf(i, i),
+        checkpoint: {
+          id: cpMatch[1],
+          timestamp: cpMatch[2],
+          note: cpMatch[3].replace(/&quot;/g, '"'),
+          fixes: parseInt(cpMatch[4], 10),
+          questions: parseInt(cpMatch[5], 10),
+          highlights: parseInt(cpMatch[6], 10),
+          sectionsReviewed: cpMatch[7] ? cpMatch[7].split(',') : [],
+        },
+      })
+      i++
+      continue
+    }
+
+    // ── Legacy memo blocks ──
+    const legacyMatch = trimmed.match(LEGACY_MEMO_START_RE)
+    if (legacyMatch) {
+      const end = findEnd(i + 1, LEGACY_MEMO_END_RE)
+      const text = lines.slice(i + 1, end)
+        .map(l => l.replace(/^<!--\s*/, '').replace(/\s*-->$/, ''))
+        .join('\n').trim()
+      const created = legacyMatch[3] || new Date().toISOString()
+      blocks.push({
+        type: 'memo',
+        format: 'legacy',
+        range: rangeOf(i, end),
+        anchorLine: lastBodyLine,
+        memo: { ...emptyMemo(legacyMatch[1], (legacyMatch[2] || 'red') as MemoColor), text, createdAt: created, updatedAt: created },
+      })
+      i = end + 1
+      continue
+    }
+
+    // ── Banner comment (MD Feedback header) ──
+    if (BANNER_START_RE.test(trimmed) && i + 1 < lines.length && BANNER_CONTENT_RE.test(lines[i + 1])) {
+      let end = i
+      while (end < lines.length - 1 && !lines[end].includes('-->')) end++
+      blocks.push({ type: 'wrapper', range: rangeOf(i, end) })
+      i = end + 1
+      continue
+    }
+
+    // ── Feedback notes wrapper / stray closing tag ──
+    if (FEEDBACK_NOTES_RE.test(trimmed) || MEMO_CLOSE_RE.test(trimmed)) {
+      blocks.push({ type: 'wrapper', range: rangeOf(i, i) })
+      i++
+      continue
+    }
+
+    // ── Other tools' HTML comments: body text, but not headings or highlights ──
+    if (trimmed.startsWith('<!--')) {
+      let end = i
+      if (!trimmed.includes('-->', 4)) {
+        // Runs to the first line with -->; unterminated (or cut off by another comment): just this line
+        let j = i + 1
+        while (j < lines.length && !lines[j].includes('-->') && !lines[j].trim().startsWith('<!--')) j++
+        end = j < lines.length && lines[j].includes('-->') && !lines[j].trim().startsWith('<!--') ? j : i
+      }
+      comments.push({ type: 'comment', range: rangeOf(i, end), text: lines.slice(i, end + 1).join('\n') })
+      lastBodyLine = end
+      i = end + 1
+      continue
+    }
+
+    // ── Body line: headings, task items and inline highlights ──
+    const h = line.match(HEADING_RE)
+    if (h) headings.push({ type: 'heading', range: rangeOf(i, i), level: h[1].length, text: h[2].trim() })
+    const t = line.match(TASK_RE)
+    if (t) tasks.push({ type: 'task', range: rangeOf(i, i), checked: t[2] !== ' ', text: t[4].trim() })
+    marks.push(...scanMarks(line, i, lineStarts[i]))
+    if (trimmed) lastBodyLine = i
+    i++
+  }
+
+  attachMarks(lines, blocks, marks, kinds)
+  return { lines, frontmatter, blocks, headings, tasks, marks, comments }
+}
+
+/** A MemoV2 with defaults, for formats that only carry id/color/text */
+function emptyMemo(id: string, color: MemoColor): MemoV2 {
+  const now = new Date().toISOString()
+  return {
+    id,
+    type: colorToType(color),
+    status: 'open',
+    labels: [],
+    dependsOn: [],
+    owner: 'human',
+    source: 'generic',
+    color,
+    text: '',
+    anchorText: '',
+    anchor: '',
+    createdAt: now,
+    updatedAt: now,
+    replies: [],
+    history: [],
+  }
+}
+
+/** Inline highlights on one body line; inline code spans are masked out first */
+function scanMarks(line: string, lineIdx: number, lineStart: number): MarkNode[] {
+  const masked = line.replace(INLINE_CODE_RE, s => ' '.repeat(s.length))
+  const found: MarkNode[] = []
+  const at = (start: number, end: number): SourceRange => ({ startLine: lineIdx, endLine: lineIdx, start: lineStart + start, end: lineStart + end })
+
+  for (const m of masked.matchAll(MARK_HTML_RE)) {
+    const attrs = m[1]
+    const color = attrs.match(/data-color="([^"]+)"/)?.[1]
+      ?? attrs.match(/background-color:\s*([^;"]+)/)?.[1]
+      ?? DEFAULT_MARK_COLOR
+    found.push({ type: 'mark', range: at(m.index!, m.index! + m[0].length), syntax: 'html', color: color.trim(), text: line.slice(m.index! + m[0].indexOf('>') + 1, m.index! + m[0].length - '</mark>'.length) })
+  }
+  for (const m of masked.matchAll(MARK_EQUALS_RE)) {
+    found.push({ type: 'mark', range: at(m.index!, m.index! + m[0].length), syntax: 'equals', color: DEFAULT_MARK_COLOR, text: line.slice(m.index! + 2, m.index! + m[0].length - 2) })
+  }
+  return found.sort((a, b) => a.range.start - b.range.start)
+}
+
+/**
+ * Link each highlight to the memo card it belongs to: the first memo of the
+ * same kind that follows the highlight's paragraph (blank lines and other
+ * memo blocks in between are skipped).
+ */
+function attachMarks(lines: string[], blocks: BlockNode[], marks: MarkNode[], kinds: AnnotationKind[]): void {
+  const blockAt = new Map(blocks.map(b => [b.range.startLine, b]))
+  for (const mark of marks) {
+    const kind = kindForColor(mark.color, kinds)
+    let j = mark.range.endLine + 1
+    while (j < lines.length && lines[j].trim() !== '' && !blockAt.has(j)) j++
+    while (j < lines.length) {
+      if (lines[j].trim() === '') { j++; continue }
+      const block = blockAt.get(j)
+      if (!block || block.type !== 'memo') break
+      if (kindForColor(block.memo.color, kinds).color === kind.color) {
+        mark.memoId = block.memo.id
+        break
+      }
+      j = block.range.endLine + 1
+    }
+  }
+}
+
+/** Nearest h2 heading text above a source line ('' if none) */
+export function sectionAt(headings: HeadingNode[], line: number): string {
+  let section = ''
+  for (const h of headings) {
+    if (h.range.startLine > line) break
+    if (h.level === 2) section = h.text
+  }
+  return section
+}
+
+/** Task items grouped under the nearest heading above them; sections without tasks are left out */
+export function taskSections(doc: Pick<ParsedAnnotations, 'headings' | 'tasks'>): TaskSection[] {
+  const sections: TaskSection[] = []
+  let h = -1
+  for (const task of doc.tasks) {
+    let at = h
+    while (at + 1 < doc.headings.length && doc.headings[at + 1].range.startLine < task.range.startLine) at++
+    const last = sections[sections.length - 1]
+    if (!last || at !== h) {
+      const heading = doc.headings[at]
+      sections.push({ heading: heading?.text ?? '', level: heading?.level ?? 0, done: 0, total: 0, tasks: [] })
+      h = at
+    }
+    const section = sections[sections.length - 1]
+    section.tasks.push({ line: task.range.startLine + 1, text: task.text, checked: task.checked })
+    section.total++
+    if (task.checked) section.done++
+  }
+  return sections
+}
@@ -1,5 +1,6 @@
-import type { Checkpoint } from './types'
-import { HEX_TO_COLOR_NAME } from './types'
+import type { AnnotationKind, Checkpoint } from './types'
+import { DEFAULT_ANNOTATION_KINDS, kindForColor } from './types'
+import { parseAnnotations, sectionAt } from './annotation-parser'
 import { extractCheckpoints, serializeCheckpoint } from './markdown-roundtrip'
 
 // ─── ID generation (no external deps) ───
@@ -19,82 +20,56 @@ export interface AnnotationCounts {
   fixes: number
   questions: number
   highlights: number
+  byKind: Record<string, number>   // every kind by type, in registry order (decision, risk, todo, custom kinds, …)
 }
 
-/** Count annotations by type from raw annotated markdown */
-export function getAnnotationCounts(markdown: string): AnnotationCounts {
-  let fixes = 0
-  let questions = 0
-  let highlights = 0
-
-  // Count USER_MEMO comments by color
-  const memoRe = /<!-- USER_MEMO\s+id="[^"]+"(?:\s+color="([^"]+)")?(?:\s+status="[^"]+")?\s*:/g
-  let m: RegExpExecArray | null
-  while ((m = memoRe.exec(markdown)) !== null) {
-    const color = m[1] || 'red'
-    if (color === 'red') fixes++
-    else if (color === 'blue') questions++
-    else highlights++
+/**
+ * Count annotations by kind from raw annotated markdown: every memo (any format),
+ * plus highlights that have no memo card of their own.
+ */
+export function getAnnotationCounts(markdown: string, kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS): AnnotationCounts {
+  const doc = parseAnnotations(markdown, kinds)
+  const byKind: Record<string, number> = Object.fromEntries(kinds.map(k => [k.type, 0]))
+  const add = (type: string) => { byKind[type] = (byKind[type] ?? 0) + 1 }
+
+  for (const block of doc.blocks) {
+    if (block.type === 'memo') add(block.memo.type)
   }
-
-  // Count <mark> highlights with style (inline annotations without memos)
-  const markRe = /<mark[^>]*style="background-color:\s*([^"]+)"[^>]*>/g
-  while ((m = markRe.exec(markdown)) !== null) {
-    const hex = m[1].trim()
-    const cn = HEX_TO_COLOR_NAME[hex]
-    if (cn === 'red') fixes++
-    else if (cn === 'blue') questions++
-    else highlights++
-  }
-
-  // Count == == highlights (normalized to <mark>)
-  const eqRe = /(?<!`)==(?!.*==.*`)(.+?)==(?!`)/g
-  while (eqRe.exec(markdown) !== null) {
-    highlights++
+  for (const mark of doc.marks) {
+    if (!mark.memoId) add(kindForColor(mark.color, kinds).type)
   }
+  return { fixes: byKind.fix ?? 0, questions: byKind.question ?? 0, highlights: byKind.highlight ?? 0, byKind }
+}
 
-  return { fixes, questions, highlights }
+/** "2 fix, 1 question, 0 highlight, 1 risk" — other kinds are listed when present */
+export function formatAnnotationCounts(counts: AnnotationCounts): string {
+  const others = Object.entries(counts.byKind)
+    .filter(([type, n]) => n > 0 && !['fix', 'question', 'highlight'].includes(type))
+    .map(([type, n]) => `${n} ${type}`)
+  return [`${counts.fixes} fix`, `${counts.questions} question`, `${counts.highlights} highlight`, ...others].join(', ')
 }
 
 // ─── Section detection ───
 
-/** Extract h2 headings that have annotations nearby */
+/** Extract h2 headings that contain a memo or highlight */
 export function getSectionsWithAnnotations(markdown: string): string[] {
-  const lines = markdown.split('\n')
+  const doc = parseAnnotations(markdown)
   const sections: string[] = []
-  let currentSection = ''
-
-  for (const line of lines) {
-    const h2Match = line.match(/^## (.+)/)
-    if (h2Match) {
-      currentSection = h2Match[1].trim()
-      continue
-    }
-
-    if (!currentSection) continue
-
-    // Check if this line has annotation markers
-    const hasAnnotation =
-      line.includes('<!-- USER_MEMO') ||
-      line.includes('<mark') ||
-      /(?<!`)==.+==(?!`)/.test(line)
-
-    if (hasAnnotation && !sections.includes(currentSection)) {
-      sections.push(currentSection)
-    }
+  const annotatedLines = [
+    ...doc.blocks.filter(b => b.type === 'memo').map(b => b.range.startLine),
+    ...doc.marks.map(m => m.range.startLine),
+  ].sort((a, b) => a - b)
+
+  for (const line of annotatedLines) {
+    const section = sectionAt(doc.headings, line)
+    if (section && !sections.includes(section)) sections.push(section)
   }
-
   return sections
 }
 
-/** Extract all h2 headings from markdown */
+/** Extract all h2 headings from markdown (headings inside code fences are not sections) */
 export function getAllSections(markdown: string): string[] {
-  const sections: string[] = []
-  for (const line of markdown.split('\n')) {
-    const m = line.match(/^## (.+)/)
-    if (m) sections.push(m[1].trim())
-  }
-  return sections
+  return parseAnnotations(markdown).headings.filter(h => h.level === 2).map(h => h.text)
 }
 
 // ─── Checkpoint creation ───
@@ -1,5 +1,6 @@
-import type { ReviewHighlight, ReviewMemo } from './types'
-import { HEX_TO_COLOR_NAME } from './types'
+import type { AnnotationKind, MemoPriority, MemoReply, MemoTarget, MemoV2, PlanStatus, ReviewHighlight, ReviewMemo } from './types'
+import { DEFAULT_ANNOTATION_KINDS, PLAN_STATUS_LABELS, kindForColor, priorityRank, matchesLabels } from './types'
+import { describeMemoTarget } from './memo-targets'
 
 export type TargetFormat =
   | 'claude-code' | 'cursor' | 'codex' | 'copilot' | 'cline'
@@ -20,26 +21,39 @@ export const TARGET_LABELS: Record<TargetFormat, { label: string; file: string;
   'handoff':     { label: 'Handoff', file: 'HANDOFF.md', desc: 'Session handoff document for AI coding agents' },
 }
 
-interface FeedbackItem {
-  type: 'fix' | 'question' | 'important'
+/** One exported memo or highlight; the MCP `export_review` builds these from the file (memoFeedbackItem) */
+export interface FeedbackItem {
+  type: string                  // annotation kind type: 'fix', 'question', 'highlight', 'risk', ...
   text: string
   section: string
   feedback: string
+  reply?: MemoReply
+  priority?: MemoPriority
+  labels?: string[]
+  target?: MemoTarget
+}
+
+/** Kinds other than fix/question/highlight, rendered as extra export sections */
+export interface KindGroup {
+  kind: AnnotationKind
+  items: FeedbackItem[]
 }
 
 function collectFeedback(
   highlights: ReviewHighlight[],
   docMemos: ReviewMemo[],
+  kinds: AnnotationKind[],
 ): FeedbackItem[] {
   const items: FeedbackItem[] = []
   const matchedHighlights = new Set<number>()
 
   for (const memo of docMemos) {
-    const cn = memo.color.startsWith('#') ? (HEX_TO_COLOR_NAME[memo.color] || 'red') : memo.color
-    const type = cn === 'red' ? 'fix' : cn === 'blue' ? 'question' : 'important'
+    const kind = kindForColor(memo.color, kinds)
+    const type = kind.type
 
-    const hlColor = cn === 'red' ? '#fca5a5' : cn === 'blue' ? '#93c5fd' : '#fef08a'
-    const hlIdx = highlights.findIndex((hl, idx) =>
+    const hlColor = kind.highlight
+    // Code-line memos have no highlight: their text is the targeted lines
+    const hlIdx = memo.target?.kind === 'code' ? -1 : highlights.findIndex((hl, idx) =>
       !matchedHighlights.has(idx) && hl.color === hlColor && memo.section.trim() === hl.section.trim(),
     )
 
@@ -50,6 +64,10 @@ function collectFeedback(
         text: highlights[hlIdx].text,
         section: memo.section || highlights[hlIdx].section || '',
         feedback: memo.text,
+        reply: memo.latestReply,
+        priority: memo.priority,
+        labels: memo.labels,
+        target: memo.target,
       })
     } else {
       items.push({
@@ -57,6 +75,10 @@ function collectFeedback(
         text: memo.context || '',
         section: memo.section || '',
         feedback: memo.text,
+        reply: memo.latestReply,
+        priority: memo.priority,
+        labels: memo.labels,
+        target: memo.target,
       })
     }
   }
@@ -64,8 +86,7 @@ function collectFeedback(
   for (let i = 0; i < highlights.length; i++) {
     if (matchedHighlights.has(i)) continue
     const hl = highlights[i]
-    const cn = HEX_TO_COLOR_NAME[hl.color] || 'yellow'
-    const type = cn === 'red' ? 'fix' : cn === 'blue' ? 'question' : 'important'
+    const type = kindForColor(hl.color, kinds).type
     items.push({
       type,
       text: hl.text,
@@ -77,10 +98,105 @@ function collectFeedback(
   return items
 }
 
+/** " (Setup)", or for code-line and cell memos " (in code block under Setup, lines 3–5)" */
+export function where(item: FeedbackItem, brackets = '()'): string {
+  const place = item.target ? describeMemoTarget(item.target, item.section) : item.section
+  return place ? ` ${brackets[0]}${place}${brackets[1]}` : ''
+}
+
 function trunc(s: string, len = 120): string {
   return s.length > len ? s.slice(0, len) + '...' : s
 }
 
+/**
+ * A feedback bullet. Multi-line memo text keeps its first line on the bullet and the
+ * rest indented beneath it, so lists and code fences stay inside the list item.
+ */
+export function bullet(head: string, feedback: string, tail = ''): string {
+  const [first, ...rest] = feedback.split('\n')
+  return [`${head}${first}${tail}`, ...rest.map(l => l.trim() ? '  ' + l : '')].join('\n')
+}
+
+/** Priority prefix for a feedback line, e.g. "[P0] " */
+export function priorityTag(item: { priority?: MemoPriority }): string {
+  return item.priority ? `[${item.priority}] ` : ''
+}
+
+/** Most severe first; document order is kept within the same priority */
+export function byPriority<T extends { priority?: MemoPriority }>(items: T[]): T[] {
+  return items
+    .map((item, idx) => ({ item, idx }))
+    .sort((a, b) => priorityRank(a.item.priority) - priorityRank(b.item.priority) || a.idx - b.idx)
+    .map(({ item }) => item)
+}
+
+/** Latest reply in a memo thread, rendered as an indented sub-bullet (later lines indented under it) */
+export function replyLine(item: FeedbackItem, indent = '  '): string | null {
+  if (!item.reply) return null
+  const [first, ...rest] = item.reply.text.split('\n')
+  return [
+    `${indent}- ↳ ${item.reply.author} (${item.reply.owner}): ${first}`,
+    ...rest.map(l => l.trim() ? `${indent}  ${l}` : ''),
+  ].join('\n')
+}
+
+/** One section per extra kind, e.g. "### Risks" */
+export function pushKindSections(L: string[], extras: KindGroup[], heading: (title: string) => string): void {
+  for (const { kind, items } of extras) {
+    L.push(heading(kind.exportSection))
+    for (const item of items) {
+      const place = where(item)
+      if (item.text && item.feedback) {
+        L.push(bullet(`- ${priorityTag(item)}"${trunc(item.text, 80)}"${place} — `, item.feedback))
+      } else if (item.feedback || item.text) {
+        L.push(bullet(`- ${priorityTag(item)}`, item.feedback || `"${trunc(item.text, 80)}"`, place))
+      }
+      const r = replyLine(item)
+      if (r) L.push(r)
+    }
+    L.push('')
+  }
+}
+
+/** Items of each extra kind that has an export section, most severe first */
+export function kindGroups(items: FeedbackItem[], kinds: AnnotationKind[]): KindGroup[] {
+  return kinds
+    .filter(k => !['fix', 'question', 'highlight'].includes(k.type) && k.exportSection)
+    .map(kind => ({ kind, items: byPriority(items.filter(i => i.type === kind.type)) }))
+    .filter(g => g.items.length > 0)
+}
+
+/** Feedback item for a memo read from the file, anchored under `section` */
+export function memoFeedbackItem(memo: MemoV2, section: string): FeedbackItem {
+  return {
+    type: memo.type,
+    text: memo.anchorText,
+    section,
+    feedback: memo.text,
+    reply: memo.replies[memo.replies.length - 1],
+    priority: memo.priority,
+    labels: memo.labels,
+    target: memo.target,
+  }
+}
+
+/** The plan's review state, phrased as an instruction for the agent reading the export */
+export function reviewStatusLine(status: PlanStatus): string {
+  const label = PLAN_STATUS_LABELS[status]
+  switch (status) {
+    case 'draft':
+    case 'in-review':
+    case 'changes-requested':
+      return `Review status: ${label} — not approved yet; do not start implementing.`
+    case 'approved':
+      return `Review status: ${label} — ready to implement.`
+    case 'implementing':
+      return `Review status: ${label} — implementation in progress.`
+    case 'done':
+      return `Review status: ${label} — implemented; no further work planned.`
+  }
+}
+
 function buildChecklist(sections: string[]): string {
   if (sections.length === 0) return ''
   return sections.map(s => `- [ ] ${s}`).join('\n')
@@ -90,26 +206,30 @@ function buildChecklist(sections: string[]): string {
 
 function generateClaudeCode(
   title: string, filePath: string, sections: string[],
-  fixes: FeedbackItem[], questions: FeedbackItem[], importants: FeedbackItem[],
+  fixes: FeedbackItem[], questions: FeedbackItem[], importants: FeedbackItem[], extras: KindGroup[],
+  status: PlanStatus | undefined,
 ): string {
   const L: string[] = []
   const fp = filePath || 'docs/plan.md'
 
   L.push(`## Active Plan Review: ${fp}`)
   L.push(`Follow this plan. Refer to ${fp} for details.`)
+  if (status) L.push(reviewStatusLine(status))
   L.push('')
 
   if (fixes.length > 0) {
     L.push('### Must Fix')
     for (const f of fixes) {
-      const where = f.section ? ` (${f.section})` : ''
+      const place = where(f)
       if (f.text && f.feedback) {
-        L.push(`- "${trunc(f.text, 120)}"${where} → ${f.feedback}`)
+        L.push(bullet(`- ${priorityTag(f)}"${trunc(f.text, 120)}"${place} → `, f.feedback))
       } else if (f.feedback) {
-        L.push(`- ${f.feedback}${where}`)
+        L.push(bullet(`- ${priorityTag(f)}`, f.feedback, place))
       } else if (f.text) {
-        L.push(`- Fix: "${trunc(f.text, 80)}"${where}`)
+        L.push(`- ${priorityTag(f)}Fix: "${trunc(f.text, 80)}"${place}`)
       }
+      const r = replyLine(f)
+      if (r) L.push(r)
     }
     L.push('')
   }
@@ -117,23 +237,27 @@ function generateClaudeCode(
   if (questions.length > 0) {
     L.push('### Open Questions (resolve before implementing)')
     for (const q of questions) {
-      const where = q.section ? ` (${q.section})` : ''
+      const place = where(q)
       if (q.text && q.feedback) {
-        L.push(`- "${trunc(q.text, 120)}"${where} — ${q.feedback}`)
+        L.push(bullet(`- ${priorityTag(q)}"${trunc(q.text, 120)}"${place} — `, q.feedback))
       } else if (q.feedback) {
-        L.push(`- ${q.feedback}${where}`)
+        L.push(bullet(`- ${priorityTag(q)}`, q.feedback, place))
       } else if (q.text) {
-        L.push(`- Question about: "${trunc(q.text, 80)}"${where}`)
+        L.push(`- ${priorityTag(q)}Question about: "${trunc(q.text, 80)}"${place}`)
       }
+      const r = replyLine(q)
+      if (r) L.push(r)
     }
     L.push('')
   }
 
+  pushKindSections(L, extras, title => `### ${title}`)
+
   if (importants.length > 0) {
     L.push('### Key Points (preserve these)')
     for (const imp of importants) {
-      if (imp.text) L.push(`- "${trunc(imp.text, 80)}"${imp.section ? ` (${imp.section})` : ''}`)
-      if (imp.feedback) L.push(`- ${imp.feedback}`)
+      if (imp.text) L.push(`- "${trunc(imp.text, 80)}"${where(imp)}`)
+      if (imp.feedback) L.push(bullet('- ', imp.feedback))
     }
     L.push('')
   }
@@ -153,7 +277,8 @@ function generateClaudeCode(
 
 function generateCursor(
   title: string, filePath: string, sections: string[],
-  fixes: FeedbackItem[], questions: FeedbackItem[], importants: FeedbackItem[],
+  fixes: FeedbackItem[], questions: FeedbackItem[], importants: FeedbackItem[], extras: KindGroup[],
+  status: PlanStatus | undefined,
 ): string {
   const L: string[] = []
   const fp = filePath || 'docs/plan.md'
@@ -164,16 +289,19 @@ function generateCursor(
   L.push('---')
   L.push('')
   L.push(`Follow the plan at ${fp} strictly.`)
+  if (status) L.push(reviewStatusLine(status))
   L.push('')
 
   if (fixes.length > 0) {
     L.push('Required changes:')
     for (const f of fixes) {
       if (f.text && f.feedback) {
-        L.push(`- "${trunc(f.text, 50)}" → ${f.feedback}`)
+        L.push(bullet(`- ${priorityTag(f)}"${trunc(f.text, 50)}" → `, f.feedback))
       } else if (f.feedback) {
-        L.push(`- ${f.feedback}`)
+        L.push(bullet(`- ${priorityTag(f)}`, f.feedback))
       }
+      const r = replyLine(f)
+      if (r) L.push(r)
     }
     L.push('')
   }
@@ -181,11 +309,15 @@ function generateCursor(
   if (questions.length > 0) {
     L.push('Open questions (resolve before coding):')
     for (const q of questions) {
-      L.push(`- ${q.feedback || trunc(q.text, 80)}`)
+      L.push(bullet(`- ${priorityTag(q)}`, q.feedback || trunc(q.text, 80)))
+      const r = replyLine(q)
+      if (r) L.push(r)
     }
     L.push('')
   }
 
+  pushKindSections(L, extras, title => `${title}:`)
+
   if (sections.length > 0) {
     L.push('Checklist:')
     for (const s of sections) { L.push(`- [ ] ${s}`) }
@@ -201,7 +333,8 @@ function generateCursor(
 
 function generateGeneric(
   title: string, filePath: string, sections: string[],
-  fixes: FeedbackItem[], questions: FeedbackItem[], importants: FeedbackItem[],
+  fixes: FeedbackItem[], questions: FeedbackItem[], importants: FeedbackItem[], extras: KindGroup[],
+  status: PlanStatus | undefined,
 ): string {
   const L: string[] = []
   const fp = filePath || 'docs/plan.md'
@@ -211,19 +344,22 @@ function generateGeneric(
   L.push('')
   L.push(`**Source:** \`${fp}\``)
   L.push(`**Reviewed:** ${new Date().toISOString().split('T')[0]}`)
+  if (status) L.push(`**Status:** ${PLAN_STATUS_LABELS[status]}`)
   L.push('')
 
   if (fixes.length > 0) {
     L.push('## Must Fix')
     for (const f of fixes) {
-      const where = f.section ? ` [${f.section}]` : ''
+      const place = where(f, '[]')
       if (f.text && f.feedback) {
-        L.push(`- "${trunc(f.text, 120)}"${where} → ${f.feedback}`)
+        L.push(bullet(`- ${priorityTag(f)}"${trunc(f.text, 120)}"${place} → `, f.feedback))
       } else if (f.feedback) {
-        L.push(`- ${f.feedback}${where}`)
+        L.push(bullet(`- ${priorityTag(f)}`, f.feedback, place))
       } else if (f.text) {
-        L.push(`- "${trunc(f.text, 80)}"${where}`)
+        L.push(`- ${priorityTag(f)}"${trunc(f.text, 80)}"${place}`)
       }
+      const r = replyLine(f)
+      if (r) L.push(r)
     }
     L.push('')
   }
@@ -231,21 +367,25 @@ function generateGeneric(
   if (questions.length > 0) {
     L.push('## Questions')
     for (const q of questions) {
-      const where = q.section ? ` [${q.section}]` : ''
+      const place = where(q, '[]')
       if (q.text && q.feedback) {
-        L.push(`- "${trunc(q.text, 120)}"${where} — ${q.feedback}`)
+        L.push(bullet(`- ${priorityTag(q)}"${trunc(q.text, 120)}"${place} — `, q.feedback))
       } else if (q.feedback) {
-        L.push(`- ${q.feedback}${where}`)
+        L.push(bullet(`- ${priorityTag(q)}`, q.feedback, place))
       }
+      const r = replyLine(q)
+      if (r) L.push(r)
     }
     L.push('')
   }
 
+  pushKindSections(L, extras, title => `## ${title}`)
+
   if (importants.length > 0) {
     L.push('## Key Points')
     for (const imp of importants) {
       if (imp.text) L.push(`- "${trunc(imp.text, 80)}"`)
-      if (imp.feedback) L.push(`- ${imp.feedback}`)
+      if (imp.feedback) L.push(bullet('- ', imp.feedback))
     }
     L.push('')
   }
@@ -271,16 +411,24 @@ export function generateContext(
   highlights: ReviewHighlight[],
   docMemos: ReviewMemo[],
   target: TargetFormat,
+  labels?: string[],
+  kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS,
+  status?: PlanStatus,
 ): string {
-  const items = collectFeedback(highlights, docMemos)
+  // Label-scoped export: keep only memo items carrying one of the labels (bare highlights have none)
+  // Kinds with an empty exportSection are never exported
+  const items = collectFeedback(highlights, docMemos, kinds)
+    .filter(i => !labels || labels.length === 0 || (i.labels != null && matchesLabels(i.labels, labels)))
+    .filter(i => kinds.find(k => k.type === i.type)?.exportSection !== '')
 
   if (items.length === 0 && sections.length === 0) {
     return `## No annotations found\n\nHighlight text and add feedback before exporting.\n`
   }
 
-  const fixes = items.filter(i => i.type === 'fix')
-  const questions = items.filter(i => i.type === 'question')
-  const importants = items.filter(i => i.type === 'important')
+  const fixes = byPriority(items.filter(i => i.type === 'fix'))
+  const questions = byPriority(items.filter(i => i.type === 'question'))
+  const importants = items.filter(i => i.type === 'highlight')
+  const extras = kindGroups(items, kinds)
 
   switch (target) {
     case 'claude-code':
@@ -291,11 +439,11 @@ export function generateContext(
     case 'roo-code':
     case 'gemini':
     case 'antigravity':
-      return generateClaudeCode(title, filePath, sections, fixes, questions, importants)
+      return generateClaudeCode(title, filePath, sections, fixes, questions, importants, extras, status)
     case 'cursor':
-      return generateCursor(title, filePath, sections, fixes, questions, importants)
+      return generateCursor(title, filePath, sections, fixes, questions, importants, extras, status)
     case 'generic':
-      return generateGeneric(title, filePath, sections, fixes, questions, importants)
+      return generateGeneric(title, filePath, sections, fixes, questions, importants, extras, status)
     case 'handoff':
       // Handoff is generated via handoff-generator.ts, not here
       return '(Use Export > Handoff to generate handoff document)'
@@ -1,14 +1,23 @@
 /**
  * Document Writer — Split/Merge pipeline for annotated markdown
  *
- * splitDocument(): parse annotated markdown into structured DocumentParts
+ * splitDocument(): parse annotated markdown into structured DocumentParts (via parseAnnotations)
  * mergeDocument(): reassemble DocumentParts back into markdown
+ * writeGates(): replace only the GATE blocks of annotated markdown
+ * toggleTask(): check or uncheck a task-list item in the body
  *
- * Preserves: frontmatter, memos (v0.3 + v0.4), checkpoints, gates, cursor, unknown comments
+ * Preserves: frontmatter, memos (v0.3 + v0.4), checkpoints, gates, cursor, and other
+ * tools' HTML comments (kept in the body; restored next to their anchor line if dropped)
+ * Re-anchors memos against the body on both sides; unresolvable memos are flagged `orphaned`
+ * Memos are never written inside a code fence or table; code-line and cell memos go
+ * after the block and keep pointing at their lines (see memo-targets.ts)
  */
 
-import type { DocumentParts, MemoV2, Gate, PlanCursor, Checkpoint, MemoColor } from './types'
-import { colorToType } from './types'
+import type { DocumentParts, MemoV2, MemoTarget, Gate, PlanCursor, Checkpoint, TextAnchor } from './types'
+import { parseAnnotations, escapeMemoBodyLine, TASK_RE, type BlockNode } from './annotation-parser'
+import { captureUnknownComments, restoreUnknownComments } from './unknown-comments'
+import { createTextAnchor, findExactQuote, findFuzzyQuote, type QuoteMatch } from './anchor-matcher'
+import { findBodyBlocks, blockAt, splitTableRow, targetAt, targetLines, targetText } from './memo-targets'
 
 // ─── Hash utility (simple djb2, no crypto needed) ───
 
@@ -20,230 +29,68 @@ function hashLine(line: string): string {
   return hash.toString(16).padStart(8, '0').slice(0, 8)
 }
 
-// ─── Regex patterns ───
-
-// v0.3 single-line: <!-- USER_MEMO id="abc" color="red" status="done" : text -->
-const MEMO_V3_RE = /^<!-- USER_MEMO\s+id="([^"]+)"(?:\s+color="([^"]+)")?(?:\s+status="([^"]+)")?\s*:\s*(.*?)\s*-->$/
-
-// v0.4 multi-line: <!-- USER_MEMO\n  id="abc"\n  type="fix"\n  ...  \n-->
-const MEMO_V4_START_RE = /^<!-- USER_MEMO\s*$/
-const MEMO_V4_END_RE = /^-->$/
-
-// Gate: <!-- GATE\n  id="gate-1"\n  ...  \n-->
-const GATE_START_RE = /^<!-- GATE\s*$/
-const GATE_END_RE = /^-->$/
-
-// Cursor: <!-- PLAN_CURSOR\n  ...  \n-->
-const CURSOR_START_RE = /^<!-- PLAN_CURSOR\s*$/
-const CURSOR_END_RE = /^-->$/
-
-// Checkpoint: <!-- CHECKPOINT id="..." ... -->
-const CHECKPOINT_RE = /^<!-- CHECKPOINT\s+id="([^"]+)"\s+time="([^"]+)"\s+note="([^"]*)"\s+fixes=(\d+)\s+questions=(\d+)\s+highlights=(\d+)\s+sections="([^"]*)" -->$/
-
-// Frontmatter: --- ... ---
-const FRONTMATTER_RE = /^---\s*\n([\s\S]*?)\n---\s*\n/
-
-// Legacy memo blocks
-const LEGACY_MEMO_START_RE = /^<!-- @memo\s+id="([^"]+)"(?:\s+color="([^"]+)")?(?:\s+date="([^"]+)")?\s*-->$/
-const LEGACY_MEMO_END_RE = /^<!-- @\/memo -->$/
-
-// MD Feedback banner comment
-const BANNER_START_RE = /^<!--$/
-const BANNER_CONTENT_RE = /MD Feedback/
-
-// Feedback notes wrapper
-const FEEDBACK_NOTES_RE = /^<!-- \/?(USER_FEEDBACK_NOTES|@\/?feedback-notes)\b.*-->$/
-
-/** Parse attribute key="value" pairs from multi-line comment body */
-function parseAttrs(lines: string[]): Record<string, string> {
-  const attrs: Record<string, string> = {}
-  for (const line of lines) {
-    const m = line.trim().match(/^(\w+)="([^"]*)"$/)
-    if (m) attrs[m[1]] = m[2]
-  }
-  return attrs
-}
-
 // ─── splitDocument ───
 
 export function splitDocument(markdown: string): DocumentParts {
-  let frontmatter = ''
-  let body = markdown
-
-  // Extract frontmatter
-  const fmMatch = body.match(FRONTMATTER_RE)
-  if (fmMatch) {
-    frontmatter = fmMatch[0]
-    body = body.slice(fmMatch[0].length)
-  }
-
-  const lines = body.split('\n')
+  const doc = parseAnnotations(markdown)
+  const lines = doc.lines
   const bodyLines: string[] = []
   const memos: MemoV2[] = []
   const checkpoints: Checkpoint[] = []
   const gates: Gate[] = []
-  const unknownComments: string[] = []
   let cursor: PlanCursor | null = null
 
-  let i = 0
-  while (i < lines.length) {
-    const line = lines[i]
-    const trimmed = line.trim()
-
-    // ── v0.3 single-line memo ──
-    const v3Match = trimmed.match(MEMO_V3_RE)
-    if (v3Match) {
-      const anchorText = findAnchorAbove(bodyLines)
-      const anchorLine = findAnchorLineIdx(bodyLines)
-      const memoColor = (v3Match[2] || 'red') as MemoColor
-      const memoStatus = (v3Match[3] as MemoV2['status']) || 'open'
-      memos.push({
-        id: v3Match[1],
-        type: colorToType(memoColor),
-        status: memoStatus,
-        owner: 'human',
-        source: 'generic',
-        color: memoColor,
-        text: v3Match[4].replace(/--\u200B>/g, '-->'),
-        anchorText: anchorText || '',
-        anchor: anchorLine >= 0 ? `L${anchorLine + 1}|${hashLine(bodyLines[anchorLine] || '')}` : '',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      })
-      i++
-      continue
-    }
-
-    // ── v0.4 multi-line memo ──
-    if (MEMO_V4_START_RE.test(trimmed)) {
-      const attrLines: string[] = []
-      i++
-      while (i < lines.length && !MEMO_V4_END_RE.test(lines[i].trim())) {
-        attrLines.push(lines[i])
-        i++
-      }
-      i++ // skip -->
-      const a = parseAttrs(attrLines)
-      const anchorText = a.anchorText || findAnchorAbove(bodyLines) || ''
-      memos.push({
-        id: a.id || `memo_${Date.now()}`,
-        type: (a.type as MemoV2['type']) || colorToType((a.color || 'red') as MemoColor),
-        status: (a.status as MemoV2['status']) || 'open',
-        owner: (a.owner as MemoV2['owner']) || 'human',
-        source: a.source || 'generic',
-        color: (a.color || 'red') as MemoColor,
-        text: a.text || '',
-        anchorText,
-        anchor: a.anchor || '',
-        createdAt: a.createdAt || new Date().toISOString(),
-        updatedAt: a.updatedAt || new Date().toISOString(),
-      })
-      continue
-    }
-
-    // ── Gate ──
-    if (GATE_START_RE.test(trimmed)) {
-      const attrLines: string[] = []
-      i++
-      while (i < lines.length && !GATE_END_RE.test(lines[i].trim())) {
-        attrLines.push(lines[i])
-        i++
-      }
-      i++ // skip -->
-      const a = parseAttrs(attrLines)
-      gates.push({
-        id: a.id || `gate_${Date.now()}`,
-        type: (a.type as Gate['type']) || 'custom',
-        status: (a.status as Gate['status']) || 'blocked',
-        blockedBy: a.blockedBy ? a.blockedBy.split(',').map(s => s.trim()).filter(Boolean) : [],
-        canProceedIf: a.canProceedIf || '',
-        doneDefinition: a.doneDefinition || '',
-      })
-      continue
-    }
-
-    // ── Plan Cursor ──
-    if (CURSOR_START_RE.test(trimmed)) {
-      const attrLines: string[] = []
-      i++
-      while (i < lines.length && !CURSOR_END_RE.test(lines[i].trim())) {
-        attrLines.push(lines[i])
-        i++
-      }
-      i++ // skip -->
-      const a = parseAttrs(attrLines)
-      cursor = {
-        taskId: a.taskId || '',
-        step: a.step || '',
-        nextAction: a.nextAction || '',
-        lastSeenHash: a.lastSeenHash || '',
-        updatedAt: a.updatedAt || new Date().toISOString(),
-      }
-      continue
-    }
+  // Memos without a stored character range get one from where they sit in the file
+  const pendingRanges: { memo: MemoV2; start: number }[] = []
+  const notePosition = (memo: MemoV2, lineIdx: number, fromCol = 0) => {
+    const quote = memo.anchorText.trim()
+    if (memo.range || !quote || lineIdx < 0) return
+    const col = bodyLines[lineIdx].indexOf(quote, fromCol)
+    if (col >= 0) pendingRanges.push({ memo, start: lineStartOffset(bodyLines, lineIdx) + col })
+  }
 
-    // ── Checkpoint ──
-    const cpMatch = trimmed.match(CHECKPOINT_RE)
-    if (cpMatch) {
-      checkpoints.push({
-        id: cpMatch[1],
-        timestamp: cpMatch[2],
-        note: cpMatch[3],
-        fixes: parseInt(cpMatch[4], 10),
-        questions: parseInt(cpMatch[5], 10),
-        highlights: parseInt(cpMatch[6], 10),
-        sectionsReviewed: cpMatch[7] ? cpMatch[7].split(',') : [],
-      })
+  const blockAt = new Map(doc.blocks.map(b => [b.range.startLine, b]))
+  let i = doc.frontmatter ? doc.frontmatter.range.endLine + 1 : 0
+  while (i < lines.length) {
+    const block = blockAt.get(i)
+    if (!block) {
+      bodyLines.push(lines[i])
       i++
       continue
     }
-
-    // ── Legacy memo blocks ──
-    const legacyMatch = trimmed.match(LEGACY_MEMO_START_RE)
-    if (legacyMatch) {
-      const memoLines: string[] = []
-      const anchorText = findAnchorAbove(bodyLines)
-      const anchorLine = findAnchorLineIdx(bodyLines)
-      i++
-      while (i < lines.length && !LEGACY_MEMO_END_RE.test(lines[i].trim())) {
-        memoLines.push(lines[i])
-        i++
+    i = block.range.endLine + 1
+
+    switch (block.type) {
+      case 'memo': {
+        // Anchor from position: the nearest non-empty body line above the memo
+        const memo = block.memo
+        const anchorLine = findAnchorLineIdx(bodyLines)
+        const targeted = memo.target && !memo.anchor ? locateTarget(bodyLines, anchorLine, memo.target) : null
+        if (targeted) {
+          // Code-line and cell memos sit after their block: anchor them on the lines they point at
+          if (!memo.anchorText) memo.anchorText = targeted.text
+          memo.anchor = formatAnchor(targeted.start, targeted.end, bodyLines)
+          memos.push(memo)
+          notePosition(memo, targeted.end, targeted.col)
+          break
+        }
+        if (!memo.anchorText) memo.anchorText = findAnchorAbove(bodyLines) || ''
+        if (!memo.anchor && anchorLine >= 0) memo.anchor = `L${anchorLine + 1}|${hashLine(bodyLines[anchorLine])}`
+        memos.push(memo)
+        notePosition(memo, anchorLine)
+        break
       }
-      i++ // skip <!-- @/memo -->
-      const text = memoLines
-        .map(l => l.replace(/^<!--\s*/, '').replace(/\s*-->$/, ''))
-        .join('\n').trim()
-      memos.push({
-        id: legacyMatch[1],
-        type: colorToType((legacyMatch[2] || 'red') as MemoColor),
-        status: 'open',
-        owner: 'human',
-        source: 'generic',
-        color: (legacyMatch[2] || 'red') as MemoColor,
-        text,
-        anchorText: anchorText || '',
-        anchor: anchorLine >= 0 ? `L${anchorLine + 1}|${hashLine(bodyLines[anchorLine] || '')}` : '',
-        createdAt: legacyMatch[3] || new Date().toISOString(),
-        updatedAt: legacyMatch[3] || new Date().toISOString(),
-      })
-      continue
-    }
-
-    // ── Banner comment (MD Feedback header) ──
-    if (BANNER_START_RE.test(trimmed) && i + 1 < lines.length && BANNER_CONTENT_RE.test(lines[i + 1])) {
-      while (i < lines.length && !lines[i].includes('-->')) i++
-      i++
-      continue
-    }
-
-    // ── Feedback notes wrapper ──
-    if (FEEDBACK_NOTES_RE.test(trimmed)) {
-      i++
-      continue
+      case 'gate':
+        gates.push(block.gate)
+        break
+      case 'cursor':
+        cursor = block.cursor
+        break
+      case 'checkpoint':
+        checkpoints.push(block.checkpoint)
+        break
+      // frontmatter is handled above; wrappers (banner, feedback notes) are dropped
     }
-
-    bodyLines.push(line)
-    i++
   }
 
   // Trim trailing empty lines from body
@@ -251,14 +98,19 @@ export function splitDocument(markdown: string): DocumentParts {
     bodyLines.pop()
   }
 
+  const body = bodyLines.join('\n')
+  for (const { memo, start } of pendingRanges) {
+    memo.range = createTextAnchor(body, start, start + memo.anchorText.trim().length)
+  }
+
   return {
-    frontmatter,
-    body: bodyLines.join('\n'),
-    memos,
+    frontmatter: doc.frontmatter?.raw ?? '',
+    body,
+    memos: reanchorMemos(body, memos),
     checkpoints,
     gates,
     cursor,
-    unknownComments,
+    unknownComments: captureUnknownComments(body),
   }
 }
 
@@ -272,8 +124,9 @@ export function mergeDocument(parts: DocumentParts): string {
     sections.push(parts.frontmatter.trimEnd())
   }
 
-  // Body with memos re-inserted at anchor positions
-  const bodyWithMemos = reinsertMemos(parts.body, parts.memos)
+  // Body (with any dropped foreign comments put back) and memos re-inserted at anchor positions
+  const body = restoreUnknownComments(parts.body, parts.unknownComments)
+  const bodyWithMemos = reinsertMemos(body, parts.memos)
   sections.push(bodyWithMemos)
 
   // Gates
@@ -296,21 +149,55 @@ export function mergeDocument(parts: DocumentParts): string {
 
 // ─── Serializers ───
 
+/**
+ * Attribute value escaping for memo, gate and cursor blocks (reversed by unescAttr in
+ * annotation-parser). Free text may contain "-->", which would end the comment, or a
+ * newline, which would start a new attribute line. "&" is escaped first so text that
+ * already reads like an entity ("&gt;") survives the round trip.
+ */
+function escAttr(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/\n/g, '&#10;').replace(/>/g, '&gt;')
+}
+
+/**
+ * v0.4 memo block. Single-line text is a `text` attribute; multi-line text (paragraphs,
+ * lists, code fences) is written as "| " body lines after the attributes so it stays
+ * readable in the file.
+ */
 export function serializeMemoV2(memo: MemoV2): string {
-  const esc = (s: string) => s.replace(/"/g, '&quot;')
+  const multiline = memo.text.includes('\n')
   return [
     '<!-- USER_MEMO',
-    `  id="${esc(memo.id)}"`,
+    `  id="${escAttr(memo.id)}"`,
     `  type="${memo.type}"`,
     `  status="${memo.status}"`,
+    ...(memo.priority ? [`  priority="${memo.priority}"`] : []),
+    ...(memo.labels.length > 0 ? [`  labels="${escAttr(memo.labels.join(','))}"`] : []),
+    ...(memo.dependsOn.length > 0 ? [`  dependsOn="${escAttr(memo.dependsOn.join(','))}"`] : []),
     `  owner="${memo.owner}"`,
-    `  source="${esc(memo.source)}"`,
+    `  source="${escAttr(memo.source)}"`,
     `  color="${memo.color}"`,
-    `  text="${esc(memo.text)}"`,
-    `  anchorText="${esc(memo.anchorText)}"`,
-    `  anchor="${esc(memo.anchor)}"`,
+    ...(multiline ? [] : [`  text="${escAttr(memo.text)}"`]),
+    `  anchorText="${escAttr(memo.anchorText)}"`,
+    `  anchor="${escAttr(memo.anchor)}"`,
+    ...(memo.range ? [
+      `  range="${memo.range.start}:${memo.range.end}"`,
+      ...(memo.range.prefix ? [`  prefix="${escAttr(memo.range.prefix)}"`] : []),
+      ...(memo.range.suffix ? [`  suffix="${escAttr(memo.range.suffix)}"`] : []),
+    ] : []),
+    ...(memo.target?.kind === 'code' ? [`  code="${memo.target.startLine === memo.target.endLine ? memo.target.startLine : `${memo.target.startLine}-${memo.target.endLine}`}"`] : []),
+    ...(memo.target?.kind === 'cell' ? [`  cell="${memo.target.row}:${memo.target.col}"`] : []),
+    ...(memo.orphaned ? ['  orphaned="true"'] : []),
+    ...(memo.suggestion != null ? [`  suggestion="${escAttr(memo.suggestion)}"`] : []),
     `  createdAt="${memo.createdAt}"`,
     `  updatedAt="${memo.updatedAt}"`,
+    ...memo.replies.map(r =>
+      `  reply author="${escAttr(r.author)}" owner="${r.owner}" createdAt="${r.createdAt}" text="${escAttr(r.text)}"`,
+    ),
+    ...memo.history.map(h =>
+      `  history from="${h.from}" to="${h.to}" actor="${h.actor}" source="${escAttr(h.source)}" at="${h.at}"`,
+    ),
+    ...(multiline ? memo.text.split('\n').map(l => l ? `  | ${escapeMemoBodyLine(l)}` : '  |') : []),
     '-->',
   ].join('\n')
 }
@@ -318,24 +205,70 @@ export function serializeMemoV2(memo: MemoV2): string {
 export function serializeGate(gate: Gate): string {
   return [
     '<!-- GATE',
-    `  id="${gate.id}"`,
+    `  id="${escAttr(gate.id)}"`,
     `  type="${gate.type}"`,
     `  status="${gate.status}"`,
-    `  blockedBy="${gate.blockedBy.join(',')}"`,
-    `  canProceedIf="${gate.canProceedIf.replace(/"/g, '&quot;')}"`,
-    `  doneDefinition="${gate.doneDefinition.replace(/"/g, '&quot;')}"`,
+    `  blockedBy="${escAttr(gate.blockedBy.join(','))}"`,
+    ...(gate.dependsOn?.length ? [`  dependsOn="${escAttr(gate.dependsOn.join(','))}"`] : []),
+    ...(gate.minPriority ? [`  minPriority="${gate.minPriority}"`] : []),
+    ...(gate.scope ? [`  scope="${escAttr(gate.scope)}"`] : []),
+    `  canProceedIf="${escAttr(gate.canProceedIf)}"`,
+    `  doneDefinition="${escAttr(gate.doneDefinition)}"`,
+    ...(gate.requiredSignoffs ? [`  requiredSignoffs="${gate.requiredSignoffs}"`] : []),
+    ...(gate.signoffs ?? []).map(s =>
+      `  signoff name="${escAttr(s.name)}" email="${escAttr(s.email)}" at="${escAttr(s.at)}"`,
+    ),
     '-->',
   ].join('\n')
 }
 
+/**
+ * Rewrite a document's GATE blocks to `gates` (matched by id) and leave every
+ * other line alone: kept gates are re-serialized in place, missing ones are
+ * removed, and new ones are appended after the last gate (or at the end).
+ * `renamed` maps old ids to new ones, so a renamed gate keeps its place.
+ */
+export function writeGates(markdown: string, gates: Gate[], renamed: Record<string, string> = {}): string {
+  const doc = parseAnnotations(markdown)
+  const lines = [...doc.lines]
+  const blocks = doc.blocks.filter((b): b is Extract<BlockNode, { type: 'gate' }> => b.type === 'gate')
+  const byId = new Map(gates.map(g => [g.id, g]))
+  const idOf = (block: Extract<BlockNode, { type: 'gate' }>) => renamed[block.gate.id] ?? block.gate.id
+
+  // New gates first: they go below every existing block, so earlier line numbers stay valid
+  const added = gates.filter(g => !blocks.some(b => idOf(b) === g.id))
+  if (added.length > 0) {
+    let at = blocks.length > 0 ? blocks[blocks.length - 1].range.endLine + 1 : lines.length
+    while (at > 0 && lines[at - 1].trim() === '') at--
+    const section = added.flatMap(g => ['', ...serializeGate(g).split('\n')])
+    if (at === lines.length) section.push('')
+    lines.splice(at, 0, ...section)
+  }
+
+  const written = new Set<string>()
+  for (const block of [...blocks].reverse()) {
+    const { startLine, endLine } = block.range
+    const gate = byId.get(idOf(block))
+    if (gate && !written.has(gate.id)) {
+      written.add(gate.id)
+      lines.splice(startLine, endLine - startLine + 1, ...serializeGate(gate).split('\n'))
+      continue
+    }
+    // Removed: take one of the blank lines around it too
+    const blankAround = lines[endLine + 1]?.trim() === '' && (startLine === 0 || lines[startLine - 1].trim() === '')
+    lines.splice(startLine, endLine - startLine + 1 + (blankAround ? 1 : 0))
+  }
+  return lines.join('\n')
+}
+
 export function serializeCursor(cursor: PlanCursor): string {
   return [
     '<!-- PLAN_CURSOR',
-    `  taskId="${cursor.taskId}"`,
-    `  step="${cursor.step}"`,
-    `  nextAction="${cursor.nextAction.replace(/"/g, '&quot;')}"`,
-    `  lastSeenHash="${cursor.lastSeenHash}"`,
-    `  updatedAt="${cursor.updatedAt}"`,
+    `  taskId="${escAttr(cursor.taskId)}"`,
+    `  step="${escAttr(cursor.step)}"`,
+    `  nextAction="${escAttr(cursor.nextAction)}"`,
+    `  lastSeenHash="${escAttr(cursor.lastSeenHash)}"`,
+    `  updatedAt="${escAttr(cursor.updatedAt)}"`,
     '-->',
   ].join('\n')
 }
@@ -352,19 +285,22 @@ function reinsertMemos(body: string, memos: MemoV2[]): string {
   if (memos.length === 0) return body
 
   const lines = body.split('\n')
+  const blocks = findBodyBlocks(lines)
 
   // Build insertion map: lineIndex -> memos to insert after that line
   const insertionMap = new Map<number, MemoV2[]>()
-  const unanchored: MemoV2[] = []
-
-  for (const memo of memos) {
-    const lineIdx = findMemoAnchorLine(lines, memo)
-    if (lineIdx >= 0) {
-      const existing = insertionMap.get(lineIdx) || []
+  const orphans: MemoV2[] = []
+
+  for (const memo of reanchorMemos(body, memos)) {
+    const range = memo.orphaned ? null : parseAnchorRange(memo.anchor)
+    if (range) {
+      // Never inside a code fence (it would read as code) or a table (it would end it)
+      const after = blockAt(blocks, range.end)?.endLine ?? range.end
+      const existing = insertionMap.get(after) || []
       existing.push(memo)
-      insertionMap.set(lineIdx, existing)
+      insertionMap.set(after, existing)
     } else {
-      unanchored.push(memo)
+      orphans.push(memo)
     }
   }
 
@@ -380,48 +316,92 @@ function reinsertMemos(body: string, memos: MemoV2[]): string {
     }
   }
 
-  // Append unanchored memos at the end
-  for (const m of unanchored) {
+  // Orphaned memos go at the end, flagged so the panel can offer re-attachment
+  for (const m of orphans) {
     result.push(serializeMemoV2(m))
   }
 
   return result.join('\n')
 }
 
-/** Find the best line index for a memo based on its anchor */
-function findMemoAnchorLine(lines: string[], memo: MemoV2): number {
-  // Try anchor hash first: "L42|a3f8c2d1" or "L42:L45|a3f8c2d1"
-  if (memo.anchor) {
-    const anchorMatch = memo.anchor.match(/^L(\d+)(?::L\d+)?\|(.+)$/)
-    if (anchorMatch) {
-      const lineNum = parseInt(anchorMatch[1], 10) - 1 // 0-indexed
-      const expectedHash = anchorMatch[2]
-
-      // Exact line match
-      if (lineNum >= 0 && lineNum < lines.length && hashLine(lines[lineNum]) === expectedHash) {
-        return lineNum
-      }
-
-      // Search nearby (within 10 lines) for the hash
-      for (let delta = 1; delta <= 10; delta++) {
-        for (const d of [lineNum - delta, lineNum + delta]) {
-          if (d >= 0 && d < lines.length && hashLine(lines[d]) === expectedHash) {
-            return d
-          }
-        }
-      }
+/**
+ * Re-resolve every memo anchor against the body. Resolved memos get a fresh
+ * line anchor and character range (and the reworded text, for fuzzy matches);
+ * memos that cannot be found anywhere are flagged `orphaned`.
+ */
+export function reanchorMemos(body: string, memos: MemoV2[]): MemoV2[] {
+  const lines = body.split('\n')
+  return memos.map(memo => {
+    const loc = locateMemo(body, lines, memo)
+    if (!loc) return memo.orphaned ? memo : { ...memo, orphaned: true }
+
+    const old = parseAnchorRange(memo.anchor)
+    const span = old ? old.end - old.start : 0
+    let start = loc.line - span
+    if (loc.match) start = Math.min(start, lineAt(body, loc.match.start))
+    const next: MemoV2 = { ...memo, anchor: formatAnchor(Math.max(0, start), loc.line, lines) }
+    if (loc.match) {
+      next.range = createTextAnchor(body, loc.match.start, loc.match.end)
+      if (loc.match.errors > 0) next.anchorText = body.slice(loc.match.start, loc.match.end)
+    }
+    if (memo.target) {
+      // The targeted lines may have moved within (or out of) their block
+      const col = loc.match ? loc.match.start - lineStartOffset(lines, loc.line) : undefined
+      const target = targetAt(lines, Math.max(0, start), loc.line, col)
+      if (target?.kind === 'cell' && col === undefined && memo.target.kind === 'cell') target.col = memo.target.col
+      if (target) next.target = target
+      else delete next.target
     }
+    delete next.orphaned
+    return next
+  })
+}
+
+/** Last anchored line (0-indexed) of a memo, plus the character match of its anchorText if known */
+interface MemoLocation {
+  line: number
+  match: QuoteMatch | null
+}
+
+/**
+ * Find a memo's anchor in the body, most precise first:
+ * stored character range → line hash at the anchored line → best exact
+ * occurrence of anchorText → line hash within 10 lines → fuzzy anchorText.
+ */
+function locateMemo(body: string, lines: string[], memo: MemoV2): MemoLocation | null {
+  const quote = memo.anchorText.trim()
+  const range = parseAnchorRange(memo.anchor)
+  const near = range ? lineStartOffset(lines, Math.min(range.end, lines.length)) : 0
+  const lineMatch = (line: number): MemoLocation => {
+    const col = quote ? lines[line].indexOf(quote) : -1
+    if (col < 0) return { line, match: null }
+    const start = lineStartOffset(lines, line) + col
+    return { line, match: { start, end: start + quote.length, errors: 0 } }
+  }
+
+  if (memo.range && quote && body.slice(memo.range.start, memo.range.end) === quote) {
+    return { line: lineAt(body, Math.max(memo.range.start, memo.range.end - 1)), match: { start: memo.range.start, end: memo.range.end, errors: 0 } }
   }
 
-  // Fallback: search by anchorText content match
-  if (memo.anchorText) {
-    const needle = memo.anchorText.trim()
-    for (let i = 0; i < lines.length; i++) {
-      if (lines[i].includes(needle)) return i
+  // For a range the hash belongs to the last line, and the memo goes after it
+  const hashAt = (line: number) => line >= 0 && line < lines.length && hashLine(lines[line]) === range?.hash
+  if (range && hashAt(range.end)) return lineMatch(range.end)
+
+  const exact = findExactQuote(body, quote, memo.range, near)
+  if (exact) return { line: lineAt(body, Math.max(exact.start, exact.end - 1)), match: exact }
+
+  if (range) {
+    for (let delta = 1; delta <= 10; delta++) {
+      for (const d of [range.end - delta, range.end + delta]) {
+        if (hashAt(d)) return lineMatch(d)
+      }
     }
   }
 
-  return -1
+  const fuzzy = findFuzzyQuote(body, quote, memo.range, near)
+  if (fuzzy) return { line: lineAt(body, Math.max(fuzzy.start, fuzzy.end - 1)), match: fuzzy }
+
+  return null
 }
 
 // ─── Helper utilities ───
@@ -434,6 +414,35 @@ function findAnchorAbove(bodyLines: string[]): string | null {
   return null
 }
 
+/** Body offset of the first character of line `idx` */
+function lineStartOffset(lines: string[], idx: number): number {
+  let offset = 0
+  for (let i = 0; i < idx && i < lines.length; i++) offset += lines[i].length + 1
+  return offset
+}
+
+/** 0-indexed line containing a body offset */
+function lineAt(body: string, offset: number): number {
+  let line = 0
+  for (let i = 0; i < offset && i < body.length; i++) {
+    if (body.charCodeAt(i) === 10) line++
+  }
+  return line
+}
+
+/** Source lines, anchor text and cell column of a target in the code block or table ending at `blockEnd` */
+function locateTarget(
+  bodyLines: string[],
+  blockEnd: number,
+  target: MemoTarget,
+): { start: number; end: number; text: string; col: number } | null {
+  const block = findBodyBlocks(bodyLines).find(b => b.endLine === blockEnd)
+  const at = block ? targetLines(block, target) : null
+  if (!block || !at) return null
+  const col = target.kind === 'cell' ? splitTableRow(bodyLines[at.end])[target.col - 1]?.start ?? 0 : 0
+  return { ...at, text: targetText(bodyLines, block, target), col }
+}
+
 /** Find the nearest non-empty line index above bodyLines */
 function findAnchorLineIdx(bodyLines: string[]): number {
   for (let j = bodyLines.length - 1; j >= 0; j--) {
@@ -442,6 +451,201 @@ function findAnchorLineIdx(bodyLines: string[]): number {
   return -1
 }
 
+// ─── Anchor resolution (for memos created outside the editor) ───
+
+export interface AnchorSpec {
+  anchorText?: string           // exact text on the anchored line
+  heading?: string              // heading title (without #)
+  occurrence?: number           // 0-based match index for anchorText / heading
+  startLine?: number            // 1-based body line range (blank lines at either end are dropped)
+  endLine?: number
+}
+
+/**
+ * Resolve an anchor spec against the document body.
+ * Returns the memo `anchor` ("L12|hash" or "L12:L15|hash"), `anchorText`, and the
+ * character `range` of anchorText on its line, or null if nothing matches.
+ */
+export function resolveAnchor(body: string, spec: AnchorSpec): { anchor: string; anchorText: string; range?: TextAnchor } | null {
+  const lines = body.split('\n')
+  const nth = spec.occurrence ?? 0
+  const rangeOn = (line: number, anchorText: string): { range?: TextAnchor } => {
+    const quote = anchorText.trim()
+    const col = quote ? lines[line].indexOf(quote) : -1
+    if (col < 0) return {}
+    const start = lineStartOffset(lines, line) + col
+    return { range: createTextAnchor(body, start, start + quote.length) }
+  }
+
+  if (spec.startLine != null) {
+    let start = spec.startLine
+    let end = spec.endLine ?? start
+    if (start < 1 || end < start || end > lines.length) return null
+    // The anchor hashes its last line: blank edges would anchor to an empty line
+    while (start <= end && !lines[start - 1].trim()) start++
+    while (end >= start && !lines[end - 1].trim()) end--
+    if (start > end) return null
+    const range = start === end ? `L${start}` : `L${start}:L${end}`
+    const anchorText = lines[end - 1].trim()
+    return { anchor: `${range}|${hashLine(lines[end - 1])}`, anchorText, ...rangeOn(end - 1, anchorText) }
+  }
+
+  // Fence-aware: a "# comment" inside a code block is not a heading
+  const headingLines = spec.heading != null
+    ? new Set(parseAnnotations(body).headings
+      .filter(h => h.text.toLowerCase() === spec.heading!.trim().toLowerCase())
+      .map(h => h.range.startLine))
+    : null
+  let seen = 0
+  for (let i = 0; i < lines.length; i++) {
+    const hit = headingLines ? headingLines.has(i) : !!spec.anchorText && lines[i].includes(spec.anchorText)
+    if (!hit) continue
+    if (seen === nth) {
+      const anchorText = spec.anchorText ?? lines[i].trim()
+      return {
+        anchor: `L${i + 1}|${hashLine(lines[i])}`,
+        anchorText,
+        ...rangeOn(i, anchorText),
+      }
+    }
+    seen++
+  }
+  return null
+}
+
+// ─── Suggestions ───
+
+/** Parse "L42|hash" / "L42:L45|hash" into 0-based start/end line indices */
+function parseAnchorRange(anchor: string): { start: number; end: number; hash: string } | null {
+  const m = anchor.match(/^L(\d+)(?::L(\d+))?\|(.+)$/)
+  if (!m) return null
+  const start = parseInt(m[1], 10) - 1
+  return { start, end: m[2] ? parseInt(m[2], 10) - 1 : start, hash: m[3] }
+}
+
+function formatAnchor(start: number, end: number, lines: string[]): string {
+  return `${formatRange(start, end)}|${hashLine(lines[end] || '')}`
+}
+
+function formatRange(start: number, end: number): string {
+  return start === end ? `L${start + 1}` : `L${start + 1}:L${end + 1}`
+}
+
+/**
+ * Replace a suggestion memo's anchorText with its suggestion in the body.
+ * The anchored line range is searched first, then the whole body.
+ * Returns the rewritten body and memos with anchors re-hashed / line-shifted
+ * so they still resolve, or null if the memo has no suggestion or its text is gone.
+ */
+export function applySuggestion(
+  body: string,
+  memos: MemoV2[],
+  memoId: string,
+): { body: string; memos: MemoV2[] } | null {
+  const memo = memos.find(m => m.id === memoId)
+  if (!memo || memo.suggestion == null || !memo.anchorText) return null
+
+  const lines = body.split('\n')
+  const lineOffset = (idx: number) => lines.slice(0, idx).reduce((n, l) => n + l.length + 1, 0)
+
+  // Locate anchorText, preferring the anchored range (relocated by hash if lines moved)
+  let range = parseAnchorRange(memo.anchor)
+  if (range) {
+    const endIdx = locateMemo(body, lines, memo)?.line ?? -1
+    range = endIdx >= 0
+      ? { ...range, start: Math.max(0, endIdx - (range.end - range.start)), end: endIdx }
+      : null
+  }
+  let from = -1
+  if (range) {
+    const idx = lines.slice(range.start, range.end + 1).join('\n').indexOf(memo.anchorText)
+    if (idx >= 0) from = lineOffset(range.start) + idx
+  }
+  if (from < 0) from = body.indexOf(memo.anchorText)
+  if (from < 0) return null
+  const to = from + memo.anchorText.length
+
+  const newBody = body.slice(0, from) + memo.suggestion + body.slice(to)
+  const newLines = newBody.split('\n')
+  const firstLine = body.slice(0, from).split('\n').length - 1
+  const lastLine = body.slice(0, to).split('\n').length - 1
+  const delta = memo.suggestion.split('\n').length - memo.anchorText.split('\n').length
+  const charDelta = memo.suggestion.length - memo.anchorText.length
+
+  // Map an old line index into the rewritten body
+  const mapLine = (idx: number) => {
+    if (idx < firstLine) return idx
+    if (idx > lastLine) return idx + delta
+    return Math.min(idx, lastLine + delta)
+  }
+
+  const updated = memos.map(m => {
+    if (m.id === memo.id) {
+      const start = range ? Math.min(range.start, firstLine) : firstLine
+      const end = Math.max(range ? mapLine(range.end) : 0, lastLine + delta)
+      const lastSuggestedLine = memo.suggestion!.split('\n').pop()!.trim()
+      const at = lastSuggestedLine ? newBody.indexOf(lastSuggestedLine, from) : -1
+      return {
+        ...m,
+        anchor: formatAnchor(start, end, newLines),
+        anchorText: lastSuggestedLine || m.anchorText,
+        range: at >= 0 ? createTextAnchor(newBody, at, at + lastSuggestedLine.length) : undefined,
+      }
+    }
+    // Character ranges after the replacement shift with it; overlapping ones re-anchor on merge
+    const moved = m.range && m.range.start >= to
+      ? { ...m, range: { ...m.range, start: m.range.start + charDelta, end: m.range.end + charDelta } }
+      : m
+    const r = parseAnchorRange(m.anchor)
+    if (!r || r.end < firstLine || (r.end > lastLine && delta === 0)) return moved
+    if (r.end > lastLine) {
+      // Untouched line, just moved: keep its hash
+      return { ...moved, anchor: `${formatRange(mapLine(r.start), mapLine(r.end))}|${r.hash}` }
+    }
+    return { ...moved, anchor: formatAnchor(mapLine(r.start), mapLine(r.end), newLines) }
+  })
+
+  return { body: newBody, memos: updated }
+}
+
+// ─── Tasks ───
+
+/**
+ * Check or uncheck the task-list item on a body line (0-based). Memos anchored on
+ * that line are re-hashed so they still resolve. Returns null if the line is not
+ * a task item (or sits in a code fence).
+ */
+export function toggleTask(
+  body: string,
+  memos: MemoV2[],
+  line: number,
+  checked: boolean,
+): { body: string; memos: MemoV2[] } | null {
+  const doc = parseAnnotations(body)
+  const task = doc.tasks.find(t => t.range.startLine === line)
+  if (!task) return null
+  if (task.checked === checked) return { body, memos }
+
+  const lines = [...doc.lines]
+  const m = lines[line].match(TASK_RE)!
+  lines[line] = `${m[1]}${checked ? 'x' : ' '}${m[3]}${m[4]}`
+  const updated = memos.map(memo => {
+    const r = parseAnchorRange(memo.anchor)
+    return r && r.end === line ? { ...memo, anchor: formatAnchor(r.start, r.end, lines) } : memo
+  })
+  return { body: lines.join('\n'), memos: updated }
+}
+
+/** Random memo ID (8 chars, same shape as the editor's nanoid(8)) */
+export function generateMemoId(): string {
+  const alphabet = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz_-'
+  let id = ''
+  for (let i = 0; i < 8; i++) {
+    id += alphabet[Math.floor(Math.random() * alphabet.length)]
+  }
+  return id
+}
+
 /** Generate body hash (djb2, 8 hex chars) for Plan Cursor */
 export function generateBodyHash(body: string): string {
   return hashLine(body)
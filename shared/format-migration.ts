@@ -0,0 +1,69 @@
+/**
+ * Format Migration — upgrade legacy and v0.3 annotations to v0.4
+ *
+ * migrateAnnotations(): rewrite `<!-- @memo -->` blocks and single-line
+ * `<!-- USER_MEMO id="..." : text -->` comments as v0.4 multi-line blocks,
+ * in place, leaving every other line of the file untouched.
+ *
+ * Owner, source and timestamps take the parser's defaults (human / generic / now,
+ * or the legacy block's date); anchors and character ranges are derived from
+ * where the memo sits, exactly as splitDocument() would.
+ */
+
+import type { MemoV2 } from './types'
+import { parseAnnotations } from './annotation-parser'
+import { splitDocument, serializeMemoV2 } from './document-writer'
+
+export interface MigrationChange {
+  memoId: string
+  from: 'v3' | 'legacy' | 'wrapper'
+  line: number                  // 1-based line of the original block
+  before: string                // original source lines
+  after: string                 // v0.4 replacement ('' when removed)
+}
+
+export interface MigrationResult {
+  markdown: string
+  changes: MigrationChange[]
+}
+
+/**
+ * Upgrade every non-v0.4 memo in `markdown`. Feedback-notes wrappers and stray
+ * `<!-- /USER_MEMO -->` tags left by older panels are removed, as splitDocument()
+ * already drops them; the MD Feedback banner stays. Returns the input unchanged
+ * when nothing needs migrating.
+ */
+export function migrateAnnotations(markdown: string): MigrationResult {
+  const doc = parseAnnotations(markdown)
+  const outdated = doc.blocks.filter(b =>
+    (b.type === 'memo' && b.format !== 'v4') ||
+    (b.type === 'wrapper' && doc.lines[b.range.startLine].trim() !== '<!--'))  // keep the banner
+  if (outdated.length === 0) return { markdown, changes: [] }
+
+  // Anchors and ranges as the split pipeline sees them
+  const resolved = new Map<string, MemoV2>()
+  for (const memo of splitDocument(markdown).memos) {
+    if (!resolved.has(memo.id)) resolved.set(memo.id, memo)
+  }
+
+  const out: string[] = []
+  const changes: MigrationChange[] = []
+  let next = 0
+  for (const block of outdated) {
+    const { startLine, endLine } = block.range
+    out.push(...doc.lines.slice(next, startLine))
+    next = endLine + 1
+    const before = doc.lines.slice(startLine, endLine + 1).join('\n')
+
+    if (block.type === 'memo') {
+      const after = serializeMemoV2(resolved.get(block.memo.id) ?? block.memo)
+      out.push(after)
+      changes.push({ memoId: block.memo.id, from: block.format === 'legacy' ? 'legacy' : 'v3', line: startLine + 1, before, after })
+    } else {
+      changes.push({ memoId: '', from: 'wrapper', line: startLine + 1, before, after: '' })
+    }
+  }
+  out.push(...doc.lines.slice(next))
+
+  return { markdown: out.join('\n'), changes }
+}
@@ -0,0 +1,180 @@
+/**
+ * Gate Editing — create, update and delete GATE blocks
+ *
+ * Shared by the MCP gate tools and the panel's gate editor. A gate is checked
+ * against the document before it is written (memo and gate references, dependency
+ * cycles, scope heading, conditions), statuses are re-evaluated, and only the
+ * gate blocks change (writeGates → serializeGate).
+ *
+ * Sign-offs are recorded with signOffGate() by the panel and by a CLI run by a
+ * person. The MCP tools neither record nor require sign-offs. The signer is taken
+ * on trust (git identity); nothing here authenticates it.
+ */
+
+import type { AnnotationKind, Gate, MemoPriority, MemoV2 } from './types'
+import { DEFAULT_ANNOTATION_KINDS, GATE_TYPES, MEMO_PRIORITIES } from './types'
+import { splitDocument, writeGates } from './document-writer'
+import { parseAnnotations, type HeadingNode } from './annotation-parser'
+import { conditionHeadings, evaluateAllGates, explainAllGates, findDependencyCycles, gateSigners, looksLikeCondition, parseCondition, scopeSection } from './gate-evaluator'
+
+/** Editable gate fields; `null` clears an optional one */
+export interface GateInput {
+  id?: string
+  type?: Gate['type']
+  blockedBy?: string[]
+  dependsOn?: string[]
+  minPriority?: MemoPriority | null
+  scope?: string | null
+  canProceedIf?: string
+  doneDefinition?: string
+  requiredSignoffs?: number | null
+}
+
+export type GateEditResult = { markdown: string; gate: Gate; gates: Gate[] } | { error: string }
+
+/** First free `gate-N` id */
+export function nextGateId(gates: Gate[]): string {
+  const ids = new Set(gates.map(g => g.id))
+  let n = 1
+  while (ids.has(`gate-${n}`)) n++
+  return `gate-${n}`
+}
+
+/** Why `gate` cannot be written as part of `gates`, or null when it can */
+export function checkGate(
+  gate: Gate,
+  gates: Gate[],
+  memos: MemoV2[],
+  headings: HeadingNode[],
+  kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS,
+): string | null {
+  if (!/^[\w.-]+$/.test(gate.id)) return `Invalid gate id "${gate.id}" — use letters, digits, "-", "_" or "."`
+  if (gates.filter(g => g.id === gate.id).length > 1) return `Gate id "${gate.id}" is already used`
+  if (!GATE_TYPES.includes(gate.type)) return `Invalid gate type "${gate.type}" — expected ${GATE_TYPES.join(', ')}`
+  if (gate.minPriority && !MEMO_PRIORITIES.includes(gate.minPriority)) {
+    return `Invalid minPriority "${gate.minPriority}" — expected ${MEMO_PRIORITIES.join(', ')}`
+  }
+
+  const missingMemos = gate.blockedBy.filter(id => !memos.some(m => m.id === id))
+  if (missingMemos.length > 0) return `blockedBy refers to missing memos: ${missingMemos.join(', ')}`
+  const missingGates = (gate.dependsOn ?? []).filter(id => !gates.some(g => g.id === id))
+  if (missingGates.length > 0) return `dependsOn refers to missing gates: ${missingGates.join(', ')}`
+  const cycle = findDependencyCycles(gates).find(c => c.includes(gate.id))
+  if (cycle) return `dependsOn would form a cycle: ${[...cycle, cycle[0]].join(' → ')}`
+
+  // Written as attributes of the GATE comment: one line of text each
+  for (const key of ['scope', 'canProceedIf', 'doneDefinition'] as const) {
+    if (/[\u0000-\u001f\u007f]/.test(gate[key] ?? '')) return `${key} must be a single line without control characters`
+  }
+  if (gate.scope && !scopeSection(gate.scope, headings)) return `scope "${gate.scope}" matches no heading`
+  for (const key of ['canProceedIf', 'doneDefinition'] as const) {
+    if (!looksLikeCondition(gate[key])) continue
+    const parsed = parseCondition(gate[key], kinds)
+    if ('error' in parsed) return `Invalid ${key} condition at column ${parsed.column + 1}: ${parsed.error}`
+    const missing = conditionHeadings(parsed.condition).find(h => !scopeSection(h, headings))
+    if (missing) return `${key} refers to a missing heading: task(${missing})`
+  }
+  return null
+}
+
+/** Add a gate (id defaults to the next free `gate-N`) */
+export function createGate(markdown: string, input: GateInput, kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS): GateEditResult {
+  const parts = splitDocument(markdown)
+  const gate = applyInput({
+    id: input.id?.trim() || nextGateId(parts.gates),
+    type: 'custom',
+    status: 'blocked',
+    blockedBy: [],
+    canProceedIf: '',
+    doneDefinition: '',
+  }, input)
+  return writeChecked(markdown, gate, [...parts.gates, gate], parts.memos, parts.body, kinds)
+}
+
+/** Change a gate's fields; renaming it (input.id) also renames it in other gates' dependsOn */
+export function updateGate(markdown: string, id: string, input: GateInput, kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS): GateEditResult {
+  const parts = splitDocument(markdown)
+  const current = parts.gates.find(g => g.id === id)
+  if (!current) return { error: `Gate not found: ${id}` }
+  const gate = applyInput({ ...current }, { ...input, id: input.id?.trim() || id })
+  const gates = parts.gates.map(g => {
+    if (g === current) return gate
+    return g.dependsOn?.includes(id) ? { ...g, dependsOn: g.dependsOn.map(d => d === id ? gate.id : d) } : g
+  })
+  return writeChecked(markdown, gate, gates, parts.memos, parts.body, kinds, { [id]: gate.id })
+}
+
+/** Remove a gate; gates that depended on it no longer do */
+export function deleteGate(
+  markdown: string,
+  id: string,
+  kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS,
+): { markdown: string; gate: Gate; dependents: string[] } | { error: string } {
+  const parts = splitDocument(markdown)
+  const gate = parts.gates.find(g => g.id === id)
+  if (!gate) return { error: `Gate not found: ${id}` }
+  const dependents = parts.gates.filter(g => g.dependsOn?.includes(id)).map(g => g.id)
+  const remaining = parts.gates
+    .filter(g => g !== gate)
+    .map(g => g.dependsOn?.includes(id) ? { ...g, dependsOn: g.dependsOn.filter(d => d !== id) } : g)
+  const doc = parseAnnotations(parts.body)
+  return { markdown: writeGates(markdown, evaluateAllGates(remaining, parts.memos, kinds, doc.headings, doc.tasks)), gate, dependents }
+}
+
+/**
+ * Record a person's sign-off on a gate that is awaiting it. Only the panel (git
+ * identity) and a CLI run by a person call this — never an MCP tool. `signer` is
+ * not verified: callers pass the git identity as-is.
+ */
+export function signOffGate(
+  markdown: string,
+  id: string,
+  signer: { name: string; email: string },
+  kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS,
+): GateEditResult {
+  const parts = splitDocument(markdown)
+  const current = parts.gates.find(g => g.id === id)
+  if (!current) return { error: `Gate not found: ${id}` }
+  if (!current.requiredSignoffs) return { error: `Gate "${id}" does not require sign-off` }
+  const doc = parseAnnotations(parts.body)
+  const { status, reason } = explainAllGates(parts.gates, parts.memos, kinds, doc.headings, doc.tasks)[parts.gates.indexOf(current)]
+  if (status === 'done') return { error: `Gate "${id}" is already signed off` }
+  if (status !== 'awaiting-signoff') return { error: `Gate "${id}" is ${status} (${reason}) — sign off once its conditions are met` }
+  const key = (signer.email || signer.name).toLowerCase()
+  if ((current.signoffs ?? []).some(s => (s.email || s.name).toLowerCase() === key)) {
+    return { error: `${signer.name} already signed off gate "${id}" (${gateSigners(current).length} of ${current.requiredSignoffs})` }
+  }
+  const gate: Gate = { ...current, signoffs: [...current.signoffs ?? [], { ...signer, at: new Date().toISOString() }] }
+  const evaluated = evaluateAllGates(parts.gates.map(g => g === current ? gate : g), parts.memos, kinds, doc.headings, doc.tasks)
+  return { markdown: writeGates(markdown, evaluated), gate: evaluated[parts.gates.indexOf(current)], gates: evaluated }
+}
+
+function applyInput(gate: Gate, input: GateInput): Gate {
+  const list = (ids: string[]) => [...new Set(ids.map(s => s.trim()).filter(Boolean))]
+  if (input.id !== undefined) gate.id = input.id.trim()
+  if (input.type !== undefined) gate.type = input.type
+  if (input.blockedBy !== undefined) gate.blockedBy = list(input.blockedBy)
+  if (input.dependsOn !== undefined) gate.dependsOn = list(input.dependsOn)
+  if (input.minPriority !== undefined) gate.minPriority = input.minPriority ?? undefined
+  if (input.scope !== undefined) gate.scope = input.scope?.trim() || undefined
+  if (input.canProceedIf !== undefined) gate.canProceedIf = input.canProceedIf.trim()
+  if (input.doneDefinition !== undefined) gate.doneDefinition = input.doneDefinition.trim()
+  if (input.requiredSignoffs !== undefined) gate.requiredSignoffs = input.requiredSignoffs && input.requiredSignoffs > 0 ? Math.floor(input.requiredSignoffs) : undefined
+  return gate
+}
+
+function writeChecked(
+  markdown: string,
+  gate: Gate,
+  gates: Gate[],
+  memos: MemoV2[],
+  body: string,
+  kinds: AnnotationKind[],
+  renamed: Record<string, string> = {},
+): GateEditResult {
+  const doc = parseAnnotations(body)
+  const error = checkGate(gate, gates, memos, doc.headings, kinds)
+  if (error) return { error }
+  const evaluated = evaluateAllGates(gates, memos, kinds, doc.headings, doc.tasks)
+  return { markdown: writeGates(markdown, evaluated, renamed), gate: evaluated[gates.indexOf(gate)], gates: evaluated }
+}
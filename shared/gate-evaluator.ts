@@ -1,41 +1,633 @@
 /**
  * Gate Evaluator — auto-compute gate status based on memo states
+ *
+ * A gate is blocked while a `blockedBy` memo is open, an open memo is at or above
+ * `minPriority`, or its `canProceedIf` condition fails. It is done when its
+ * `doneDefinition` condition holds — or, without one, when no open memo of a
+ * blocking kind remains — and otherwise proceed. A gate that needs human
+ * sign-offs (`requiredSignoffs`) is awaiting-signoff instead of done until that
+ * many different people have signed it off.
+ *
+ * A gate with a `scope` heading only looks at memos anchored (and task items
+ * written) under that heading and its subheadings (`blockedBy` still names memos
+ * anywhere). When no heading matches the scope the gate is blocked.
+ *
+ * Gates may depend on other gates (`dependsOn`, e.g. release on merge): a gate
+ * stays blocked until every gate it depends on is done. explainAllGates()
+ * evaluates them in dependency order; gates in a cycle, or depending on a gate
+ * that does not exist, are blocked.
+ *
+ * Conditions are a small expression language over memo and task counts:
+ *
+ *   fix.open == 0 && question.open <= 1 && label(security).done
+ *
+ *   <kind>.<status>            count of memos of that kind ("memo" = every memo)
+ *   label(<name>).<status>     count of memos carrying the label
+ *   priority(P1).<status>      count of memos at P1 or above
+ *   status: open, answered, done, wontfix, resolved (done or wontfix), total
+ *   task.<status>              count of task-list items (open = unchecked, done = checked)
+ *   task(<heading>).<status>   count of task items under that heading and its subheadings
+ *
+ * Counts compare with == != < <= > >= against numbers or other counts; a count on
+ * its own means "every such memo has that status". Combine with && || ! and
+ * parentheses. Free text that does not look like a condition is only a description.
  */
 
-import type { Gate, MemoV2 } from './types'
+import type { AnnotationKind, Gate, MemoPriority, MemoV2 } from './types'
+import { priorityRank, kindForType, DEFAULT_ANNOTATION_KINDS, MEMO_PRIORITIES } from './types'
+import type { HeadingNode, TaskNode } from './annotation-parser'
+
+export interface GateEvaluation {
+  status: Gate['status']
+  reason: string | null         // why the gate is not done, null when it is
+}
+
+/**
+ * `headings` and `tasks` are the body's (parseAnnotations(body)); only scoped gates
+ * and task conditions need them
+ */
+export function evaluateGate(
+  gate: Gate,
+  memos: MemoV2[],
+  kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS,
+  headings: HeadingNode[] = [],
+  tasks: TaskNode[] = [],
+): Gate['status'] {
+  return explainGate(gate, memos, kinds, headings, tasks).status
+}
+
+/** Gate status plus the clause that holds it back — on its own, without its gate dependencies */
+export function explainGate(
+  gate: Gate,
+  allMemos: MemoV2[],
+  kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS,
+  headings: HeadingNode[] = [],
+  allTasks: TaskNode[] = [],
+): GateEvaluation {
+  const memos = gate.scope ? scopeMemos(gate.scope, allMemos, headings) : allMemos
+  if (!memos) return { status: 'blocked', reason: `scope: no heading "${gate.scope}"` }
+  const section = gate.scope ? scopeSection(gate.scope, headings) : null
+  const tasks = section ? allTasks.filter(t => t.range.startLine >= section.start && t.range.startLine < section.end) : allTasks
+  const context: ConditionContext = { memos, kinds, tasks, headings }
 
-export function evaluateGate(gate: Gate, memos: MemoV2[]): 'blocked' | 'proceed' | 'done' {
   // Check if any blocking memos are still open
   if (gate.blockedBy.length > 0) {
     const blocking = gate.blockedBy
-      .map(id => memos.find(m => m.id === id))
+      .map(id => allMemos.find(m => m.id === id))
       .filter((m): m is MemoV2 => m != null && m.status === 'open')
 
-    if (blocking.length > 0) return 'blocked'
+    if (blocking.length > 0) return { status: 'blocked', reason: `blockedBy: ${blocking.map(m => m.id).join(', ')} still open` }
   }
 
-  // Check if all memos are resolved (no open ones)
-  const hasOpenMemos = memos.some(m => m.status === 'open')
-  if (!hasOpenMemos) return 'done'
+  // Priority threshold: any open memo at or above minPriority blocks
+  if (gate.minPriority) {
+    const threshold = priorityRank(gate.minPriority)
+    const severe = memos.filter(m => m.status === 'open' && m.priority && priorityRank(m.priority) <= threshold)
+    if (severe.length > 0) {
+      return { status: 'blocked', reason: `minPriority: ${severe.map(m => m.id).join(', ')} open at ${gate.minPriority} or above` }
+    }
+  }
+
+  const canProceed = checkGateCondition(gate.canProceedIf, context)
+  if (canProceed) return { status: 'blocked', reason: `canProceedIf: ${canProceed}` }
+
+  if (looksLikeCondition(gate.doneDefinition)) {
+    const notDone = checkGateCondition(gate.doneDefinition, context)
+    return notDone ? { status: 'proceed', reason: `doneDefinition: ${notDone}` } : signedOff(gate)
+  }
+
+  // Check if all blocking memos are resolved (non-blocking kinds like decisions don't hold the gate)
+  const open = memos.filter(m => m.status === 'open' && kindForType(m.type, kinds).blocking)
+  if (open.length === 0) return signedOff(gate)
+
+  return { status: 'proceed', reason: `${open.length} open blocking memo${open.length === 1 ? '' : 's'}` }
+}
+
+/** Done, once the required sign-offs are in — otherwise awaiting-signoff */
+function signedOff(gate: Gate): GateEvaluation {
+  const signers = gateSigners(gate)
+  if (signers.length >= (gate.requiredSignoffs ?? 0)) return { status: 'done', reason: null }
+  const by = signers.length > 0 ? ` (${signers.join(', ')})` : ''
+  return { status: 'awaiting-signoff', reason: `awaiting sign-off: ${signers.length} of ${gate.requiredSignoffs}${by}` }
+}
 
-  return 'proceed'
+/** Names of the different people who signed a gate off (the same email or name counts once) */
+export function gateSigners(gate: Gate): string[] {
+  const seen = new Map<string, string>()
+  for (const s of gate.signoffs ?? []) {
+    const key = (s.email || s.name).toLowerCase()
+    if (!seen.has(key)) seen.set(key, s.name)
+  }
+  return [...seen.values()]
 }
 
 /** Evaluate all gates and update their status in-place. Returns updated gates. */
-export function evaluateAllGates(gates: Gate[], memos: MemoV2[]): Gate[] {
-  return gates.map(gate => ({
+export function evaluateAllGates(
+  gates: Gate[],
+  memos: MemoV2[],
+  kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS,
+  headings: HeadingNode[] = [],
+  tasks: TaskNode[] = [],
+): Gate[] {
+  const evaluations = explainAllGates(gates, memos, kinds, headings, tasks)
+  return gates.map((gate, i) => ({
     ...gate,
-    status: evaluateGate(gate, memos),
+    status: evaluations[i].status,
   }))
 }
 
+/** explainGate() for every gate, in the gates' order, with gate dependencies applied */
+export function explainAllGates(
+  gates: Gate[],
+  memos: MemoV2[],
+  kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS,
+  headings: HeadingNode[] = [],
+  tasks: TaskNode[] = [],
+): GateEvaluation[] {
+  const byId = new Map(gates.map(g => [g.id, g]))
+  const cycles = findDependencyCycles(gates)
+  const results = new Map<Gate, GateEvaluation>()
+
+  // Dependencies first: a gate's result is settled once every gate it depends on is
+  const explain = (gate: Gate): GateEvaluation => {
+    const known = results.get(gate)
+    if (known) return known
+    const deps = gate.dependsOn ?? []
+    const cycle = cycles.find(c => c.includes(gate.id))
+    const missing = deps.filter(id => !byId.has(id))
+    let result: GateEvaluation
+    if (cycle) {
+      result = { status: 'blocked', reason: `dependsOn: cycle ${[...cycle, cycle[0]].join(' → ')}` }
+    } else if (missing.length > 0) {
+      result = { status: 'blocked', reason: `dependsOn: no gate ${missing.map(id => `"${id}"`).join(', ')}` }
+    } else {
+      const pending = deps
+        .map(id => ({ id, status: explain(byId.get(id)!).status }))
+        .filter(d => d.status !== 'done')
+      result = pending.length > 0
+        ? { status: 'blocked', reason: `dependsOn: ${pending.map(d => `${d.id} is ${d.status}`).join(', ')}` }
+        : explainGate(gate, memos, kinds, headings, tasks)
+    }
+    results.set(gate, result)
+    return result
+  }
+
+  return gates.map(explain)
+}
+
+/** Gates in dependency order (a gate after the gates it depends on), document order otherwise */
+export function sortGatesByDependency<T extends Pick<Gate, 'id' | 'dependsOn'>>(gates: T[]): T[] {
+  const byId = new Map(gates.map(g => [g.id, g]))
+  const sorted: T[] = []
+  const seen = new Set<T>()
+  const visit = (gate: T) => {
+    if (seen.has(gate)) return
+    seen.add(gate)
+    for (const id of gate.dependsOn ?? []) {
+      const dep = byId.get(id)
+      if (dep) visit(dep)
+    }
+    sorted.push(gate)
+  }
+  gates.forEach(visit)
+  return sorted
+}
+
+/**
+ * Open memos holding a gate: its open `blockedBy` memos, then open memos in its
+ * scope of a blocking kind or at or above `minPriority`.
+ */
+export function blockingMemos(
+  gate: Gate,
+  allMemos: MemoV2[],
+  kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS,
+  headings: HeadingNode[] = [],
+): MemoV2[] {
+  const memos = (gate.scope ? scopeMemos(gate.scope, allMemos, headings) : allMemos) ?? []
+  const threshold = gate.minPriority ? priorityRank(gate.minPriority) : null
+  const named = allMemos.filter(m => m.status === 'open' && gate.blockedBy.includes(m.id))
+  const held = memos.filter(m => m.status === 'open' && !named.includes(m) && (
+    kindForType(m.type, kinds).blocking || (threshold !== null && m.priority !== undefined && priorityRank(m.priority) <= threshold)
+  ))
+  return [...named, ...held]
+}
+
+/** Whether a heading is the one a gate scope names: "Phase 2" matches "## Phase 2" and "**Phase 2**" */
+export function matchesScope(heading: string, scope: string): boolean {
+  const normalize = (s: string) => s.replace(/^#+\s*/, '').replace(/[*_`]/g, '').trim().toLowerCase()
+  return normalize(heading) === normalize(scope)
+}
+
+/** Body lines (0-based, end exclusive) of the first heading matching `scope`, down to the next heading at its level or above */
+export function scopeSection(scope: string, headings: HeadingNode[]): { start: number; end: number } | null {
+  const idx = headings.findIndex(h => matchesScope(h.text, scope))
+  if (idx < 0) return null
+  const heading = headings[idx]
+  const next = headings.slice(idx + 1).find(h => h.level <= heading.level)
+  return { start: heading.range.startLine, end: next ? next.range.startLine : Infinity }
+}
+
+/** Memos anchored inside a scope's section, or null when no heading matches */
+function scopeMemos(scope: string, memos: MemoV2[], headings: HeadingNode[]): MemoV2[] | null {
+  const section = scopeSection(scope, headings)
+  if (!section) return null
+  return memos.filter(m => {
+    const line = parseInt(m.anchor.match(/^L(\d+)/)?.[1] ?? '0', 10) - 1
+    return line >= section.start && line < section.end
+  })
+}
+
+/** The failed clause of a gate condition, or null when it holds or is only free text. Invalid conditions fail. */
+function checkGateCondition(text: string, context: ConditionContext): string | null {
+  if (!looksLikeCondition(text)) return null
+  const parsed = parseCondition(text, context.kinds)
+  if ('error' in parsed) return `invalid condition (${parsed.error})`
+  return explainFailure(parsed.condition, context)
+}
+
+// ─── Gate conditions ───
+
+const COUNT_STATUSES = ['open', 'answered', 'done', 'wontfix', 'resolved', 'total'] as const
+type CountStatus = typeof COUNT_STATUSES[number]
+const TASK_STATUSES: readonly CountStatus[] = ['open', 'done', 'resolved', 'total']
+type Comparator = '==' | '!=' | '<' | '<=' | '>' | '>='
+
+type Selector =
+  | { by: 'kind'; type: string }        // 'memo' selects every memo
+  | { by: 'label'; label: string }
+  | { by: 'priority'; priority: MemoPriority }
+  | { by: 'task'; heading: string | null }  // task-list items, optionally only under a heading
+
+interface CountTerm {
+  selector: Selector
+  status: CountStatus
+}
+
+type Operand = { count: CountTerm } | { value: number }
+
+export type Condition =
+  | { op: 'and' | 'or'; left: Condition; right: Condition }
+  | { op: 'not'; operand: Condition }
+  | { op: 'compare'; cmp: Comparator; left: Operand; right: Operand }
+  | { op: 'every'; term: CountTerm }
+
+/** What a condition counts: the gate's (scoped) memos and task items, and the body headings for task(<heading>) */
+interface ConditionContext {
+  memos: MemoV2[]
+  kinds: AnnotationKind[]
+  tasks: TaskNode[]
+  headings: HeadingNode[]
+}
+
+// Anything an author would only write as a condition: operators, <kind>.<status>, label(…), priority(…)
+const CONDITION_HINT_RE = new RegExp(`[=<>!]=|&&|\\|\\||(^|\\s)[<>]\\s*\\d|\\b[\\w-]+\\.(${COUNT_STATUSES.join('|')})\\b|\\b(label|priority|task)\\s*\\(`)
+
+/** Whether gate text is meant as a condition rather than a plain description */
+export function looksLikeCondition(text: string): boolean {
+  return CONDITION_HINT_RE.test(text)
+}
+
+/**
+ * Parse a gate condition. Kind names are checked against `kinds`; errors carry the
+ * 0-based column they were found at.
+ */
+export function parseCondition(
+  text: string,
+  kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS,
+): { condition: Condition } | { error: string; column: number } {
+  const tokens: { text: string; at: number }[] = []
+  const tokenRe = /\s*(&&|\|\||[=!<>]=|[<>!()]|\d+|[A-Za-z_][\w-]*(?:\.[A-Za-z_]\w*)?|\.[A-Za-z_]\w*|\S)/g
+  let m: RegExpExecArray | null
+  while ((m = tokenRe.exec(text)) !== null) {
+    if (!m[1]) break
+    tokens.push({ text: m[1], at: m.index + m[0].length - m[1].length })
+  }
+  let pos = 0
+  const peek = () => tokens[pos]?.text
+  const fail = (message: string): never => {
+    throw new ConditionSyntaxError(message, tokens[pos]?.at ?? text.length)
+  }
+  const expect = (t: string) => {
+    if (peek() !== t) fail(`expected "${t}"${peek() ? ` but found "${peek()}"` : ''}`)
+    pos++
+  }
+
+  const status = (name: string): CountStatus => {
+    if (!(COUNT_STATUSES as readonly string[]).includes(name)) fail(`unknown status "${name}" — expected ${COUNT_STATUSES.join(', ')}`)
+    return name as CountStatus
+  }
+  const taskStatus = (name: string): CountStatus => {
+    if (!(TASK_STATUSES as readonly string[]).includes(name)) fail(`unknown task status "${name}" — expected ${TASK_STATUSES.join(', ')}`)
+    return name as CountStatus
+  }
+
+  const countTerm = (): CountTerm => {
+    const head = peek()
+    if (!head) fail('expected <kind>.<status>, label(…) or priority(…)')
+    if (head === 'task' && tokens[pos + 1]?.text === '(') {
+      // The heading is taken verbatim up to the closing parenthesis, spaces and all
+      pos++
+      const close = text.indexOf(')', tokens[pos].at + 1)
+      const heading = close < 0 ? '' : text.slice(tokens[pos].at + 1, close).trim()
+      pos++
+      if (close < 0) fail('expected ")" after the heading in task(…)')
+      if (!heading) fail('expected a heading in task(…)')
+      while (pos < tokens.length && tokens[pos].at < close) pos++
+      pos++
+      const suffix = peek()
+      if (!suffix?.startsWith('.')) fail(`expected ".<status>" after task(${heading})`)
+      const counted = taskStatus(suffix!.slice(1))
+      pos++
+      return { selector: { by: 'task', heading }, status: counted }
+    }
+    if (head === 'label' || head === 'priority') {
+      pos++
+      expect('(')
+      const arg = peek()
+      if (!arg || arg === ')') fail(`expected a ${head} name`)
+      if (head === 'priority' && !MEMO_PRIORITIES.includes(arg as MemoPriority)) {
+        fail(`unknown priority "${arg}" — expected ${MEMO_PRIORITIES.join(', ')}`)
+      }
+      pos++
+      expect(')')
+      const suffix = peek()
+      if (!suffix?.startsWith('.')) fail(`expected ".<status>" after ${head}(${arg})`)
+      const counted = status(suffix!.slice(1))
+      pos++
+      const selector: Selector = head === 'label'
+        ? { by: 'label', label: arg!.toLowerCase() }
+        : { by: 'priority', priority: arg as MemoPriority }
+      return { selector, status: counted }
+    }
+    const dotted = head!.match(/^([A-Za-z_][\w-]*)\.(\w+)$/)
+    if (!dotted) fail(`expected <kind>.<status>, label(…) or priority(…) but found "${head}"`)
+    const [, type, st] = dotted!
+    if (type === 'task') {
+      const counted = taskStatus(st)
+      pos++
+      return { selector: { by: 'task', heading: null }, status: counted }
+    }
+    if (type !== 'memo' && !kinds.some(k => k.type === type)) {
+      fail(`unknown kind "${type}" — expected memo, ${kinds.map(k => k.type).join(', ')}`)
+    }
+    const counted = status(st)
+    pos++
+    return { selector: { by: 'kind', type }, status: counted }
+  }
+
+  const operand = (): Operand => {
+    const t = peek()
+    if (t && /^\d+$/.test(t)) {
+      pos++
+      return { value: parseInt(t, 10) }
+    }
+    return { count: countTerm() }
+  }
+
+  const primary = (): Condition => {
+    if (peek() === '(') {
+      pos++
+      const inner = or()
+      expect(')')
+      return inner
+    }
+    const left = operand()
+    const cmp = peek()
+    if (cmp && ['==', '!=', '<', '<=', '>', '>='].includes(cmp)) {
+      pos++
+      return { op: 'compare', cmp: cmp as Comparator, left, right: operand() }
+    }
+    if ('value' in left) fail(`expected a comparison after ${left.value}`)
+    return { op: 'every', term: (left as { count: CountTerm }).count }
+  }
+
+  const unary = (): Condition => {
+    if (peek() === '!') {
+      pos++
+      return { op: 'not', operand: unary() }
+    }
+    return primary()
+  }
+
+  const and = (): Condition => {
+    let left = unary()
+    while (peek() === '&&') {
+      pos++
+      left = { op: 'and', left, right: unary() }
+    }
+    return left
+  }
+
+  const or = (): Condition => {
+    let left = and()
+    while (peek() === '||') {
+      pos++
+      left = { op: 'or', left, right: and() }
+    }
+    return left
+  }
+
+  try {
+    const condition = or()
+    if (pos < tokens.length) fail(`unexpected "${peek()}"`)
+    return { condition }
+  } catch (err) {
+    if (err instanceof ConditionSyntaxError) return { error: err.message, column: err.column }
+    throw err
+  }
+}
+
+class ConditionSyntaxError extends Error {
+  constructor(message: string, readonly column: number) {
+    super(message)
+  }
+}
+
+/**
+ * Evaluate a parsed condition; `failed` names the clause that does not hold, with the actual counts.
+ * `tasks` and `headings` (parseAnnotations(body)) are only needed for task terms.
+ */
+export function evaluateCondition(
+  condition: Condition,
+  memos: MemoV2[],
+  kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS,
+  tasks: TaskNode[] = [],
+  headings: HeadingNode[] = [],
+): { ok: boolean; failed: string | null } {
+  const failed = explainFailure(condition, { memos, kinds, tasks, headings })
+  return { ok: failed === null, failed }
+}
+
+function explainFailure(c: Condition, context: ConditionContext): string | null {
+  switch (c.op) {
+    case 'and':
+      return explainFailure(c.left, context) ?? explainFailure(c.right, context)
+    case 'or': {
+      const left = explainFailure(c.left, context)
+      const right = left === null ? null : explainFailure(c.right, context)
+      return left !== null && right !== null ? `${left}, and ${right}` : null
+    }
+    case 'not':
+      return explainFailure(c.operand, context) === null ? `${formatCondition(c)} (${formatCondition(c.operand)} holds)` : null
+    case 'compare': {
+      const missing = [c.left, c.right].map(o => 'count' in o ? missingHeading(o.count, context) : null).find(Boolean)
+      if (missing) return `${formatCondition(c)} (no heading "${missing}")`
+      const value = (o: Operand) => 'value' in o ? o.value : select(o.count, context).matching
+      const l = value(c.left)
+      const r = value(c.right)
+      const holds = c.cmp === '==' ? l === r : c.cmp === '!=' ? l !== r
+        : c.cmp === '<' ? l < r : c.cmp === '<=' ? l <= r : c.cmp === '>' ? l > r : l >= r
+      if (holds) return null
+      const actual = [c.left, c.right].flatMap(o => 'count' in o ? [`${formatTerm(o.count)} is ${value(o)}`] : [])
+      return `${formatCondition(c)} (${actual.join(', ')})`
+    }
+    case 'every': {
+      const missing = missingHeading(c.term, context)
+      if (missing) return `${formatCondition(c)} (no heading "${missing}")`
+      const { selected, matching } = select(c.term, context)
+      if (matching === selected) return null
+      return `${formatCondition(c)} (${selected - matching} of ${selected} not ${c.term.status})`
+    }
+  }
+}
+
+/** The heading of a task(<heading>) term that matches no heading, else null */
+function missingHeading(term: CountTerm, context: ConditionContext): string | null {
+  const { selector } = term
+  return selector.by === 'task' && selector.heading && !scopeSection(selector.heading, context.headings) ? selector.heading : null
+}
+
+/** How many memos (or task items) the term's selector picks, and how many of those have its status */
+function select(term: CountTerm, context: ConditionContext): { selected: number; matching: number } {
+  const { selector, status } = term
+  if (selector.by === 'task') {
+    const section = selector.heading ? scopeSection(selector.heading, context.headings) : null
+    const picked = section
+      ? context.tasks.filter(t => t.range.startLine >= section.start && t.range.startLine < section.end)
+      : context.tasks
+    const matching = picked.filter(t => status === 'total' || (status === 'open' ? !t.checked : t.checked))
+    return { selected: picked.length, matching: matching.length }
+  }
+  const picked = context.memos.filter(m =>
+    selector.by === 'kind' ? selector.type === 'memo' || kindForType(m.type, context.kinds).type === selector.type
+    : selector.by === 'label' ? m.labels.includes(selector.label)
+    : m.priority != null && priorityRank(m.priority) <= priorityRank(selector.priority),
+  )
+  const matching = picked.filter(m =>
+    status === 'total' ? true
+    : status === 'resolved' ? m.status === 'done' || m.status === 'wontfix'
+    : m.status === status,
+  )
+  return { selected: picked.length, matching: matching.length }
+}
+
+function formatTerm(term: CountTerm): string {
+  const { selector } = term
+  const head = selector.by === 'kind' ? selector.type
+    : selector.by === 'label' ? `label(${selector.label})`
+    : selector.by === 'task' ? (selector.heading ? `task(${selector.heading})` : 'task')
+    : `priority(${selector.priority})`
+  return `${head}.${term.status}`
+}
+
+/** Headings named by task(<heading>) terms in a condition */
+export function conditionHeadings(c: Condition): string[] {
+  switch (c.op) {
+    case 'and':
+    case 'or':
+      return [...conditionHeadings(c.left), ...conditionHeadings(c.right)]
+    case 'not':
+      return conditionHeadings(c.operand)
+    case 'compare':
+      return [c.left, c.right].flatMap(o => 'count' in o && o.count.selector.by === 'task' && o.count.selector.heading ? [o.count.selector.heading] : [])
+    case 'every':
+      return c.term.selector.by === 'task' && c.term.selector.heading ? [c.term.selector.heading] : []
+  }
+}
+
+/** Canonical text of a condition, as shown in failure reasons */
+export function formatCondition(c: Condition, parent?: Condition['op']): string {
+  switch (c.op) {
+    case 'and':
+    case 'or': {
+      const text = `${formatCondition(c.left, c.op)} ${c.op === 'and' ? '&&' : '||'} ${formatCondition(c.right, c.op)}`
+      return parent && parent !== c.op ? `(${text})` : text
+    }
+    case 'not':
+      return c.operand.op === 'every' || c.operand.op === 'not' ? `!${formatCondition(c.operand)}` : `!(${formatCondition(c.operand)})`
+    case 'compare': {
+      const side = (o: Operand) => 'value' in o ? String(o.value) : formatTerm(o.count)
+      return `${side(c.left)} ${c.cmp} ${side(c.right)}`
+    }
+    case 'every':
+      return formatTerm(c.term)
+  }
+}
+
+// ─── Memo and gate dependencies ───
+
+/**
+ * Find cycles in memo (or gate) `dependsOn` edges. Each cycle is returned once
+ * as the list of IDs along it, e.g. ['a', 'b'] for a → b → a.
+ * Dependencies on unknown IDs are ignored.
+ */
+export function findDependencyCycles(memos: { id: string; dependsOn?: string[] }[]): string[][] {
+  const byId = new Map(memos.map(m => [m.id, m]))
+  const state = new Map<string, 'visiting' | 'visited'>()
+  const stack: string[] = []
+  const cycles: string[][] = []
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting')
+    stack.push(id)
+    for (const dep of byId.get(id)?.dependsOn || []) {
+      if (!byId.has(dep)) continue
+      if (state.get(dep) === 'visiting') {
+        cycles.push(stack.slice(stack.indexOf(dep)))
+      } else if (!state.has(dep)) {
+        visit(dep)
+      }
+    }
+    stack.pop()
+    state.set(id, 'visited')
+  }
+
+  for (const m of memos) {
+    if (!state.has(m.id)) visit(m.id)
+  }
+  return cycles
+}
+
+/** IDs of the memo's dependencies that are still open (unknown IDs are ignored) */
+export function getOpenDependencies(memo: MemoV2, memos: MemoV2[]): string[] {
+  return memo.dependsOn.filter(id => memos.some(m => m.id === id && m.status === 'open'))
+}
+
+/** A memo is actionable when it is open, not in a cycle, and none of its dependencies are open */
+export function isActionable(memo: MemoV2, memos: MemoV2[], cycles = findDependencyCycles(memos)): boolean {
+  if (memo.status !== 'open') return false
+  if (cycles.some(c => c.includes(memo.id))) return false
+  return getOpenDependencies(memo, memos).length === 0
+}
+
+/** Open memos that can be worked on now, most severe first (document order within a priority) */
+export function getNextActionable(memos: MemoV2[]): MemoV2[] {
+  const cycles = findDependencyCycles(memos)
+  return memos
+    .map((memo, idx) => ({ memo, idx }))
+    .filter(({ memo }) => isActionable(memo, memos, cycles))
+    .sort((a, b) => priorityRank(a.memo.priority) - priorityRank(b.memo.priority) || a.idx - b.idx)
+    .map(({ memo }) => memo)
+}
+
 /** Get a summary of gate statuses */
-export function getGateSummary(gates: Gate[]): { blocked: number; proceed: number; done: number } {
-  let blocked = 0, proceed = 0, done = 0
+export function getGateSummary(gates: Gate[]): { blocked: number; proceed: number; awaitingSignoff: number; done: number } {
+  let blocked = 0, proceed = 0, awaitingSignoff = 0, done = 0
   for (const g of gates) {
     if (g.status === 'blocked') blocked++
     else if (g.status === 'proceed') proceed++
+    else if (g.status === 'awaiting-signoff') awaitingSignoff++
     else done++
   }
-  return { blocked, proceed, done }
+  return { blocked, proceed, awaitingSignoff, done }
 }
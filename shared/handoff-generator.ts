@@ -1,13 +1,20 @@
-import type { Checkpoint, HandoffDocument, HandoffItem, SessionMetadata } from './types'
-import { HEX_TO_COLOR_NAME } from './types'
-import { extractCheckpoints, extractMemos } from './markdown-roundtrip'
-import { getAnnotationCounts, getSectionsWithAnnotations, getAllSections } from './checkpoint'
+import type { AnnotationKind, Checkpoint, HandoffDocument, HandoffItem, HandoffSection, MemoReply, SessionMetadata } from './types'
+import { DEFAULT_ANNOTATION_KINDS, PLAN_STATUSES, PLAN_STATUS_LABELS, kindForColor } from './types'
+import { extractCheckpoints } from './markdown-roundtrip'
+import { getAnnotationCounts, formatAnnotationCounts, getSectionsWithAnnotations, getAllSections } from './checkpoint'
+import { parseAnnotations, sectionAt } from './annotation-parser'
+import { describeMemoTarget } from './memo-targets'
+import { readReviewSettings } from './review-settings'
 
 // ─── Build HandoffDocument from annotated markdown ───
 
-export function buildHandoffDocument(markdown: string, filePath: string): HandoffDocument {
+export function buildHandoffDocument(
+  markdown: string,
+  filePath: string,
+  kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS,
+): HandoffDocument {
   const checkpoints = extractCheckpoints(markdown)
-  const counts = getAnnotationCounts(markdown)
+  const counts = getAnnotationCounts(markdown, kinds)
   const reviewedSections = getSectionsWithAnnotations(markdown)
   const allSections = getAllSections(markdown)
 
@@ -16,98 +23,84 @@ export function buildHandoffDocument(markdown: string, filePath: string): Handof
     startedAt: checkpoints.length > 0 ? checkpoints[0].timestamp : new Date().toISOString(),
     lastCheckpoint: checkpoints.length > 0 ? checkpoints[checkpoints.length - 1].timestamp : '',
     checkpointCount: checkpoints.length,
+    reviewStatus: readReviewSettings(parseAnnotations(markdown).frontmatter?.raw ?? '').settings.status,
     totalFixes: counts.fixes,
     totalQuestions: counts.questions,
     totalHighlights: counts.highlights,
+    totalsByKind: counts.byKind,
   }
 
   // Extract annotated items by type
   const decisions: HandoffItem[] = []
   const openQuestions: HandoffItem[] = []
   const keyPoints: HandoffItem[] = []
+  const kindSections: HandoffSection[] = []
 
-  collectAnnotatedItems(markdown, decisions, openQuestions, keyPoints)
+  collectAnnotatedItems(markdown, kinds, { decisions, openQuestions, keyPoints, kindSections })
 
   // Derive next steps
   const nextSteps: string[] = []
   for (const q of openQuestions) {
-    nextSteps.push(`Resolve: ${q.feedback || q.text}`)
+    nextSteps.push(`Resolve: ${(q.feedback || q.text).split('\n')[0]}`)
   }
   const uncovered = allSections.filter(s => !reviewedSections.includes(s))
   for (const s of uncovered) {
     nextSteps.push(`Review uncovered: ${s} section`)
   }
 
-  return { meta, decisions, openQuestions, keyPoints, checkpoints, nextSteps }
+  return { meta, decisions, openQuestions, keyPoints, kindSections, checkpoints, nextSteps }
 }
 
 // ─── Collect annotated items from markdown ───
 
-function collectAnnotatedItems(
-  markdown: string,
-  decisions: HandoffItem[],
-  openQuestions: HandoffItem[],
-  keyPoints: HandoffItem[],
-): void {
-  const lines = markdown.split('\n')
-  let currentSection = ''
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i]
-
-    const h2Match = line.match(/^## (.+)/)
-    if (h2Match) {
-      currentSection = h2Match[1].trim()
-      continue
-    }
-
-    // Match USER_MEMO annotations
-    const memoMatch = line.match(/<!-- USER_MEMO\s+id="[^"]+"(?:\s+color="([^"]+)")?\s*:\s*(.*?)\s*-->/)
-    if (memoMatch) {
-      const color = memoMatch[1] || 'red'
-      const feedback = memoMatch[2].replace(/--\u200B>/g, '-->')
-
-      // Find the annotated text (previous non-empty line)
-      let text = ''
-      for (let j = i - 1; j >= 0; j--) {
-        if (lines[j].trim() && !lines[j].includes('<!-- ')) {
-          text = lines[j].trim()
-          // Strip mark tags
-          text = text.replace(/<\/?mark[^>]*>/g, '')
-          break
-        }
-      }
-
-      const item: HandoffItem = { section: currentSection, text, feedback }
+interface HandoffBuckets {
+  decisions: HandoffItem[]
+  openQuestions: HandoffItem[]
+  keyPoints: HandoffItem[]
+  kindSections: HandoffSection[]
+}
 
-      if (color === 'red') decisions.push(item)
-      else if (color === 'blue') openQuestions.push(item)
-      else keyPoints.push(item)
+/** File an item under its kind: fix → decisions, question → open questions, highlight → key points */
+function addItem(buckets: HandoffBuckets, kind: AnnotationKind, item: HandoffItem): void {
+  if (!kind.exportSection) return
+  if (kind.type === 'fix') buckets.decisions.push(item)
+  else if (kind.type === 'question') buckets.openQuestions.push(item)
+  else if (kind.type === 'highlight') buckets.keyPoints.push(item)
+  else {
+    let section = buckets.kindSections.find(s => s.title === kind.exportSection)
+    if (!section) {
+      section = { title: kind.exportSection, items: [] }
+      buckets.kindSections.push(section)
     }
+    section.items.push(item)
+  }
+}
 
-    // Match standalone <mark> highlights (no memo following) — 3 formats
-    const markMatch = line.match(/<mark[^>]*(?:data-color="([^"]+)"|style="background-color:\s*([^"]+)")?\s*>(.*?)<\/mark>/)
-      || line.match(/==(.*?)==/)
-    if (markMatch) {
-      const nextLine = i + 1 < lines.length ? lines[i + 1] : ''
-      if (nextLine.includes('<!-- USER_MEMO')) continue // will be handled above
-
-      let text: string
-      let cn: string
-      if (markMatch.length === 2) {
-        // ==text== pattern → yellow highlight
-        text = markMatch[1]
-        cn = 'yellow'
-      } else {
-        const hex = (markMatch[1] || markMatch[2] || '').trim()
-        cn = HEX_TO_COLOR_NAME[hex] || 'yellow'
-        text = markMatch[3]
-      }
-      const item: HandoffItem = { section: currentSection, text, feedback: '' }
-
-      if (cn === 'red') decisions.push(item)
-      else if (cn === 'blue') openQuestions.push(item)
-      else keyPoints.push(item)
+function collectAnnotatedItems(
+  markdown: string,
+  kinds: AnnotationKind[],
+  buckets: HandoffBuckets,
+): void {
+  const doc = parseAnnotations(markdown, kinds)
+  const stripMarks = (s: string) => s.replace(/<\/?mark[^>]*>/g, '')
+
+  // Memos and stand-alone highlights, in document order
+  const items = [
+    ...doc.blocks.flatMap(b => b.type === 'memo' ? [b] : []),
+    ...doc.marks.filter(m => !m.memoId),
+  ].sort((a, b) => a.range.start - b.range.start)
+
+  for (const node of items) {
+    const section = sectionAt(doc.headings, node.range.startLine)
+    if (node.type === 'memo') {
+      const { memo } = node
+      const anchored = memo.anchorText || (node.anchorLine >= 0 ? doc.lines[node.anchorLine].trim() : '')
+      const reply = memo.replies.length > 0 ? memo.replies[memo.replies.length - 1] : undefined
+      // Code-line and cell memos say where in the block they point
+      const place = memo.target ? describeMemoTarget(memo.target, section) : section
+      addItem(buckets, kindForColor(memo.color, kinds), { section: place, text: stripMarks(anchored), feedback: memo.text, reply })
+    } else {
+      addItem(buckets, kindForColor(node.color, kinds), { section, text: node.text, feedback: '' })
     }
   }
 }
@@ -118,6 +111,21 @@ function trunc(s: string, len: number): string {
   return s.length > len ? s.slice(0, len) + '...' : s
 }
 
+/** Numbered item with memo text; lines after the first are indented under the item */
+function numbered(head: string, feedback: string): string {
+  return `${head}${indentBody(feedback, true)}`
+}
+
+function indentBody(feedback: string, skipFirst = false): string {
+  return feedback.split('\n').map((l, i) => (i === 0 && skipFirst) || !l.trim() ? l : `   ${l}`).join('\n')
+}
+
+/** Latest reply under a numbered item; lines after the first are indented under the reply */
+function formatReply(reply: MemoReply): string {
+  const text = reply.text.split('\n').map((l, i) => i === 0 || !l.trim() ? l : `     ${l}`).join('\n')
+  return `   ↳ Latest reply — ${reply.author} (${reply.owner}): ${text}`
+}
+
 export function formatHandoffMarkdown(
   doc: HandoffDocument,
   target: 'standalone' | 'claude-md' | 'cursor-rules' = 'standalone',
@@ -146,7 +154,15 @@ export function formatHandoffMarkdown(
     L.push(`- **Last checkpoint**: ${doc.meta.lastCheckpoint}`)
   }
   L.push(`- **Checkpoints**: ${doc.meta.checkpointCount}`)
-  L.push(`- **Annotations**: ${doc.meta.totalFixes} fix, ${doc.meta.totalQuestions} question, ${doc.meta.totalHighlights} highlight`)
+  if (doc.meta.reviewStatus) {
+    L.push(`- **Review status**: ${PLAN_STATUS_LABELS[doc.meta.reviewStatus]}`)
+  }
+  L.push(`- **Annotations**: ${formatAnnotationCounts({
+    fixes: doc.meta.totalFixes,
+    questions: doc.meta.totalQuestions,
+    highlights: doc.meta.totalHighlights,
+    byKind: doc.meta.totalsByKind ?? {},
+  })}`)
   L.push('')
 
   // Decisions
@@ -157,12 +173,13 @@ export function formatHandoffMarkdown(
       const d = doc.decisions[i]
       const section = d.section ? `[${d.section}]` : '[General]'
       if (d.text && d.feedback) {
-        L.push(`${i + 1}. **${section}** "${trunc(d.text, 60)}" → ${d.feedback}`)
+        L.push(numbered(`${i + 1}. **${section}** "${trunc(d.text, 60)}" → `, d.feedback))
       } else if (d.feedback) {
-        L.push(`${i + 1}. **${section}** ${d.feedback}`)
+        L.push(numbered(`${i + 1}. **${section}** `, d.feedback))
       } else if (d.text) {
         L.push(`${i + 1}. **${section}** "${trunc(d.text, 80)}"`)
       }
+      if (d.reply) L.push(formatReply(d.reply))
     }
     L.push('')
   }
@@ -175,12 +192,13 @@ export function formatHandoffMarkdown(
       const q = doc.openQuestions[i]
       const section = q.section ? `[${q.section}]` : '[General]'
       if (q.text && q.feedback) {
-        L.push(`${i + 1}. **${section}** "${trunc(q.text, 60)}" — ${q.feedback}`)
+        L.push(numbered(`${i + 1}. **${section}** "${trunc(q.text, 60)}" — `, q.feedback))
       } else if (q.feedback) {
-        L.push(`${i + 1}. **${section}** ${q.feedback}`)
+        L.push(numbered(`${i + 1}. **${section}** `, q.feedback))
       } else if (q.text) {
         L.push(`${i + 1}. **${section}** "${trunc(q.text, 80)}"`)
       }
+      if (q.reply) L.push(formatReply(q.reply))
     }
     L.push('')
   }
@@ -196,12 +214,31 @@ export function formatHandoffMarkdown(
         L.push(`${i + 1}. **${section}** "${trunc(k.text, 80)}"`)
       }
       if (k.feedback) {
-        L.push(`   ${k.feedback}`)
+        L.push(indentBody(k.feedback))
       }
     }
     L.push('')
   }
 
+  // Other annotation kinds (decision, risk, todo, workspace kinds)
+  for (const ks of doc.kindSections) {
+    if (ks.items.length === 0) continue
+    L.push(`## ${ks.title} (${ks.items.length})`)
+    for (let i = 0; i < ks.items.length; i++) {
+      const it = ks.items[i]
+      const section = it.section ? `[${it.section}]` : '[General]'
+      if (it.text && it.feedback) {
+        L.push(numbered(`${i + 1}. **${section}** "${trunc(it.text, 60)}" — `, it.feedback))
+      } else if (it.feedback) {
+        L.push(numbered(`${i + 1}. **${section}** `, it.feedback))
+      } else if (it.text) {
+        L.push(`${i + 1}. **${section}** "${trunc(it.text, 80)}"`)
+      }
+      if (it.reply) L.push(formatReply(it.reply))
+    }
+    L.push('')
+  }
+
   // Progress checkpoints
   if (doc.checkpoints.length > 0) {
     L.push('## Progress Checkpoints')
@@ -243,12 +280,26 @@ export function parseHandoffFile(markdown: string): HandoffDocument | null {
   const decisions: HandoffItem[] = []
   const openQuestions: HandoffItem[] = []
   const keyPoints: HandoffItem[] = []
+  const kindSections: HandoffSection[] = []
   const checkpoints: Checkpoint[] = []
   const nextSteps: string[] = []
+  let lastItem: HandoffItem | null = null   // item that indented lines below continue
+  let pendingBlank = 0
 
   for (const line of lines) {
     const h2 = line.match(/^## (.+)/)
-    if (h2) { currentSection = h2[1].trim(); continue }
+    if (h2) { currentSection = h2[1].trim(); lastItem = null; continue }
+
+    // Multi-line memo text: indented lines under a numbered item (blank lines kept between them)
+    if (lastItem && line.trim() === '') { pendingBlank++; continue }
+    if (lastItem && /^ {3}(?!↳)/.test(line)) {
+      const text = line.slice(3)
+      lastItem.feedback += lastItem.feedback ? '\n'.repeat(pendingBlank + 1) + text : text
+      pendingBlank = 0
+      continue
+    }
+    lastItem = null
+    pendingBlank = 0
 
     // Parse session metadata
     if (currentSection.startsWith('Session')) {
@@ -260,11 +311,17 @@ export function parseHandoffFile(markdown: string): HandoffDocument | null {
       if (lastMatch) meta.lastCheckpoint = lastMatch[1].trim()
       const cpMatch = line.match(/\*\*Checkpoints\*\*:\s*(\d+)/)
       if (cpMatch) meta.checkpointCount = parseInt(cpMatch[1], 10)
+      const statusMatch = line.match(/\*\*Review status\*\*:\s*(.+)/)
+      if (statusMatch) meta.reviewStatus = PLAN_STATUSES.find(s => PLAN_STATUS_LABELS[s] === statusMatch[1].trim())
       const annMatch = line.match(/\*\*Annotations\*\*:\s*(\d+)\s*fix,\s*(\d+)\s*question,\s*(\d+)\s*highlight/)
       if (annMatch) {
         meta.totalFixes = parseInt(annMatch[1], 10)
         meta.totalQuestions = parseInt(annMatch[2], 10)
         meta.totalHighlights = parseInt(annMatch[3], 10)
+        meta.totalsByKind = { fix: meta.totalFixes, question: meta.totalQuestions, highlight: meta.totalHighlights }
+        for (const m of line.slice(annMatch.index! + annMatch[0].length).matchAll(/,\s*(\d+)\s+([\w-]+)/g)) {
+          meta.totalsByKind[m[2]] = parseInt(m[1], 10)
+        }
       }
     }
 
@@ -289,6 +346,17 @@ export function parseHandoffFile(markdown: string): HandoffDocument | null {
       if (currentSection.startsWith('Decisions')) decisions.push(item)
       else if (currentSection.startsWith('Open Questions')) openQuestions.push(item)
       else if (currentSection.startsWith('Key Points')) keyPoints.push(item)
+      else {
+        // Any other numbered section came from an annotation kind: "## Risks (2)"
+        const title = currentSection.replace(/\s*\(\d+\)$/, '')
+        let ks = kindSections.find(k => k.title === title)
+        if (!ks) {
+          ks = { title, items: [] }
+          kindSections.push(ks)
+        }
+        ks.items.push(item)
+      }
+      lastItem = item
     }
 
     // Parse next steps
@@ -300,5 +368,5 @@ export function parseHandoffFile(markdown: string): HandoffDocument | null {
 
   if (!meta.file) return null
 
-  return { meta, decisions, openQuestions, keyPoints, checkpoints, nextSteps }
+  return { meta, decisions, openQuestions, keyPoints, kindSections, checkpoints, nextSteps }
 }
@@ -0,0 +1,46 @@
+/**
+ * Kinds registry — the workspace's annotation kinds for tools outside VS Code
+ *
+ * <workspace>/.md-feedback/kinds.json  ←  md-feedback.annotationKinds
+ *
+ * The MCP server and the CLI evaluate gates, lint and export with these kinds; without
+ * the file they use the built-in kinds. The file may be written by hand, or by the
+ * extension's "Write Annotation Kinds for MCP and CLI" command, which marks it with
+ * `generatedBy` and keeps only marked files in step with the setting.
+ */
+
+import type { AnnotationKind } from './types'
+import { resolveAnnotationKinds } from './types'
+
+export const KINDS_REGISTRY_FILE = 'kinds.json'
+export const KINDS_REGISTRY_VERSION = 1
+export const KINDS_REGISTRY_GENERATOR = 'md-feedback'
+
+export interface KindsRegistryFile {
+  version: number
+  kinds: Partial<AnnotationKind>[]   // the setting as configured: additions and overrides
+  generatedBy?: string                // set when the extension wrote the file from the setting
+}
+
+/** Resolved kinds (built-ins merged with the registry's entries) */
+export function parseKindsRegistry(json: string): AnnotationKind[] {
+  const data = JSON.parse(json) as Partial<KindsRegistryFile>
+  if (data.version !== KINDS_REGISTRY_VERSION) {
+    throw new Error(`Unsupported kinds registry version: ${data.version}`)
+  }
+  return resolveAnnotationKinds(Array.isArray(data.kinds) ? data.kinds : [])
+}
+
+/** Whether the extension wrote this registry (and may rewrite it); false for hand-written or unreadable files */
+export function isGeneratedKindsRegistry(json: string): boolean {
+  try {
+    return (JSON.parse(json) as Partial<KindsRegistryFile>).generatedBy === KINDS_REGISTRY_GENERATOR
+  } catch {
+    return false
+  }
+}
+
+export function serializeKindsRegistry(custom: Partial<AnnotationKind>[]): string {
+  const file: KindsRegistryFile = { version: KINDS_REGISTRY_VERSION, generatedBy: KINDS_REGISTRY_GENERATOR, kinds: custom }
+  return JSON.stringify(file, null, 2) + '\n'
+}
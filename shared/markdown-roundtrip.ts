@@ -1,6 +1,7 @@
 import type { Memo, MemoV2, ReviewHighlight, ReviewMemo, Checkpoint } from './types'
 import { HEX_TO_COLOR_NAME } from './types'
 import { splitDocument } from './document-writer'
+import { parseAnnotations } from './annotation-parser'
 
 const HEX_TO_COLOR = HEX_TO_COLOR_NAME
 
@@ -10,122 +11,25 @@ const HEX_TO_COLOR = HEX_TO_COLOR_NAME
  * This preserves memo data through the save/reload cycle.
  */
 export function convertMemosToHtml(markdown: string): string {
-  const lines = markdown.split('\n')
+  const doc = parseAnnotations(markdown)
+  // Re-anchored memos (fresh ranges, orphan flags), by ID
+  const resolved = new Map(splitDocument(markdown).memos.map(m => [m.id, m]))
+  const blockAt = new Map(doc.blocks.map(b => [b.range.startLine, b]))
   const result: string[] = []
-  let i = 0
-
-  while (i < lines.length) {
-    const line = lines[i]
-    const trimmed = line.trim()
-
-    // v0.3 single-line memo (handles extended attrs like owner, source)
-    // <!-- USER_MEMO id="abc" color="red" ... : feedback text -->
-    const v3Match = trimmed.match(/^<!-- USER_MEMO\s+id="([^"]+)"\s+(.*?)\s*:\s*(.*?)\s*-->$/)
-    if (v3Match) {
-      const id = v3Match[1]
-      const attrStr = v3Match[2]
-      const text = v3Match[3].replace(/--\u200B>/g, '-->')
-
-      const colorMatch = attrStr.match(/color="([^"]+)"/)
-      const statusMatch = attrStr.match(/status="([^"]+)"/)
-      const color = colorMatch ? colorMatch[1] : 'red'
-      const status = statusMatch ? statusMatch[1] : 'open'
-
-      const encText = escAttr(text)
-      result.push(`<div data-memo-block data-memo-id="${id}" data-memo-text="${encText}" data-memo-color="${color}" data-memo-status="${status}">memo: ${escHtml(text)}</div>`)
-      i++
-      continue
-    }
-
-    // v0.4 multi-line memo: <!-- USER_MEMO\n  key="val"\n  ...\n-->
-    if (/^<!-- USER_MEMO\s*$/.test(trimmed)) {
-      const attrLines: string[] = []
-      i++
-      while (i < lines.length && !/^-->$/.test(lines[i].trim())) {
-        attrLines.push(lines[i])
-        i++
-      }
-      i++ // skip -->
-
-      const attrs: Record<string, string> = {}
-      for (const al of attrLines) {
-        const m = al.trim().match(/^(\w+)="([^"]*)"$/)
-        if (m) attrs[m[1]] = m[2]
-      }
-
-      const id = attrs.id || ''
-      const color = attrs.color || 'red'
-      const status = attrs.status || 'open'
-      const text = attrs.text || ''
-      const anchorText = attrs.anchorText || ''
-
-      const encText = escAttr(text)
-      const encAnchor = escAttr(anchorText)
-      result.push(`<div data-memo-block data-memo-id="${id}" data-memo-text="${encText}" data-memo-color="${color}" data-memo-status="${status}" data-memo-anchor="${encAnchor}">memo: ${escHtml(text)}</div>`)
-      continue
-    }
-
-    // Skip <!-- /USER_MEMO --> closing tags
-    if (/^<!-- \/USER_MEMO\s*-->$/.test(trimmed)) {
-      i++
-      continue
-    }
-
-    // Skip GATE blocks
-    if (/^<!-- GATE\s*$/.test(trimmed)) {
-      i++
-      while (i < lines.length && !/^-->$/.test(lines[i].trim())) i++
-      i++
-      continue
-    }
-
-    // Skip PLAN_CURSOR blocks
-    if (/^<!-- PLAN_CURSOR\s*$/.test(trimmed)) {
-      i++
-      while (i < lines.length && !/^-->$/.test(lines[i].trim())) i++
-      i++
-      continue
-    }
-
-    // Skip CHECKPOINT lines
-    if (/^<!-- CHECKPOINT\s/.test(trimmed)) {
-      i++
-      continue
-    }
 
-    // Skip banner comments
-    if (/^<!--$/.test(trimmed) && i + 1 < lines.length && /MD Feedback/.test(lines[i + 1])) {
-      while (i < lines.length && !lines[i].includes('-->')) i++
-      i++
-      continue
-    }
-
-    // Skip feedback notes wrappers
-    if (/^<!-- \/?(USER_FEEDBACK_NOTES|@\/?feedback-notes)\b.*-->$/.test(trimmed)) {
+  let i = 0
+  while (i < doc.lines.length) {
+    const block = blockAt.get(i)
+    if (!block || block.type === 'frontmatter') {
+      result.push(doc.lines[i])
       i++
       continue
     }
-
-    // Legacy memo blocks: <!-- @memo ... --> ... <!-- @/memo -->
-    const legacyMatch = trimmed.match(/^<!-- @memo\s+id="([^"]+)"(?:\s+color="([^"]+)")?\s*-->$/)
-    if (legacyMatch) {
-      const memoContentLines: string[] = []
-      i++
-      while (i < lines.length && !/^<!-- @\/memo -->$/.test(lines[i].trim())) {
-        memoContentLines.push(lines[i])
-        i++
-      }
-      i++ // skip <!-- @/memo -->
-      const text = memoContentLines.map(l => l.replace(/^<!--\s*/, '').replace(/\s*-->$/, '')).join('\n').trim()
-      const id = legacyMatch[1]
-      const color = legacyMatch[2] || 'red'
-      const encText = escAttr(text)
-      result.push(`<div data-memo-block data-memo-id="${id}" data-memo-text="${encText}" data-memo-color="${color}" data-memo-status="open">memo: ${escHtml(text)}</div>`)
-      continue
+    if (block.type === 'memo') {
+      result.push(memoV2ToHtml(resolved.get(block.memo.id) ?? block.memo))
     }
-
-    result.push(line)
-    i++
+    // GATE, PLAN_CURSOR, CHECKPOINT and wrapper comments are not shown in the panel
+    i = block.range.endLine + 1
   }
 
   // Trim trailing empty lines
@@ -136,6 +40,34 @@ export function convertMemosToHtml(markdown: string): string {
   return result.join('\n')
 }
 
+/** Render a v0.4 memo as the TipTap memo-block div, carrying every field through the editor */
+function memoV2ToHtml(memo: MemoV2): string {
+  const attrs = [
+    `data-memo-id="${memo.id}"`,
+    `data-memo-type="${escAttr(memo.type)}"`,
+    `data-memo-text="${escAttr(memo.text).replace(/\n/g, '&#10;')}"`,
+    `data-memo-color="${memo.color}"`,
+    `data-memo-status="${memo.status}"`,
+    `data-memo-priority="${memo.priority || ''}"`,
+    `data-memo-labels="${escAttr(memo.labels.join(','))}"`,
+    `data-memo-depends-on="${escAttr(memo.dependsOn.join(','))}"`,
+    `data-memo-anchor="${escAttr(memo.anchorText)}"`,
+    `data-memo-anchor-ref="${escAttr(memo.anchor)}"`,
+    ...(memo.range ? [`data-memo-range="${escAttr(JSON.stringify(memo.range))}"`] : []),
+    ...(memo.target ? [`data-memo-target="${escAttr(JSON.stringify(memo.target))}"`] : []),
+    ...(memo.orphaned ? ['data-memo-orphaned="true"'] : []),
+    ...(memo.suggestion != null ? [`data-memo-suggestion="${escAttr(memo.suggestion).replace(/\n/g, '&#10;')}"`] : []),
+    `data-memo-owner="${memo.owner}"`,
+    `data-memo-source="${escAttr(memo.source)}"`,
+    `data-memo-created="${memo.createdAt}"`,
+    `data-memo-updated="${memo.updatedAt}"`,
+    `data-memo-replies="${escAttr(JSON.stringify(memo.replies))}"`,
+    `data-memo-history="${escAttr(JSON.stringify(memo.history))}"`,
+  ]
+  // One line: a blank line inside the div would end markdown's HTML block
+  return `<div data-memo-block ${attrs.join(' ')}>memo: ${escHtml(memo.text.replace(/\s*\n\s*/g, ' '))}</div>`
+}
+
 function escAttr(s: string): string {
   return s.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
 }
@@ -145,76 +77,31 @@ function escHtml(s: string): string {
 }
 
 export function extractMemos(annotatedMarkdown: string): { markdown: string; memos: Memo[] } {
+  const doc = parseAnnotations(annotatedMarkdown)
+  const memoAt = new Map(doc.blocks.filter(b => b.type === 'memo' || b.type === 'wrapper').map(b => [b.range.startLine, b]))
   const memos: Memo[] = []
-  const lines = annotatedMarkdown.split('\n')
   const cleanLines: string[] = []
-  let inLegacyMemo = false
-  let currentMemo: Partial<Memo> | null = null
-  let memoContentLines: string[] = []
-  let anchorLineContent: string | null = null
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i]
-
-    if (line.trim() === '<!--' && i + 1 < lines.length && lines[i + 1].includes('MD Feedback')) {
-      while (i < lines.length && !lines[i].includes('-->')) i++
+  let i = 0
+  while (i < doc.lines.length) {
+    const block = memoAt.get(i)
+    if (!block) {
+      cleanLines.push(doc.lines[i])
+      i++
       continue
     }
-
-    const newMatch = line.match(/<!-- USER_MEMO\s+id="([^"]+)"(?:\s+color="([^"]+)")?(?:\s+status="([^"]+)")?\s*:\s*(.*?)\s*-->/)
-    if (newMatch) {
-      let anchor: string | null = null
-      for (let j = cleanLines.length - 1; j >= 0; j--) {
-        if (cleanLines[j].trim()) { anchor = cleanLines[j].trim(); break }
-      }
+    if (block.type === 'memo') {
+      const { memo } = block
       memos.push({
-        id: newMatch[1],
-        text: newMatch[4].replace(/--\u200B>/g, '-->'),
-        color: (newMatch[2] as Memo['color']) || 'red',
+        id: memo.id,
+        text: memo.text,
+        color: memo.color,
         anchorPos: null,
-        anchorText: anchor,
-        createdAt: new Date().toISOString().split('T')[0],
+        anchorText: memo.anchorText || (block.anchorLine >= 0 ? doc.lines[block.anchorLine].trim() : null),
+        createdAt: memo.createdAt.split('T')[0],
       })
-      continue
-    }
-
-    const legacyStart = line.match(/<!-- @memo\s+id="([^"]+)"(?:\s+color="([^"]+)")?(?:\s+date="([^"]+)")?\s*-->/)
-    if (legacyStart) {
-      inLegacyMemo = true
-      currentMemo = {
-        id: legacyStart[1],
-        color: (legacyStart[2] as Memo['color']) || 'red',
-        createdAt: legacyStart[3] || new Date().toISOString().split('T')[0],
-      }
-      memoContentLines = []
-      for (let j = cleanLines.length - 1; j >= 0; j--) {
-        if (cleanLines[j].trim()) { anchorLineContent = cleanLines[j].trim(); break }
-      }
-      continue
-    }
-
-    if (line.match(/<!-- @\/memo -->/)) {
-      if (currentMemo) {
-        const text = memoContentLines.map(l => l.replace(/^<!--\s*/, '').replace(/\s*-->$/, '')).join('\n').trim()
-        memos.push({
-          id: currentMemo.id!,
-          text,
-          color: currentMemo.color as Memo['color'],
-          anchorPos: null,
-          anchorText: anchorLineContent,
-          createdAt: currentMemo.createdAt!,
-        })
-      }
-      inLegacyMemo = false
-      currentMemo = null
-      anchorLineContent = null
-      continue
     }
-
-    if (inLegacyMemo) { memoContentLines.push(line); continue }
-    if (line.match(/<!-- \/?USER_FEEDBACK_NOTES\b.*-->/) || line.match(/<!-- @\/?feedback-notes -->/)) continue
-
-    cleanLines.push(line)
+    i = block.range.endLine + 1
   }
 
   while (cleanLines.length > 0 && cleanLines[cleanLines.length - 1].trim() === '') cleanLines.pop()
@@ -415,24 +302,8 @@ function truncate(s: string, len: number): string {
 
 // ─── Checkpoint roundtrip ───
 
-const CHECKPOINT_RE = /<!-- CHECKPOINT id="([^"]+)" time="([^"]+)" note="([^"]*)" fixes=(\d+) questions=(\d+) highlights=(\d+) sections="([^"]*)" -->/g
-
 export function extractCheckpoints(markdown: string): Checkpoint[] {
-  const checkpoints: Checkpoint[] = []
-  let match: RegExpExecArray | null
-  while ((match = CHECKPOINT_RE.exec(markdown)) !== null) {
-    checkpoints.push({
-      id: match[1],
-      timestamp: match[2],
-      note: match[3],
-      fixes: parseInt(match[4], 10),
-      questions: parseInt(match[5], 10),
-      highlights: parseInt(match[6], 10),
-      sectionsReviewed: match[7] ? match[7].split(',') : [],
-    })
-  }
-  CHECKPOINT_RE.lastIndex = 0
-  return checkpoints
+  return parseAnnotations(markdown).blocks.flatMap(b => b.type === 'checkpoint' ? [b.checkpoint] : [])
 }
 
 export function serializeCheckpoint(cp: Checkpoint): string {
@@ -0,0 +1,141 @@
+/**
+ * Memo Targets — annotations on lines of a fenced code block and on table cells
+ *
+ * Highlights cannot go inside fenced code, and a memo card cannot sit inside a
+ * fence or a table, so these memos are written after the block with what they
+ * point at: `code="3-5"` (1-based lines inside the fence) or `cell="2:3"`
+ * (row, column; row 0 is the header, columns start at 1). Their line anchor is
+ * the targeted source line itself. Lines here are 0-based body lines.
+ */
+
+import type { MemoTarget } from './types'
+import { FENCE_RE } from './annotation-parser'
+
+export interface BodyBlock {
+  kind: 'code' | 'table'
+  startLine: number             // opening fence / header row
+  endLine: number               // closing fence / last row (inclusive)
+  contentStart: number          // first line inside the fence / header row
+  contentEnd: number            // last line inside the fence / last row
+}
+
+export interface TableCell {
+  text: string                  // trimmed cell text
+  start: number                 // column of the cell's first character (after the pipe)
+  end: number                   // column of the closing pipe (or end of line)
+}
+
+// GFM delimiter row: | --- | :---: | ---: |
+const TABLE_DELIMITER_RE = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/
+
+/** Fenced code blocks and GFM tables in the body, in source order */
+export function findBodyBlocks(lines: string[]): BodyBlock[] {
+  const blocks: BodyBlock[] = []
+  let i = 0
+  while (i < lines.length) {
+    const fence = lines[i].match(FENCE_RE)
+    if (fence) {
+      const run = fence[1]
+      let end = i + 1
+      while (end < lines.length) {
+        const close = lines[end].match(FENCE_RE)
+        if (close && close[1][0] === run[0] && close[1].length >= run.length && lines[end].trim() === close[1]) break
+        end++
+      }
+      const closed = end < lines.length
+      const last = closed ? end : lines.length - 1
+      blocks.push({ kind: 'code', startLine: i, endLine: last, contentStart: i + 1, contentEnd: closed ? end - 1 : last })
+      i = last + 1
+      continue
+    }
+
+    if (lines[i].includes('|') && i + 1 < lines.length && lines[i + 1].includes('-') && TABLE_DELIMITER_RE.test(lines[i + 1])
+      && (lines[i + 1].includes('|') || splitTableRow(lines[i]).length > 1)) {
+      let end = i + 1
+      while (end + 1 < lines.length && lines[end + 1].trim() && lines[end + 1].includes('|') && !FENCE_RE.test(lines[end + 1])) end++
+      blocks.push({ kind: 'table', startLine: i, endLine: end, contentStart: i, contentEnd: end })
+      i = end + 1
+      continue
+    }
+    i++
+  }
+  return blocks
+}
+
+/** Cells of one table row; leading/trailing pipes are optional and `\|` is not a separator */
+export function splitTableRow(line: string): TableCell[] {
+  const cells: TableCell[] = []
+  let from = line.indexOf('|') === line.search(/\S/) ? line.indexOf('|') + 1 : 0
+  for (let i = from; i <= line.length; i++) {
+    if (i < line.length && (line[i] !== '|' || line[i - 1] === '\\')) continue
+    const raw = line.slice(from, i)
+    if (i < line.length || raw.trim()) {
+      const lead = raw.length - raw.trimStart().length
+      cells.push({ text: raw.trim(), start: from + lead, end: i })
+    }
+    from = i + 1
+  }
+  return cells
+}
+
+/** The code block or table containing a body line, if any */
+export function blockAt(blocks: BodyBlock[], line: number): BodyBlock | null {
+  return blocks.find(b => line >= b.startLine && line <= b.endLine) ?? null
+}
+
+/** Body lines (inclusive) a target points at inside `block`, or null when it does not fit */
+export function targetLines(block: BodyBlock, target: MemoTarget): { start: number; end: number } | null {
+  if (target.kind === 'code') {
+    if (block.kind !== 'code') return null
+    const start = block.contentStart + target.startLine - 1
+    const end = block.contentStart + target.endLine - 1
+    return start >= block.contentStart && end >= start && end <= block.contentEnd ? { start, end } : null
+  }
+  if (block.kind !== 'table') return null
+  // The delimiter row sits between the header (row 0) and row 1
+  const line = target.row === 0 ? block.contentStart : block.contentStart + target.row + 1
+  return target.row >= 0 && line <= block.contentEnd ? { start: line, end: line } : null
+}
+
+/**
+ * What a memo anchored on body lines start..end points at: code lines inside a
+ * fence, or the table cell at `column` of the last line. Null outside both.
+ */
+export function targetAt(lines: string[], start: number, end: number, column?: number): MemoTarget | null {
+  const block = blockAt(findBodyBlocks(lines), end)
+  if (!block || end < block.contentStart || end > block.contentEnd) return null
+  if (block.kind === 'code') {
+    const first = Math.max(start, block.contentStart)
+    return { kind: 'code', startLine: first - block.contentStart + 1, endLine: end - block.contentStart + 1 }
+  }
+  if (end === block.contentStart + 1) return null     // delimiter row
+  const row = end === block.contentStart ? 0 : end - block.contentStart - 1
+  const cells = splitTableRow(lines[end])
+  const idx = column == null ? -1 : cells.findIndex(c => column < c.end)
+  return { kind: 'cell', row, col: idx >= 0 ? idx + 1 : 1 }
+}
+
+/** Trimmed text a target points at, for the memo's anchorText */
+export function targetText(lines: string[], block: BodyBlock, target: MemoTarget): string {
+  const at = targetLines(block, target)
+  if (!at) return ''
+  if (target.kind === 'code') return lines[at.end].trim()
+  return splitTableRow(lines[at.end])[target.col - 1]?.text ?? ''
+}
+
+/** Where a targeted memo points, for exports: "in code block under Setup, lines 3–5" */
+export function describeMemoTarget(target: MemoTarget, section: string): string {
+  const where = target.kind === 'code' ? 'code block' : 'table'
+  const under = section ? ` under ${section}` : ''
+  if (target.kind === 'cell') {
+    return `in ${where}${under}, ${target.row === 0 ? 'header row' : `row ${target.row}`}, column ${target.col}`
+  }
+  const lines = target.startLine === target.endLine ? `line ${target.startLine}` : `lines ${target.startLine}–${target.endLine}`
+  return `in ${where}${under}, ${lines}`
+}
+
+/** Short label for a memo card: "Lines 3–5", "Row 2 · Col 3" */
+export function formatTargetLabel(target: MemoTarget): string {
+  if (target.kind === 'cell') return `${target.row === 0 ? 'Header' : `Row ${target.row}`} · Col ${target.col}`
+  return target.startLine === target.endLine ? `Line ${target.startLine}` : `Lines ${target.startLine}–${target.endLine}`
+}
@@ -0,0 +1,84 @@
+/**
+ * Review Lifecycle — the plan's overall review state and how it may move
+ *
+ *   draft → in-review ⇄ changes-requested
+ *           in-review → approved → implementing → done
+ *
+ * The state is `review.status` in the frontmatter (see review-settings.ts). Moves
+ * back (reopen, send back for changes) are always allowed; moves forward are
+ * guarded by the document's gates, evaluated against its memos:
+ *   approved, implementing — no `implement` gate may be blocked
+ *   done                   — every `merge` and `release` gate must be done
+ */
+
+import type { AnnotationKind, Gate, PlanStatus } from './types'
+import { DEFAULT_ANNOTATION_KINDS, PLAN_STATUS_LABELS } from './types'
+import { splitDocument } from './document-writer'
+import { parseAnnotations } from './annotation-parser'
+import { evaluateAllGates } from './gate-evaluator'
+import { readReviewSettings, writeReviewStatus } from './review-settings'
+
+/** Allowed next states, forward moves first */
+export const REVIEW_TRANSITIONS: Record<PlanStatus, PlanStatus[]> = {
+  'draft': ['in-review'],
+  'in-review': ['approved', 'changes-requested', 'draft'],
+  'changes-requested': ['in-review', 'draft'],
+  'approved': ['implementing', 'in-review'],
+  'implementing': ['done', 'changes-requested'],
+  'done': ['implementing', 'in-review'],
+}
+
+export interface ReviewTransition {
+  to: PlanStatus
+  blockedBy: string | null      // why the guard refuses it, null when allowed
+}
+
+/** Why `from → to` is not allowed right now, or null. `gates` must already be evaluated. */
+export function checkTransition(from: PlanStatus, to: PlanStatus, gates: Gate[]): string | null {
+  if (from === to) return `Review is already ${PLAN_STATUS_LABELS[to].toLowerCase()}`
+  if (!REVIEW_TRANSITIONS[from].includes(to)) {
+    return `Cannot go from ${PLAN_STATUS_LABELS[from].toLowerCase()} to ${PLAN_STATUS_LABELS[to].toLowerCase()}`
+  }
+  if (to === 'approved' || to === 'implementing') {
+    const blocked = gates.filter(g => g.type === 'implement' && g.status === 'blocked')
+    if (blocked.length > 0) return `Implement gate ${blocked.map(g => `"${g.id}"`).join(', ')} is blocked`
+  }
+  if (to === 'done') {
+    const open = gates.filter(g => (g.type === 'merge' || g.type === 'release') && g.status !== 'done')
+    if (open.length > 0) return `Gate ${open.map(g => `"${g.id}"`).join(', ')} is not done`
+  }
+  return null
+}
+
+/** Every state reachable from `from`, with the guard's verdict */
+export function getTransitions(from: PlanStatus, gates: Gate[]): ReviewTransition[] {
+  return REVIEW_TRANSITIONS[from].map(to => ({ to, blockedBy: checkTransition(from, to, gates) }))
+}
+
+/** Current state and the moves available from it, for annotated markdown */
+export function getReviewState(
+  markdown: string,
+  kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS,
+): { status: PlanStatus; transitions: ReviewTransition[] } {
+  const parts = splitDocument(markdown)
+  const { status } = readReviewSettings(parts.frontmatter).settings
+  const doc = parseAnnotations(parts.body)
+  return { status, transitions: getTransitions(status, evaluateAllGates(parts.gates, parts.memos, kinds, doc.headings, doc.tasks)) }
+}
+
+/**
+ * Move the review to `to`. Returns the new frontmatter — only its `status:` line
+ * changes — or the reason the move is refused.
+ */
+export function transitionReview(
+  markdown: string,
+  to: PlanStatus,
+  kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS,
+): { from: PlanStatus; frontmatter: string } | { error: string } {
+  const parts = splitDocument(markdown)
+  const { settings } = readReviewSettings(parts.frontmatter)
+  const doc = parseAnnotations(parts.body)
+  const error = checkTransition(settings.status, to, evaluateAllGates(parts.gates, parts.memos, kinds, doc.headings, doc.tasks))
+  if (error) return { error }
+  return { from: settings.status, frontmatter: writeReviewStatus(parts.frontmatter, to) }
+}
@@ -0,0 +1,435 @@
+/**
+ * Review Settings — typed per-plan review configuration in the YAML frontmatter
+ *
+ *   ---
+ *   title: Payments v2
+ *   review:
+ *     status: in-review
+ *     reviewers: [alice, bob]
+ *     exportTargets: [claude-code, cursor]
+ *     autoCheckpoint:
+ *       onFirstAnnotation: true
+ *       intervalMinutes: 10
+ *     gateTemplates:
+ *       - id: implement
+ *         type: implement
+ *         canProceedIf: "All fixes resolved"
+ *         doneDefinition: "Plan approved by both reviewers"
+ *   ---
+ *
+ * readReviewSettings(): parse and validate the `review:` block. Problems are
+ *   reported with their line and the setting falls back to its default — never thrown.
+ * writeReviewSettings(): rewrite only the settings that changed; the rest of the
+ *   frontmatter, and comments or unknown keys under `review:`, stay byte-for-byte as they were.
+ * writeReviewStatus(): change only the `status:` line (review lifecycle moves).
+ *
+ * Reads the small YAML subset frontmatter needs: nested mappings, block and
+ * flow sequences, quoted and plain scalars, # comments.
+ */
+
+import type { Gate, GateTemplate, PlanStatus, ReviewSettings } from './types'
+import { DEFAULT_REVIEW_SETTINGS, GATE_TYPES, PLAN_STATUSES } from './types'
+import { TARGET_LABELS, type TargetFormat } from './context-generator'
+import { parseAnnotations } from './annotation-parser'
+
+export interface SettingsIssue {
+  line: number                  // 0-based line in the frontmatter (= document line)
+  message: string
+}
+
+const REVIEW_KEY_RE = /^review:\s*(#.*)?$/
+const FENCE_RE = /^---\s*$/
+// In the order they are written
+const SETTING_KEYS = ['status', 'reviewers', 'exportTargets', 'autoCheckpoint', 'gateTemplates']
+
+// ─── Mini YAML ───
+
+type Yaml = string | number | boolean | null | Yaml[] | { [key: string]: Yaml }
+
+interface YamlLine {
+  indent: number
+  text: string                  // without indentation and trailing comment
+  line: number
+}
+
+// Source line of each mapping key, for issue reporting
+const keyLines = new WeakMap<object, Record<string, number>>()
+
+function stripComment(s: string): string {
+  let quote: string | null = null
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i]
+    if (quote) {
+      if (c === '\\' && quote === '"') i++
+      else if (c === quote) quote = null
+    } else if (c === '"' || c === "'") {
+      quote = c
+    } else if (c === '#' && (i === 0 || /\s/.test(s[i - 1]))) {
+      return s.slice(0, i).trimEnd()
+    }
+  }
+  return s.trimEnd()
+}
+
+function parseScalar(raw: string): Yaml {
+  const s = raw.trim()
+  if (s.startsWith('"')) {
+    try { return JSON.parse(s) as string } catch { return s.slice(1, -1) }
+  }
+  if (s.startsWith("'")) return s.slice(1, -1).replace(/''/g, "'")
+  if (s.startsWith('[') && s.endsWith(']')) return splitFlow(s.slice(1, -1)).map(parseScalar)
+  if (s === '' || s === '~' || s === 'null') return null
+  if (s === 'true') return true
+  if (s === 'false') return false
+  if (/^-?\d+(\.\d+)?$/.test(s)) return Number(s)
+  return s
+}
+
+/** Items of a flow sequence body, split on commas outside quotes */
+function splitFlow(body: string): string[] {
+  const items: string[] = []
+  let quote: string | null = null
+  let current = ''
+  for (const c of body) {
+    if (quote) {
+      if (c === quote) quote = null
+    } else if (c === '"' || c === "'") {
+      quote = c
+    } else if (c === ',') {
+      items.push(current)
+      current = ''
+      continue
+    }
+    current += c
+  }
+  if (current.trim()) items.push(current)
+  return items.map(s => s.trim()).filter(Boolean)
+}
+
+/** Parse the node starting at lines[i] (indented exactly `indent`); returns the value and the next line */
+function parseNode(lines: YamlLine[], i: number, indent: number): [Yaml, number] {
+  if (lines[i].text === '-' || lines[i].text.startsWith('- ')) {
+    const items: Yaml[] = []
+    while (i < lines.length && lines[i].indent === indent && (lines[i].text === '-' || lines[i].text.startsWith('- '))) {
+      const rest = lines[i].text.slice(1).trimStart()
+      if (!rest) {
+        const nested = i + 1 < lines.length && lines[i + 1].indent > indent
+        const [value, next] = nested ? parseNode(lines, i + 1, lines[i + 1].indent) : [null, i + 1]
+        items.push(value)
+        i = next
+      } else if (/^[\w-]+:(\s|$)/.test(rest)) {
+        // "- key: value" opens a mapping whose keys line up with "key"
+        const inner = indent + (lines[i].text.length - rest.length)
+        const shifted = [...lines.slice(0, i), { ...lines[i], indent: inner, text: rest }, ...lines.slice(i + 1)]
+        const [value, next] = parseNode(shifted, i, inner)
+        items.push(value)
+        i = next
+      } else {
+        items.push(parseScalar(rest))
+        i++
+      }
+    }
+    return [items, i]
+  }
+
+  const map: { [key: string]: Yaml } = {}
+  const lineOf: Record<string, number> = {}
+  keyLines.set(map, lineOf)
+  while (i < lines.length && lines[i].indent === indent) {
+    const m = lines[i].text.match(/^([\w-]+):(?:\s+(.*))?$/)
+    if (!m) { i++; continue }
+    lineOf[m[1]] = lines[i].line
+    if (m[2] !== undefined && m[2] !== '') {
+      map[m[1]] = parseScalar(m[2])
+      i++
+    } else if (i + 1 < lines.length && lines[i + 1].indent > indent) {
+      const [value, next] = parseNode(lines, i + 1, lines[i + 1].indent)
+      map[m[1]] = value
+      i = next
+    } else if (i + 1 < lines.length && lines[i + 1].indent === indent && lines[i + 1].text.startsWith('- ')) {
+      // Sequence at the same indent as its key (common YAML style)
+      const [value, next] = parseNode(lines, i + 1, indent)
+      map[m[1]] = value
+      i = next
+    } else {
+      map[m[1]] = null
+      i++
+    }
+  }
+  return [map, i]
+}
+
+function isMap(v: Yaml | undefined): v is { [key: string]: Yaml } {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+// ─── Locating the review block ───
+
+interface ReviewBlock {
+  lines: string[]               // all frontmatter lines
+  start: number                 // "review:" line
+  end: number                   // exclusive
+  close: number                 // closing --- line
+}
+
+function findReviewBlock(frontmatter: string): ReviewBlock | null {
+  const lines = frontmatter.split('\n')
+  if (!FENCE_RE.test(lines[0] ?? '')) return null
+  let close = 1
+  while (close < lines.length && !FENCE_RE.test(lines[close])) close++
+  if (close >= lines.length) return null
+  let start = -1
+  for (let i = 1; i < close; i++) {
+    if (REVIEW_KEY_RE.test(lines[i])) { start = i; break }
+  }
+  if (start < 0) return { lines, start: -1, end: -1, close }
+  let end = start + 1
+  while (end < close && (lines[end].trim() === '' || /^\s/.test(lines[end]) || lines[end].startsWith('#'))) end++
+  // Trailing blank lines belong to whatever follows
+  while (end > start + 1 && lines[end - 1].trim() === '') end--
+  return { lines, start, end, close }
+}
+
+// ─── Read ───
+
+/** Review settings from raw frontmatter (`DocumentParts.frontmatter`), with defaults for anything missing or invalid */
+export function readReviewSettings(frontmatter: string): { settings: ReviewSettings; issues: SettingsIssue[] } {
+  const settings = cloneSettings(DEFAULT_REVIEW_SETTINGS)
+  const issues: SettingsIssue[] = []
+  const block = findReviewBlock(frontmatter)
+  if (!block || block.start < 0) return { settings, issues }
+
+  const yamlLines: YamlLine[] = []
+  for (let i = block.start + 1; i < block.end; i++) {
+    const text = stripComment(block.lines[i])
+    if (!text.trim()) continue
+    yamlLines.push({ indent: text.length - text.trimStart().length, text: text.trim(), line: i })
+  }
+  if (yamlLines.length === 0) return { settings, issues }
+
+  const [root] = parseNode(yamlLines, 0, yamlLines[0].indent)
+  if (!isMap(root)) {
+    issues.push({ line: block.start, message: '"review" must be a mapping of settings' })
+    return { settings, issues }
+  }
+  const lineOf = keyLines.get(root) ?? {}
+  const at = (key: string) => lineOf[key] ?? block.start
+
+  for (const key of Object.keys(root)) {
+    if (!SETTING_KEYS.includes(key)) issues.push({ line: at(key), message: `Unknown review setting "${key}" is ignored` })
+  }
+
+  if (root.status != null) {
+    if (PLAN_STATUSES.includes(root.status as PlanStatus)) settings.status = root.status as PlanStatus
+    else issues.push({ line: at('status'), message: `Invalid review status "${root.status}" (expected ${PLAN_STATUSES.join(' | ')})` })
+  }
+
+  if (root.reviewers != null) {
+    const reviewers = toStringList(root.reviewers)
+    if (reviewers) settings.reviewers = reviewers
+    else issues.push({ line: at('reviewers'), message: '"reviewers" must be a list of names' })
+  }
+
+  if (root.exportTargets != null) {
+    const targets = toStringList(root.exportTargets)
+    if (!targets) {
+      issues.push({ line: at('exportTargets'), message: '"exportTargets" must be a list of export targets' })
+    } else {
+      for (const t of targets) {
+        if (t in TARGET_LABELS) settings.exportTargets.push(t as TargetFormat)
+        else issues.push({ line: at('exportTargets'), message: `Unknown export target "${t}" (expected ${Object.keys(TARGET_LABELS).join(', ')})` })
+      }
+    }
+  }
+
+  if (root.autoCheckpoint != null) {
+    const ac = root.autoCheckpoint
+    if (ac === false) {
+      settings.autoCheckpoint = { onFirstAnnotation: false, intervalMinutes: 0 }
+    } else if (isMap(ac)) {
+      const acLine = keyLines.get(ac) ?? {}
+      if (ac.onFirstAnnotation != null) {
+        if (typeof ac.onFirstAnnotation === 'boolean') settings.autoCheckpoint.onFirstAnnotation = ac.onFirstAnnotation
+        else issues.push({ line: acLine.onFirstAnnotation ?? at('autoCheckpoint'), message: '"onFirstAnnotation" must be true or false' })
+      }
+      if (ac.intervalMinutes != null) {
+        if (typeof ac.intervalMinutes === 'number' && ac.intervalMinutes >= 0) settings.autoCheckpoint.intervalMinutes = ac.intervalMinutes
+        else issues.push({ line: acLine.intervalMinutes ?? at('autoCheckpoint'), message: '"intervalMinutes" must be a number of minutes (0 = off)' })
+      }
+    } else {
+      issues.push({ line: at('autoCheckpoint'), message: '"autoCheckpoint" must be false or a mapping with onFirstAnnotation / intervalMinutes' })
+    }
+  }
+
+  if (root.gateTemplates != null) {
+    if (!Array.isArray(root.gateTemplates)) {
+      issues.push({ line: at('gateTemplates'), message: '"gateTemplates" must be a list' })
+    } else {
+      for (const t of root.gateTemplates) {
+        const line = isMap(t) ? Object.values(keyLines.get(t) ?? {})[0] ?? at('gateTemplates') : at('gateTemplates')
+        if (!isMap(t) || typeof t.id !== 'string' || !t.id) {
+          issues.push({ line, message: 'Gate template needs an "id"' })
+          continue
+        }
+        if (settings.gateTemplates.some(g => g.id === t.id)) {
+          issues.push({ line, message: `Duplicate gate template "${t.id}"` })
+          continue
+        }
+        const type = t.type ?? 'custom'
+        if (!GATE_TYPES.includes(type as Gate['type'])) {
+          issues.push({ line, message: `Gate template "${t.id}" has invalid type "${type}" (expected ${GATE_TYPES.join(' | ')})` })
+        }
+        settings.gateTemplates.push({
+          id: t.id,
+          type: GATE_TYPES.includes(type as Gate['type']) ? type as Gate['type'] : 'custom',
+          canProceedIf: t.canProceedIf != null ? String(t.canProceedIf) : '',
+          doneDefinition: t.doneDefinition != null ? String(t.doneDefinition) : '',
+        })
+      }
+    }
+  }
+
+  return { settings, issues }
+}
+
+/** Review settings of an annotated markdown document */
+export function getReviewSettings(markdown: string): ReviewSettings {
+  return readReviewSettings(parseAnnotations(markdown).frontmatter?.raw ?? '').settings
+}
+
+function toStringList(v: Yaml): string[] | null {
+  if (typeof v === 'string') return v.split(',').map(s => s.trim()).filter(Boolean)
+  if (!Array.isArray(v) || v.some(x => typeof x !== 'string' && typeof x !== 'number')) return null
+  return v.map(x => String(x).trim()).filter(Boolean)
+}
+
+function cloneSettings(s: ReviewSettings): ReviewSettings {
+  return {
+    ...s,
+    reviewers: [...s.reviewers],
+    exportTargets: [...s.exportTargets],
+    gateTemplates: s.gateTemplates.map(t => ({ ...t })),
+    autoCheckpoint: { ...s.autoCheckpoint },
+  }
+}
+
+// ─── Write ───
+
+/**
+ * Frontmatter with its `review:` block updated to `settings`. Only the settings that
+ * differ from what the block reads as are rewritten, in place; everything else in the
+ * block — comments, unknown keys, values readReviewSettings reported as invalid — is
+ * kept as written. Settings equal to the defaults are omitted; when nothing is left the
+ * block (and an otherwise empty frontmatter) is removed.
+ */
+export function writeReviewSettings(frontmatter: string, settings: ReviewSettings): string {
+  const block = findReviewBlock(frontmatter)
+
+  if (!block) {
+    const blockLines = serializeReviewBlock(settings)
+    return blockLines.length > 0 ? ['---', ...blockLines, '---', '', ''].join('\n') : frontmatter
+  }
+  const lines = [...block.lines]
+  if (block.start < 0) {
+    lines.splice(block.close, 0, ...serializeReviewBlock(settings))
+  } else {
+    const current = readReviewSettings(frontmatter).settings
+    const entries = settingEntries(block)
+    const pad = ' '.repeat(entries.indent)
+    // Bottom-up, so earlier line numbers stay valid; new settings go after the last line of the block
+    const edits: { start: number; end: number; lines: string[] }[] = []
+    for (const key of SETTING_KEYS) {
+      const next = serializeSetting(key, settings)
+      if (next.join('\n') === serializeSetting(key, current).join('\n')) continue
+      const entry = entries.keys.find(e => e.key === key)
+      edits.push({ start: entry?.start ?? block.end, end: entry?.end ?? block.end, lines: next.map(l => pad + l) })
+    }
+    for (const edit of edits.reverse().sort((a, b) => b.start - a.start)) lines.splice(edit.start, edit.end - edit.start, ...edit.lines)
+
+    const after = findReviewBlock(lines.join('\n'))!
+    if (after.lines.slice(after.start + 1, after.end).every(l => !l.trim())) lines.splice(after.start, after.end - after.start)
+  }
+
+  const updated = lines.join('\n')
+  const rest = findReviewBlock(updated)!
+  const empty = rest.lines.slice(1, rest.close).every(l => !l.trim())
+  return empty ? '' : updated
+}
+
+/**
+ * Frontmatter with only the `review.status` value changed, on its own line (a trailing
+ * comment is kept). Without a status line the setting is added as writeReviewSettings does.
+ */
+export function writeReviewStatus(frontmatter: string, status: PlanStatus): string {
+  const block = findReviewBlock(frontmatter)
+  const entry = block && block.start >= 0 ? settingEntries(block).keys.find(e => e.key === 'status') : undefined
+  if (block && entry && entry.end === entry.start + 1) {
+    const lines = [...block.lines]
+    lines[entry.start] = lines[entry.start].replace(/^(\s*status:\s*)(.*?)(\s+#.*)?$/, (_, key: string, _value: string, comment = '') => `${key}${status}${comment}`)
+    return lines.join('\n')
+  }
+  return writeReviewSettings(frontmatter, { ...readReviewSettings(frontmatter).settings, status })
+}
+
+/** Top-level keys of the review block with their source lines (`end` exclusive), and their indent */
+function settingEntries(block: ReviewBlock): { indent: number; keys: { key: string; start: number; end: number }[] } {
+  const indentOf = (line: string) => line.length - line.trimStart().length
+  const content = (i: number) => stripComment(block.lines[i]).trim() !== ''
+  let first = block.start + 1
+  while (first < block.end && !content(first)) first++
+  const indent = first < block.end ? indentOf(block.lines[first]) : 2
+  const keys: { key: string; start: number; end: number }[] = []
+  for (let i = first; i < block.end; i++) {
+    const m = block.lines[i].match(/^\s*([\w-]+):/)
+    if (!m || indentOf(block.lines[i]) !== indent) continue
+    let end = i + 1
+    while (end < block.end && (!block.lines[end].trim() || indentOf(block.lines[end]) > indent
+      || (indentOf(block.lines[end]) === indent && /^\s*-(\s|$)/.test(block.lines[end])))) end++
+    while (end > i + 1 && !block.lines[end - 1].trim()) end--
+    keys.push({ key: m[1], start: i, end })
+    i = end - 1
+  }
+  return { indent, keys }
+}
+
+function serializeReviewBlock(settings: ReviewSettings): string[] {
+  const L = SETTING_KEYS.flatMap(key => serializeSetting(key, settings)).map(l => `  ${l}`)
+  return L.length > 0 ? ['review:', ...L] : []
+}
+
+/** Lines of one setting (unindented), or none when it has its default value */
+function serializeSetting(key: string, settings: ReviewSettings): string[] {
+  const d = DEFAULT_REVIEW_SETTINGS
+  switch (key) {
+    case 'status':
+      return settings.status !== d.status ? [`status: ${settings.status}`] : []
+    case 'reviewers':
+      return settings.reviewers.length > 0 ? [`reviewers: [${settings.reviewers.map(yamlScalar).join(', ')}]`] : []
+    case 'exportTargets':
+      return settings.exportTargets.length > 0 ? [`exportTargets: [${settings.exportTargets.join(', ')}]`] : []
+    case 'autoCheckpoint': {
+      const ac = settings.autoCheckpoint
+      if (ac.onFirstAnnotation === d.autoCheckpoint.onFirstAnnotation && ac.intervalMinutes === d.autoCheckpoint.intervalMinutes) return []
+      return ['autoCheckpoint:', `  onFirstAnnotation: ${ac.onFirstAnnotation}`, `  intervalMinutes: ${ac.intervalMinutes}`]
+    }
+    case 'gateTemplates':
+      return settings.gateTemplates.length > 0 ? ['gateTemplates:', ...settings.gateTemplates.flatMap(serializeTemplate)] : []
+  }
+  return []
+}
+
+function serializeTemplate(t: GateTemplate): string[] {
+  return [
+    `  - id: ${yamlScalar(t.id)}`,
+    `    type: ${t.type}`,
+    ...(t.canProceedIf ? [`    canProceedIf: ${yamlScalar(t.canProceedIf)}`] : []),
+    ...(t.doneDefinition ? [`    doneDefinition: ${yamlScalar(t.doneDefinition)}`] : []),
+  ]
+}
+
+/** Plain scalar when it reads back as the same string, double-quoted otherwise */
+function yamlScalar(s: string): string {
+  const plain = /^[A-Za-z_][\w .@/()-]*$/.test(s) && !/\s$/.test(s) && !/: /.test(s)
+    && !['true', 'false', 'null', '~'].includes(s)
+  return plain ? s : JSON.stringify(s)
+}
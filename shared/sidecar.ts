@@ -0,0 +1,118 @@
+/**
+ * Sidecar storage — annotations kept beside an untouched markdown file
+ *
+ * docs/plan.md  →  docs/.md-feedback/plan.md.json
+ *
+ * attachSidecar(): markdown + sidecar → annotated markdown (the inline form every
+ *   consumer already understands: splitDocument, the panel, MCP tools)
+ * detachSidecar(): annotated markdown → plain markdown + sidecar
+ *
+ * Anchors in the sidecar resolve against the body, exactly as inline memos do.
+ */
+
+import type { MemoV2, Gate, Checkpoint, PlanCursor } from './types'
+import { splitDocument, mergeDocument } from './document-writer'
+import { parseAnnotations } from './annotation-parser'
+
+export const SIDECAR_DIR = '.md-feedback'
+export const SIDECAR_VERSION = 1
+
+export interface SidecarFile {
+  version: number
+  memos: MemoV2[]
+  gates: Gate[]
+  checkpoints: Checkpoint[]
+  cursor: PlanCursor | null
+}
+
+/** Sidecar path for a markdown file path (either separator style) */
+export function sidecarPath(markdownPath: string): string {
+  const cut = Math.max(markdownPath.lastIndexOf('/'), markdownPath.lastIndexOf('\\'))
+  const sep = cut >= 0 ? markdownPath[cut] : '/'
+  const dir = cut >= 0 ? markdownPath.slice(0, cut + 1) : ''
+  return `${dir}${SIDECAR_DIR}${sep}${markdownPath.slice(cut + 1)}.json`
+}
+
+export function parseSidecar(json: string): SidecarFile {
+  const data = JSON.parse(json) as Partial<SidecarFile>
+  if (data.version !== SIDECAR_VERSION) {
+    throw new Error(`Unsupported sidecar version: ${data.version}`)
+  }
+  return {
+    version: SIDECAR_VERSION,
+    memos: (data.memos ?? []).map(m => ({
+      ...m,
+      labels: m.labels ?? [],
+      dependsOn: m.dependsOn ?? [],
+      replies: m.replies ?? [],
+      history: m.history ?? [],
+    })),
+    gates: data.gates ?? [],
+    checkpoints: data.checkpoints ?? [],
+    cursor: data.cursor ?? null,
+  }
+}
+
+export function serializeSidecar(sidecar: SidecarFile): string {
+  return JSON.stringify(sidecar, null, 2) + '\n'
+}
+
+/**
+ * Annotated markdown for a sidecar document. Inline annotations left in the
+ * file (e.g. from an interrupted conversion) are kept unless the sidecar has the same ID.
+ */
+export function attachSidecar(markdown: string, sidecar: SidecarFile): string {
+  const parts = splitDocument(markdown)
+  return mergeDocument({
+    ...parts,
+    memos: unionById(sidecar.memos, parts.memos),
+    gates: unionById(sidecar.gates, parts.gates),
+    checkpoints: unionById(sidecar.checkpoints, parts.checkpoints),
+    cursor: sidecar.cursor ?? parts.cursor,
+  })
+}
+
+/**
+ * Split annotated markdown into the plain markdown file and its sidecar. Only the
+ * annotation blocks' own lines are removed, so the body (and every memo anchor into
+ * it) stays exactly as it was.
+ */
+export function detachSidecar(annotated: string): { markdown: string; sidecar: SidecarFile } {
+  const parts = splitDocument(annotated)
+  const doc = parseAnnotations(annotated)
+  const removed = new Set<number>()
+  for (const block of doc.blocks) {
+    if (block.type === 'frontmatter') continue
+    for (let i = block.range.startLine; i <= block.range.endLine; i++) removed.add(i)
+  }
+  const lines = doc.lines.filter((_, i) => !removed.has(i))
+  // Annotations at the end of the file leave the blank lines that separated them behind
+  let last = doc.lines.length - 1
+  while (last > 0 && doc.lines[last].trim() === '') last--
+  if (removed.has(last)) {
+    while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop()
+    lines.push('')
+  }
+  return {
+    markdown: lines.join('\n'),
+    sidecar: {
+      version: SIDECAR_VERSION,
+      memos: parts.memos,
+      gates: parts.gates,
+      checkpoints: parts.checkpoints,
+      cursor: parts.cursor,
+    },
+  }
+}
+
+/** True when two markdown texts have the same frontmatter and body — annotations aside */
+export function sameBody(a: string, b: string): boolean {
+  const pa = splitDocument(a)
+  const pb = splitDocument(b)
+  return pa.body === pb.body && pa.frontmatter.trimEnd() === pb.frontmatter.trimEnd()
+}
+
+function unionById<T extends { id: string }>(primary: T[], extra: T[]): T[] {
+  const ids = new Set(primary.map(x => x.id))
+  return [...primary, ...extra.filter(x => !ids.has(x.id))]
+}
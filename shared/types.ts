@@ -1,3 +1,5 @@
+import type { TargetFormat } from './context-generator'
+
 export interface Memo {
   id: string
   text: string
@@ -20,58 +22,138 @@ export interface ReviewMemo {
   color: string
   section: string
   context: string
+  latestReply?: MemoReply
+  priority?: MemoPriority
+  labels?: string[]
+  target?: MemoTarget
 }
 
 /**
- * Annotation types:
+ * Built-in annotation colors (see DEFAULT_ANNOTATION_KINDS):
  *   yellow = highlight (personal reading mark, not sent to AI)
  *   red    = fix (strikethrough — "change this")
  *   blue   = question (underline — "clarify this")
+ *   green  = decision (recorded decision — "we chose this")
+ *   orange = risk (flagged risk — "watch out")
+ *   purple = todo (follow-up task — "do this later")
+ * Workspaces may register more kinds, so any other color name is allowed.
  */
-export type MemoColor = 'yellow' | 'red' | 'blue'
-export type HighlightColor = 'yellow' | 'red' | 'blue'
-
-export const HIGHLIGHT_COLORS: Record<HighlightColor, string> = {
-  yellow: '#fef08a',
-  red:    '#fca5a5',
-  blue:   '#93c5fd',
-}
-
-export const HEX_TO_COLOR_NAME: Record<string, string> = {
-  '#fef08a': 'yellow',
-  '#fca5a5': 'red',
-  '#93c5fd': 'blue',
-}
+export type BuiltinColor = 'yellow' | 'red' | 'blue' | 'green' | 'orange' | 'purple'
+export type MemoColor = BuiltinColor | (string & {})
+export type HighlightColor = MemoColor
 
 // ─── v0.4.0 State Model ───
 
-export type MemoType = 'fix' | 'question' | 'highlight'
+export type MemoType = 'fix' | 'question' | 'highlight' | 'decision' | 'risk' | 'todo' | (string & {})
 export type MemoStatus = 'open' | 'answered' | 'done' | 'wontfix'
 export type MemoOwner = 'human' | 'agent' | 'tool'
+export type MemoPriority = 'P0' | 'P1' | 'P2' | 'P3'
+
+/** Priority order, most severe first. Unprioritized memos sort after P3. */
+export const MEMO_PRIORITIES: MemoPriority[] = ['P0', 'P1', 'P2', 'P3']
+
+export function priorityRank(priority: MemoPriority | undefined): number {
+  const idx = priority ? MEMO_PRIORITIES.indexOf(priority) : -1
+  return idx >= 0 ? idx : MEMO_PRIORITIES.length
+}
+
+export const MEMO_STATUSES: MemoStatus[] = ['open', 'answered', 'done', 'wontfix']
+export const MEMO_OWNERS: MemoOwner[] = ['human', 'agent', 'tool']
 
 export interface MemoV2 {
   id: string
   type: MemoType
   status: MemoStatus
+  priority?: MemoPriority       // P0 (blocking) … P3 (nit); unset = unprioritized
+  labels: string[]              // free-form tags: 'security', 'api', 'ux', ...
+  dependsOn: string[]           // memo IDs that must be resolved before this one is actionable
   owner: MemoOwner
   source: string               // 'cursor' | 'cline' | 'copilot' | 'claude' | 'generic' | ...
   color: MemoColor
   text: string
   anchorText: string
   anchor: string               // "L42:L45|a3f8c2d1" — line range + line hash
+  range?: TextAnchor            // character range of anchorText in the body, with context
+  target?: MemoTarget           // code lines or table cell the memo points at (see memo-targets.ts)
+  orphaned?: boolean            // anchor could not be resolved — waiting to be re-attached
+  suggestion?: string           // fix memos only: exact replacement for anchorText
   createdAt: string
   updatedAt: string
+  replies: MemoReply[]          // conversation thread, oldest first
+  history: MemoStatusChange[]   // status transitions, oldest first
+}
+
+/** Character-range anchor into the document body, with surrounding text for re-anchoring after edits */
+export interface TextAnchor {
+  start: number                 // body offset of anchorText
+  end: number                   // exclusive
+  prefix: string                // up to 16 chars before the range; '' unless the quote is ambiguous
+  suffix: string                // up to 16 chars after the range; '' unless the quote is ambiguous
+}
+
+/**
+ * What a memo points at inside a block highlights cannot reach: lines of a fenced
+ * code block (1-based, inside the fence) or a table cell (row 0 is the header,
+ * columns start at 1)
+ */
+export type MemoTarget =
+  | { kind: 'code'; startLine: number; endLine: number }
+  | { kind: 'cell'; row: number; col: number }
+
+/** One message in a memo's reply thread (human ↔ agent) */
+export interface MemoReply {
+  author: string               // display name: 'reviewer', 'claude', 'cursor', ...
+  owner: MemoOwner
+  createdAt: string
+  text: string
+}
+
+/** One status transition in a memo's audit history */
+export interface MemoStatusChange {
+  from: MemoStatus
+  to: MemoStatus
+  actor: MemoOwner             // who made the change
+  source: string               // 'panel', 'claude', 'cursor', ...
+  at: string                   // ISO 8601
+}
+
+/** Set a memo's status, appending to its history when the status actually changes */
+export function changeMemoStatus(memo: MemoV2, to: MemoStatus, actor: MemoOwner, source: string): void {
+  const at = new Date().toISOString()
+  if (memo.status !== to) {
+    memo.history.push({ from: memo.status, to, actor, source, at })
+    memo.status = to
+  }
+  memo.updatedAt = at
+}
+
+/**
+ * A human approval on a gate. Recorded only from the VS Code panel (git identity)
+ * or a CLI run by a person — never from MCP tools.
+ */
+export interface GateSignoff {
+  name: string
+  email: string                 // '' when unknown
+  at: string                    // ISO 8601
 }
 
 export interface Gate {
   id: string
   type: 'merge' | 'release' | 'implement' | 'custom'
-  status: 'blocked' | 'proceed' | 'done'
+  status: 'blocked' | 'proceed' | 'awaiting-signoff' | 'done'
   blockedBy: string[]           // memo IDs
+  dependsOn?: string[]          // gate IDs that must be done before this gate leaves blocked
+  minPriority?: MemoPriority    // only open memos at or above this priority block the gate
+  scope?: string                // heading text: only memos under that heading (and its subheadings) count
   canProceedIf: string
   doneDefinition: string
+  requiredSignoffs?: number     // human sign-offs needed before the gate can be done
+  signoffs?: GateSignoff[]
 }
 
+export const GATE_TYPES: Gate['type'][] = ['merge', 'release', 'implement', 'custom']
+export const GATE_STATUSES: Gate['status'][] = ['blocked', 'proceed', 'awaiting-signoff', 'done']
+
 export interface PlanCursor {
   taskId: string
   step: string                  // "3/7" or "Phase 2"
@@ -80,6 +162,50 @@ export interface PlanCursor {
   updatedAt: string
 }
 
+// ─── Review settings (frontmatter `review:` block) ───
+
+export type PlanStatus = 'draft' | 'in-review' | 'changes-requested' | 'approved' | 'implementing' | 'done'
+export const PLAN_STATUSES: PlanStatus[] = ['draft', 'in-review', 'changes-requested', 'approved', 'implementing', 'done']
+
+export const PLAN_STATUS_LABELS: Record<PlanStatus, string> = {
+  'draft': 'Draft',
+  'in-review': 'In review',
+  'changes-requested': 'Changes requested',
+  'approved': 'Approved',
+  'implementing': 'Implementing',
+  'done': 'Done',
+}
+
+/** A gate the plan expects, ready to add to the document */
+export interface GateTemplate {
+  id: string
+  type: Gate['type']
+  canProceedIf: string
+  doneDefinition: string
+}
+
+export interface AutoCheckpointPolicy {
+  onFirstAnnotation: boolean    // checkpoint when the first memo is added
+  intervalMinutes: number       // checkpoint unsaved review work this often; 0 = never
+}
+
+/** Per-plan review configuration, parsed from the frontmatter */
+export interface ReviewSettings {
+  status: PlanStatus
+  reviewers: string[]
+  exportTargets: TargetFormat[] // default export targets, first = primary
+  gateTemplates: GateTemplate[]
+  autoCheckpoint: AutoCheckpointPolicy
+}
+
+export const DEFAULT_REVIEW_SETTINGS: ReviewSettings = {
+  status: 'draft',
+  reviewers: [],
+  exportTargets: [],
+  gateTemplates: [],
+  autoCheckpoint: { onFirstAnnotation: true, intervalMinutes: 10 },
+}
+
 export interface DocumentParts {
   frontmatter: string           // YAML frontmatter (pass-through, empty if none)
   body: string                  // body markdown (memos/gates/cursor stripped)
@@ -87,7 +213,32 @@ export interface DocumentParts {
   checkpoints: Checkpoint[]
   gates: Gate[]
   cursor: PlanCursor | null
-  unknownComments: string[]     // preserved unknown HTML comments
+  unknownComments: UnknownComment[]  // other tools' HTML comments, restored in place if an edit drops them
+}
+
+/** Another tool's HTML comment (prettier-ignore, TOC markers, lint directives) and where it belongs */
+export interface UnknownComment {
+  text: string                  // exact source lines
+  line: number                  // 0-based line where it was found
+  anchorText: string            // nearest non-blank, non-comment line it sits next to ('' = document edge)
+  anchorSide: 'above' | 'below' // the comment is above or below anchorText
+  blankLines: number            // blank lines between the comment and anchorText
+}
+
+/** A task-list item (`- [ ]` / `- [x]`) in the plan body */
+export interface PlanTask {
+  line: number                  // 1-based line of bodyMd
+  text: string
+  checked: boolean
+}
+
+/** The task items directly under one heading ('' = before the first heading), in document order */
+export interface TaskSection {
+  heading: string
+  level: number                 // 0 for the part before the first heading
+  done: number
+  total: number
+  tasks: PlanTask[]
 }
 
 export interface ReviewDocument {
@@ -98,6 +249,10 @@ export interface ReviewDocument {
   checkpoints: Checkpoint[]
   gates: Gate[]
   cursor: PlanCursor | null
+  review: ReviewSettings        // frontmatter review settings (defaults when absent)
+  nextActionable: MemoV2[]      // open memos whose dependencies are all resolved, most severe first
+  dependencyCycles: string[][]  // memo ID cycles in dependsOn (never actionable until broken)
+  tasks: TaskSection[]          // sections holding task-list items
   sections: {
     all: string[]
     reviewed: string[]
@@ -111,14 +266,37 @@ export interface ReviewDocument {
     fixes: number
     questions: number
     highlights: number
+    orphaned: number
+    tasks: number
+    tasksDone: number
   }
 }
 
 /** Convert v0.3 color to v0.4 memo type */
-export function colorToType(color: MemoColor | string): MemoType {
-  if (color === 'red') return 'fix'
-  if (color === 'blue') return 'question'
-  return 'highlight'
+export function colorToType(color: MemoColor | string, kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS): MemoType {
+  return kinds.find(k => k.color === color)?.type ?? 'highlight'
+}
+
+/** Normalize labels: lowercase, dash-separated words, no duplicates or empties */
+export function normalizeLabels(labels: string[]): string[] {
+  const out: string[] = []
+  for (const raw of labels) {
+    const label = raw.trim().toLowerCase().replace(/[\s,]+/g, '-')
+    if (label && !out.includes(label)) out.push(label)
+  }
+  return out
+}
+
+/** True if no filter is given, or the memo carries at least one of the filter labels */
+export function matchesLabels(labels: string[] | undefined, filter: string[] | undefined): boolean {
+  if (!filter || filter.length === 0) return true
+  const wanted = normalizeLabels(filter)
+  return (labels || []).some(l => wanted.includes(l))
+}
+
+/** Convert v0.4 memo type to its v0.3 color */
+export function typeToColor(type: MemoType, kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS): MemoColor {
+  return kinds.find(k => k.type === type)?.color ?? 'yellow'
 }
 
 // ─── Checkpoint & Handoff types ───
@@ -138,9 +316,11 @@ export interface SessionMetadata {
   startedAt: string
   lastCheckpoint: string
   checkpointCount: number
+  reviewStatus?: PlanStatus     // frontmatter review.status
   totalFixes: number
   totalQuestions: number
   totalHighlights: number
+  totalsByKind?: Record<string, number>  // every kind, including decision, risk, todo and custom kinds
 }
 
 export interface HandoffDocument {
@@ -148,25 +328,94 @@ export interface HandoffDocument {
   decisions: HandoffItem[]      // fix annotations → decisions made
   openQuestions: HandoffItem[]  // question annotations → unresolved
   keyPoints: HandoffItem[]      // highlight annotations → key context
+  kindSections: HandoffSection[] // other annotation kinds (decision, risk, todo, custom), one per export section
   checkpoints: Checkpoint[]
   nextSteps: string[]           // from open questions + uncovered sections
 }
 
+export interface HandoffSection {
+  title: string                 // the kind's exportSection, e.g. 'Risks'
+  items: HandoffItem[]
+}
+
 export interface HandoffItem {
   section: string
   text: string                  // annotated text
   feedback: string              // memo content
+  reply?: MemoReply             // latest reply in the memo thread
 }
 
-/** Accent config for memo cards and bubble menu */
-export const MEMO_ACCENT: Record<MemoColor, {
-  bar: string
-  labelColor: string
-  label: string
+// ─── Annotation kinds ───
+
+/** One kind of annotation: how it looks, how it exports, and whether it blocks */
+export interface AnnotationKind {
+  type: MemoType               // stored as the memo `type`
+  color: MemoColor             // stored as the memo `color` (v0.3 compatible)
+  label: string                // 'Fix', 'Risk', ...
+  highlight: string            // highlight mark color (hex)
+  accent: string               // memo card bar / label color (hex)
   emoji: string
   desc: string
-}> = {
-  yellow: { bar: '#d97706', labelColor: 'text-amber-700',  label: 'Highlight', emoji: '🟡', desc: 'Personal reading mark' },
-  red:    { bar: '#dc2626', labelColor: 'text-red-700',    label: 'Fix',       emoji: '🔴', desc: 'This needs to be changed' },
-  blue:   { bar: '#2563eb', labelColor: 'text-blue-700',   label: 'Question',  emoji: '🔵', desc: 'Needs clarification' },
+  exportSection: string        // heading in exports and handoffs; '' = not exported
+  blocking: boolean            // open memos of this kind keep gates from reaching "done"
+  memo: boolean                // annotating inserts a memo card (false = mark only)
+}
+
+/** Built-in kinds, in bubble-menu / shortcut order (1, 2, 3, …) */
+export const DEFAULT_ANNOTATION_KINDS: AnnotationKind[] = [
+  { type: 'highlight', color: 'yellow', label: 'Highlight', highlight: '#fef08a', accent: '#d97706', emoji: '🟡', desc: 'Personal reading mark',         exportSection: 'Key Points',     blocking: false, memo: false },
+  { type: 'fix',       color: 'red',    label: 'Fix',       highlight: '#fca5a5', accent: '#dc2626', emoji: '🔴', desc: 'This needs to be changed',      exportSection: 'Must Fix',       blocking: true,  memo: true },
+  { type: 'question',  color: 'blue',   label: 'Question',  highlight: '#93c5fd', accent: '#2563eb', emoji: '🔵', desc: 'Needs clarification',           exportSection: 'Open Questions', blocking: true,  memo: true },
+  { type: 'decision',  color: 'green',  label: 'Decision',  highlight: '#86efac', accent: '#059669', emoji: '🟢', desc: 'Recorded decision',             exportSection: 'Decision Log',   blocking: false, memo: true },
+  { type: 'risk',      color: 'orange', label: 'Risk',      highlight: '#fdba74', accent: '#ea580c', emoji: '🟠', desc: 'Something that could go wrong', exportSection: 'Risks',          blocking: true,  memo: true },
+  { type: 'todo',      color: 'purple', label: 'Todo',      highlight: '#d8b4fe', accent: '#7c3aed', emoji: '🟣', desc: 'Follow-up task',                exportSection: 'To Do',          blocking: false, memo: true },
+]
+
+/** Neutral look for kinds that only set a type and color */
+function fallbackKind(type: string, color: string): AnnotationKind {
+  const label = type.charAt(0).toUpperCase() + type.slice(1)
+  return {
+    type, color, label,
+    highlight: '#e7e5e4', accent: '#57534e', emoji: '⚪', desc: '',
+    exportSection: label, blocking: false, memo: true,
+  }
 }
+
+/**
+ * Merge workspace kind settings over the built-ins: an entry whose `type` matches
+ * a built-in overrides its fields, a new type is appended (it needs a `color`).
+ */
+export function resolveAnnotationKinds(custom: Partial<AnnotationKind>[] | undefined): AnnotationKind[] {
+  const kinds = DEFAULT_ANNOTATION_KINDS.map(k => ({ ...k }))
+  for (const c of custom || []) {
+    if (!c || typeof c.type !== 'string' || !c.type) continue
+    const existing = kinds.find(k => k.type === c.type)
+    if (existing) {
+      Object.assign(existing, c)
+    } else if (typeof c.color === 'string' && c.color && !kinds.some(k => k.color === c.color)) {
+      kinds.push({ ...fallbackKind(c.type, c.color), ...c } as AnnotationKind)
+    }
+  }
+  return kinds
+}
+
+/** Kind for a memo type; unknown types get a neutral, non-blocking kind */
+export function kindForType(type: string, kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS): AnnotationKind {
+  return kinds.find(k => k.type === type) ?? fallbackKind(type, type)
+}
+
+/** Kind for a color name or highlight hex; unknown colors fall back to highlight */
+export function kindForColor(color: string, kinds: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS): AnnotationKind {
+  return kinds.find(k => k.color === color || k.highlight === color)
+    ?? kinds.find(k => k.type === 'highlight')
+    ?? DEFAULT_ANNOTATION_KINDS[0]
+}
+
+/** Highlight mark color per built-in color name */
+export const HIGHLIGHT_COLORS: Record<string, string> = Object.fromEntries(
+  DEFAULT_ANNOTATION_KINDS.map(k => [k.color, k.highlight]),
+)
+
+export const HEX_TO_COLOR_NAME: Record<string, string> = Object.fromEntries(
+  DEFAULT_ANNOTATION_KINDS.map(k => [k.highlight, k.color]),
+)
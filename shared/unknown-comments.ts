@@ -0,0 +1,113 @@
+/**
+ * Unknown Comments — keep other tools' HTML comments where they were
+ *
+ * captureUnknownComments(): every whole-line comment MD Feedback does not own
+ *   (<!-- prettier-ignore -->, TOC markers, markdownlint directives, …) with the
+ *   nearest line it sticks to
+ * restoreUnknownComments(): put back any of them an edit dropped (the panel's
+ *   editor cannot represent HTML comments), next to the same line
+ *
+ * Anchor lines are matched on their letters and digits only, so they are still
+ * found after the editor re-serializes markdown (bullets, escaping, table padding).
+ */
+
+import type { UnknownComment } from './types'
+import { parseAnnotations } from './annotation-parser'
+
+export function captureUnknownComments(markdown: string): UnknownComment[] {
+  const doc = parseAnnotations(markdown)
+  const lines = doc.lines
+
+  // Lines that can anchor a comment: non-blank body text, not comments or review blocks
+  const skip = new Set<number>()
+  for (const node of [...doc.blocks, ...doc.comments]) {
+    for (let i = node.range.startLine; i <= node.range.endLine; i++) skip.add(i)
+  }
+  const nearest = (from: number, step: 1 | -1) => {
+    let blank = 0
+    for (let i = from; i >= 0 && i < lines.length; i += step) {
+      if (skip.has(i)) continue
+      if (lines[i].trim() === '') { blank++; continue }
+      return { text: lines[i].trim(), blank }
+    }
+    return { text: '', blank }
+  }
+
+  return doc.comments.map(c => {
+    const above = nearest(c.range.startLine - 1, -1)
+    const below = nearest(c.range.endLine + 1, 1)
+    // Directives usually govern the line after them: prefer below unless above is closer
+    const useAbove = above.text !== '' && (below.text === '' || above.blank < below.blank)
+    return {
+      text: c.text,
+      line: c.range.startLine,
+      anchorText: useAbove ? above.text : below.text,
+      anchorSide: useAbove ? 'below' as const : 'above' as const,
+      blankLines: Math.min(useAbove ? above.blank : below.blank, 1),
+    }
+  })
+}
+
+/** Re-insert captured comments missing from `markdown`, in their original order */
+export function restoreUnknownComments(markdown: string, comments: UnknownComment[]): string {
+  if (comments.length === 0) return markdown
+
+  // Comments still present (same text) are left alone
+  const present = new Map<string, number>()
+  for (const c of parseAnnotations(markdown).comments) present.set(c.text, (present.get(c.text) ?? 0) + 1)
+  const missing = comments.filter(c => {
+    const n = present.get(c.text) ?? 0
+    if (n > 0) present.set(c.text, n - 1)
+    return n === 0
+  })
+  if (missing.length === 0) return markdown
+
+  // Adjacent comments sharing an anchor go back as one run, keeping their order
+  const runs: UnknownComment[] = []
+  for (const c of missing) {
+    const prev = runs[runs.length - 1]
+    const prevEnd = prev ? prev.line + prev.text.split('\n').length : -1
+    if (prev && prev.anchorText === c.anchorText && prev.anchorSide === c.anchorSide && c.line >= prevEnd && c.line - prevEnd <= 1) {
+      runs[runs.length - 1] = {
+        ...prev,
+        text: prev.text + (c.line > prevEnd ? '\n\n' : '\n') + c.text,
+        blankLines: c.anchorSide === 'above' ? c.blankLines : prev.blankLines,   // gap on the anchor's side
+      }
+    } else {
+      runs.push(c)
+    }
+  }
+
+  const lines = markdown.split('\n')
+  for (const c of runs) {
+    const text = c.text.split('\n')
+    const gap = Array(c.blankLines).fill('')
+    const at = findAnchor(lines, c)
+    if (at === null) {
+      // Anchor gone (or document edge): original position, clamped
+      const pos = c.anchorText === '' && c.anchorSide === 'above' ? lines.length : Math.min(c.line, lines.length)
+      lines.splice(pos, 0, ...text)
+    } else if (c.anchorSide === 'above') {
+      lines.splice(at, 0, ...text, ...gap)
+    } else {
+      lines.splice(at + 1, 0, ...gap, ...text)
+    }
+  }
+  return lines.join('\n')
+}
+
+/** Line matching the comment's anchor text, nearest its old position */
+function findAnchor(lines: string[], c: UnknownComment): number | null {
+  if (!c.anchorText) return null
+  const key = normalize(c.anchorText)
+  let best: number | null = null
+  for (let i = 0; i < lines.length; i++) {
+    const same = key ? normalize(lines[i]) === key : lines[i].trim() === c.anchorText
+    if (same && (best === null || Math.abs(i - c.line) < Math.abs(best - c.line))) best = i
+  }
+  return best
+}
+
+function normalize(line: string): string {
+  return line.replace(/[^\p{L}\p{N}]+/gu, '').toLowerCase()
+}
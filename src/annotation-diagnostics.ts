@@ -0,0 +1,104 @@
+import * as vscode from 'vscode'
+import { lintAnnotations, type LintFix, type LintIssue } from '../shared/annotation-linter'
+import { getAnnotationKinds } from './annotation-kinds'
+
+const SOURCE = 'md-feedback'
+
+/** Annotation lint results in the Problems panel for open markdown files, with quick fixes */
+export function registerAnnotationDiagnostics(context: vscode.ExtensionContext) {
+  const collection = vscode.languages.createDiagnosticCollection(SOURCE)
+  const fixes = new Map<string, { diagnostic: vscode.Diagnostic; fix: LintFix }[]>()
+  const timers = new Map<string, ReturnType<typeof setTimeout>>()
+
+  const lint = (document: vscode.TextDocument) => {
+    if (document.languageId !== 'markdown') return
+    const key = document.uri.toString()
+    const issues = lintAnnotations(document.getText(), getAnnotationKinds())
+    const entries = issues.map(issue => ({ issue, diagnostic: toDiagnostic(document, issue) }))
+    collection.set(document.uri, entries.map(e => e.diagnostic))
+    fixes.set(key, entries.flatMap(({ issue, diagnostic }) => issue.fix ? [{ diagnostic, fix: issue.fix }] : []))
+  }
+
+  const lintSoon = (document: vscode.TextDocument) => {
+    const key = document.uri.toString()
+    const pending = timers.get(key)
+    if (pending) clearTimeout(pending)
+    timers.set(key, setTimeout(() => {
+      timers.delete(key)
+      lint(document)
+    }, 300))
+  }
+
+  const forget = (document: vscode.TextDocument) => {
+    const key = document.uri.toString()
+    const pending = timers.get(key)
+    if (pending) clearTimeout(pending)
+    timers.delete(key)
+    fixes.delete(key)
+    collection.delete(document.uri)
+  }
+
+  const codeActions: vscode.CodeActionProvider = {
+    provideCodeActions(document, _range, ctx) {
+      const available = fixes.get(document.uri.toString()) ?? []
+      const actions: vscode.CodeAction[] = []
+      for (const diagnostic of ctx.diagnostics) {
+        if (diagnostic.source !== SOURCE) continue
+        const match = available.find(f => sameDiagnostic(f.diagnostic, diagnostic))
+        if (!match) continue
+        const action = new vscode.CodeAction(match.fix.title, vscode.CodeActionKind.QuickFix)
+        action.diagnostics = [diagnostic]
+        action.edit = toWorkspaceEdit(document, match.fix)
+        actions.push(action)
+      }
+      return actions
+    },
+  }
+
+  context.subscriptions.push(
+    collection,
+    vscode.workspace.onDidOpenTextDocument(lint),
+    vscode.workspace.onDidChangeTextDocument(e => lintSoon(e.document)),
+    vscode.workspace.onDidCloseTextDocument(forget),
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('md-feedback.annotationKinds')) vscode.workspace.textDocuments.forEach(lint)
+    }),
+    vscode.languages.registerCodeActionsProvider({ language: 'markdown' }, codeActions, {
+      providedCodeActionKinds: [vscode.CodeActionKind.QuickFix],
+    }),
+    { dispose: () => timers.forEach(t => clearTimeout(t)) },
+  )
+  vscode.workspace.textDocuments.forEach(lint)
+}
+
+function toDiagnostic(document: vscode.TextDocument, issue: LintIssue): vscode.Diagnostic {
+  const line = document.lineAt(Math.min(issue.line, document.lineCount - 1))
+  const diagnostic = new vscode.Diagnostic(
+    line.range,
+    issue.message,
+    issue.severity === 'error' ? vscode.DiagnosticSeverity.Error
+      : issue.severity === 'warning' ? vscode.DiagnosticSeverity.Warning
+      : vscode.DiagnosticSeverity.Information,
+  )
+  diagnostic.source = SOURCE
+  diagnostic.code = issue.code
+  return diagnostic
+}
+
+function sameDiagnostic(a: vscode.Diagnostic, b: vscode.Diagnostic): boolean {
+  return a.code === b.code && a.message === b.message && a.range.isEqual(b.range)
+}
+
+function toWorkspaceEdit(document: vscode.TextDocument, fix: LintFix): vscode.WorkspaceEdit {
+  const edit = new vscode.WorkspaceEdit()
+  for (const e of fix.edits) {
+    const text = e.lines.map(l => l + '\n').join('')
+    if (e.startLine >= document.lineCount) {
+      // Past the last line: start a new line at the end of the file
+      edit.insert(document.uri, document.lineAt(document.lineCount - 1).range.end, '\n' + text.replace(/\n$/, ''))
+    } else {
+      edit.replace(document.uri, new vscode.Range(e.startLine, 0, e.endLine, 0), text)
+    }
+  }
+  return edit
+}
@@ -0,0 +1,100 @@
+import * as vscode from 'vscode'
+import { resolveAnnotationKinds, type AnnotationKind } from '../shared/types'
+import { SIDECAR_DIR } from '../shared/sidecar'
+import { KINDS_REGISTRY_FILE, isGeneratedKindsRegistry, serializeKindsRegistry } from '../shared/kinds-registry'
+
+/** md-feedback.annotationKinds as configured (additions and overrides of the built-ins) */
+function getCustomKinds(scope?: vscode.Uri): Partial<AnnotationKind>[] {
+  const custom = vscode.workspace.getConfiguration('md-feedback', scope).get<Partial<AnnotationKind>[]>('annotationKinds', [])
+  return Array.isArray(custom) ? custom : []
+}
+
+/** Built-in annotation kinds merged with the workspace's md-feedback.annotationKinds */
+export function getAnnotationKinds(): AnnotationKind[] {
+  return resolveAnnotationKinds(getCustomKinds())
+}
+
+/** Text of a folder's .md-feedback/kinds.json, or null when there is none */
+function readRegistry(uri: vscode.Uri): Thenable<string | null> {
+  return vscode.workspace.fs.readFile(uri).then(b => Buffer.from(b).toString('utf-8'), () => null)
+}
+
+function registryUri(folder: vscode.WorkspaceFolder): vscode.Uri {
+  return vscode.Uri.joinPath(folder.uri, SIDECAR_DIR, KINDS_REGISTRY_FILE)
+}
+
+async function writeRegistry(uri: vscode.Uri, text: string): Promise<void> {
+  await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'))
+  await vscode.workspace.fs.writeFile(uri, Buffer.from(text, 'utf-8'))
+}
+
+/**
+ * Write md-feedback.annotationKinds to each workspace folder's .md-feedback/kinds.json,
+ * where the MCP server and CLI read it. A hand-written registry is only replaced after
+ * confirmation.
+ */
+async function writeKindsRegistry(): Promise<void> {
+  const folders = (vscode.workspace.workspaceFolders ?? []).filter(f => getCustomKinds(f.uri).length > 0)
+  if (folders.length === 0) {
+    vscode.window.showInformationMessage('No md-feedback.annotationKinds are configured — the MCP server and CLI already use the built-in kinds.')
+    return
+  }
+  const written: string[] = []
+  for (const folder of folders) {
+    const uri = registryUri(folder)
+    const text = serializeKindsRegistry(getCustomKinds(folder.uri))
+    const current = await readRegistry(uri)
+    if (current === text) {
+      written.push(vscode.workspace.asRelativePath(uri))
+      continue
+    }
+    if (current !== null && !isGeneratedKindsRegistry(current)) {
+      const choice = await vscode.window.showWarningMessage(
+        `${vscode.workspace.asRelativePath(uri)} was not written by MD Feedback. Replace it with md-feedback.annotationKinds?`,
+        { modal: true },
+        'Replace',
+      )
+      if (choice !== 'Replace') continue
+    }
+    try {
+      await writeRegistry(uri, text)
+      written.push(vscode.workspace.asRelativePath(uri))
+    } catch (err) {
+      vscode.window.showErrorMessage(`Cannot write ${vscode.workspace.asRelativePath(uri)}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+  if (written.length > 0) {
+    vscode.window.showInformationMessage(`Annotation kinds written to ${written.join(', ')}. Commit it for CI and teammates without VS Code.`)
+  }
+}
+
+/**
+ * Keep registries this extension wrote in step with the setting. Files without the
+ * generated marker — committed by a teammate or kept by hand — are never touched, and
+ * no file is created or deleted here.
+ */
+async function refreshKindsRegistry(): Promise<void> {
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    const uri = registryUri(folder)
+    const current = await readRegistry(uri)
+    if (current === null || !isGeneratedKindsRegistry(current)) continue
+    const text = serializeKindsRegistry(getCustomKinds(folder.uri))
+    if (current === text) continue
+    try {
+      await writeRegistry(uri, text)
+    } catch {
+      // Read-only folder — tools there keep the kinds from the last write
+    }
+  }
+}
+
+export function registerKindsRegistry(context: vscode.ExtensionContext) {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('md-feedback.writeKindsRegistry', writeKindsRegistry),
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('md-feedback.annotationKinds')) void refreshKindsRegistry()
+    }),
+    vscode.workspace.onDidChangeWorkspaceFolders(() => void refreshKindsRegistry()),
+  )
+  void refreshKindsRegistry()
+}
@@ -4,15 +4,18 @@
  * v0.3.0 scope: Parser (readers) ONLY. No writers.
  * 
  * Extracts { bodyMd, memos[], checkpoints[] } from raw markdown.
- * Foundation for safe compaction in future versions.
+ * Reads through shared/annotation-parser, so it sees exactly what the
+ * panel, MCP tools and exports see (all memo formats, code fences skipped).
  * 
  * Key behaviors:
  * - Tolerant parsing: unknown HTML comments preserved in bodyMd
- * - Roundtrip safety: rawComment stores exact original line
- * - Line tracking: lineIndex stores 0-based position
+ * - Roundtrip safety: rawComment stores exact original lines
+ * - Line tracking: lineIndex stores 0-based position of the comment's first line
  * - No trailing whitespace stripping on bodyMd
  */
 
+import { parseAnnotations } from '../shared/annotation-parser'
+
 /**
  * Parsed document structure
  */
@@ -48,82 +51,53 @@ export interface ParsedCheckpoint {
   lineIndex: number
 }
 
-/**
- * Regex pattern for USER_MEMO extraction
- * Format: <!-- USER_MEMO id="..." [color="..."] : text -->
- * 
- * Reference: shared/markdown-roundtrip.ts:23
- */
-const USER_MEMO_RE = /<!-- USER_MEMO\s+id="([^"]+)"(?:\s+color="([^"]+)")?\s*:\s*(.*?)\s*-->/
-
-/**
- * Regex pattern for CHECKPOINT extraction
- * Format: <!-- CHECKPOINT id="..." time="..." note="..." fixes=N questions=N highlights=N sections="..." -->
- * 
- * Reference: shared/markdown-roundtrip.ts:260
- */
-const CHECKPOINT_RE = /<!-- CHECKPOINT id="([^"]+)" time="([^"]+)" note="([^"]*)" fixes=(\d+) questions=(\d+) highlights=(\d+) sections="([^"]*)" -->/
-
 /**
  * Parse raw markdown into structured document with separated body, memos, and checkpoints
  * 
- * Algorithm:
- * 1. Split raw markdown into lines
- * 2. Iterate line by line
- * 3. Match USER_MEMO pattern → add to memos[], skip from bodyMd
- * 4. Match CHECKPOINT pattern → add to checkpoints[], skip from bodyMd
- * 5. Unknown HTML comments → PRESERVE in bodyMd (tolerant parsing)
- * 6. Everything else → add to bodyMd
- * 7. Return { bodyMd, memos, checkpoints }
+ * Memo and checkpoint blocks (with their exact source lines) are pulled out;
+ * every other line, including gates and unknown HTML comments, stays in bodyMd.
  * 
  * @param raw - Raw markdown string
  * @returns Parsed document with separated body, memos, and checkpoints
  */
 export function parseDocument(raw: string): ParsedDocument {
-  const lines = raw.split('\n')
+  const doc = parseAnnotations(raw)
   const memos: ParsedMemo[] = []
   const checkpoints: ParsedCheckpoint[] = []
-  const bodyLines: string[] = []
+  const removed = new Set<number>()
 
-  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
-    const line = lines[lineIndex]
+  for (const block of doc.blocks) {
+    if (block.type !== 'memo' && block.type !== 'checkpoint') continue
+    const { startLine, endLine } = block.range
+    const rawComment = doc.lines.slice(startLine, endLine + 1).join('\n')
+    for (let i = startLine; i <= endLine; i++) removed.add(i)
 
-    // Try to match USER_MEMO pattern
-    const memoMatch = line.match(USER_MEMO_RE)
-    if (memoMatch) {
+    if (block.type === 'memo') {
       memos.push({
-        id: memoMatch[1],
-        color: memoMatch[2] || '#fca5a5', // default red hex
-        text: memoMatch[3],
-        rawComment: line,
-        lineIndex,
+        id: block.memo.id,
+        color: block.memo.color,
+        text: block.memo.text,
+        rawComment,
+        lineIndex: startLine,
       })
-      continue
-    }
-
-    // Try to match CHECKPOINT pattern
-    const checkpointMatch = line.match(CHECKPOINT_RE)
-    if (checkpointMatch) {
+    } else {
+      const c = block.checkpoint
       checkpoints.push({
-        id: checkpointMatch[1],
-        time: checkpointMatch[2],
-        note: checkpointMatch[3],
-        fixes: parseInt(checkpointMatch[4], 10),
-        questions: parseInt(checkpointMatch[5], 10),
-        highlights: parseInt(checkpointMatch[6], 10),
-        sections: checkpointMatch[7],
-        rawComment: line,
-        lineIndex,
+        id: c.id,
+        time: c.timestamp,
+        note: c.note,
+        fixes: c.fixes,
+        questions: c.questions,
+        highlights: c.highlights,
+        sections: c.sectionsReviewed.join(','),
+        rawComment,
+        lineIndex: startLine,
       })
-      continue
     }
-
-    // Tolerant parsing: preserve everything else (including unknown HTML comments)
-    bodyLines.push(line)
   }
 
   // Reconstruct bodyMd from preserved lines (no trailing whitespace stripping)
-  const bodyMd = bodyLines.join('\n')
+  const bodyMd = doc.lines.filter((_, i) => !removed.has(i)).join('\n')
 
   return {
     bodyMd,
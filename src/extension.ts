@@ -2,6 +2,11 @@ import * as vscode from 'vscode'
 import { MdFeedbackPanelProvider } from './panel-provider'
 import { SyncController } from './sync-controller'
 import { registerExportCommands } from './export-commands'
+import { registerMigrationCommands } from './migration-commands'
+import { registerSidecarCommands } from './sidecar-storage'
+import { registerAnnotationDiagnostics } from './annotation-diagnostics'
+import { registerReviewStateCommands } from './review-state-commands'
+import { registerKindsRegistry } from './annotation-kinds'
 
 export function activate(context: vscode.ExtensionContext) {
   // 1. WebviewViewProvider registration
@@ -23,6 +28,21 @@ export function activate(context: vscode.ExtensionContext) {
       syncController.createManualCheckpoint()
     })
   )
+
+  // 5. Annotation format migration (legacy / v0.3 → v0.4, with diff preview)
+  registerMigrationCommands(context)
+
+  // 6. Annotation storage conversion (inline ↔ .md-feedback/ sidecar)
+  registerSidecarCommands(context)
+
+  // 7. Annotation lint diagnostics + quick fixes (Problems panel)
+  registerAnnotationDiagnostics(context)
+
+  // 8. Review lifecycle (draft → in-review → … → done, guarded by gates)
+  registerReviewStateCommands(context)
+
+  // 9. Kinds registry (.md-feedback/kinds.json) for the MCP server and CLI, written on request
+  registerKindsRegistry(context)
 }
 
 export function deactivate() {}
@@ -0,0 +1,198 @@
+import * as vscode from 'vscode'
+import { migrateAnnotations, type MigrationResult } from '../shared/format-migration'
+
+const PREVIEW_SCHEME = 'md-feedback-migration'
+
+type PendingMigration = {
+  document: vscode.TextDocument
+  result: MigrationResult
+}
+
+/** Read-only "after" side of the diff preview, keyed by the original document URI */
+class MigrationPreviewProvider implements vscode.TextDocumentContentProvider {
+  private readonly previews = new Map<string, string>()
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>()
+  readonly onDidChange = this.changeEmitter.event
+
+  set(original: vscode.Uri, content: string): vscode.Uri {
+    const uri = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: original.path, query: original.toString() })
+    this.previews.set(original.toString(), content)
+    this.changeEmitter.fire(uri)
+    return uri
+  }
+
+  clear(): void {
+    this.previews.clear()
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.previews.get(uri.query) ?? ''
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose()
+  }
+}
+
+export function registerMigrationCommands(context: vscode.ExtensionContext) {
+  const previewProvider = new MigrationPreviewProvider()
+  context.subscriptions.push(
+    previewProvider,
+    vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, previewProvider),
+    vscode.commands.registerCommand('md-feedback.migrateAnnotations', async () => {
+      try {
+        await migrate(previewProvider)
+      } finally {
+        previewProvider.clear()
+      }
+    }),
+  )
+}
+
+async function migrate(previewProvider: MigrationPreviewProvider): Promise<void> {
+  const documents = await pickDocuments()
+  if (!documents) return
+
+  const pending: PendingMigration[] = []
+  for (const document of documents) {
+    const result = migrateAnnotations(document.getText())
+    if (result.changes.length > 0) pending.push({ document, result })
+  }
+  if (pending.length === 0) {
+    vscode.window.showInformationMessage('No legacy or v0.3 annotations found — everything is already in the v0.4 format.')
+    return
+  }
+
+  const confirmed = pending.length === 1
+    ? await confirmSingle(pending[0], previewProvider)
+    : await confirmMany(pending, previewProvider)
+  if (!confirmed || confirmed.length === 0) return
+
+  const wasDirty = new Set(confirmed.filter(p => p.document.isDirty).map(p => p.document.uri.toString()))
+  const edit = new vscode.WorkspaceEdit()
+  for (const { document, result } of confirmed) {
+    edit.replace(document.uri, new vscode.Range(0, 0, document.lineCount, 0), result.markdown)
+  }
+
+  try {
+    const success = await vscode.workspace.applyEdit(edit)
+    if (!success) {
+      vscode.window.showErrorMessage('Failed to migrate annotations.')
+      return
+    }
+  } catch {
+    vscode.window.showErrorMessage('Failed to migrate annotations.')
+    return
+  }
+
+  // Save files that had no unsaved work of their own; leave the rest for the user
+  for (const { document } of confirmed) {
+    if (!wasDirty.has(document.uri.toString())) await document.save()
+  }
+
+  const memoCount = confirmed.reduce((n, p) => n + p.result.changes.filter(c => c.from !== 'wrapper').length, 0)
+  vscode.window.showInformationMessage(
+    `Migrated ${memoCount} annotation${memoCount === 1 ? '' : 's'} in ${confirmed.length} file${confirmed.length === 1 ? '' : 's'} to v0.4.`,
+  )
+}
+
+/** Current document or every markdown file in the workspace */
+async function pickDocuments(): Promise<vscode.TextDocument[] | undefined> {
+  const editor = vscode.window.activeTextEditor
+  const active = editor?.document.languageId === 'markdown' ? editor.document : undefined
+
+  let scope: 'document' | 'workspace' = 'workspace'
+  if (active) {
+    const choice = await vscode.window.showQuickPick(
+      [
+        { label: 'Current document', description: vscode.workspace.asRelativePath(active.uri), scope: 'document' as const },
+        { label: 'All markdown files in workspace', scope: 'workspace' as const },
+      ],
+      { placeHolder: 'Migrate annotations to the v0.4 format in…' },
+    )
+    if (!choice) return undefined
+    scope = choice.scope
+  }
+  if (scope === 'document' && active) return [active]
+
+  if (!vscode.workspace.workspaceFolders?.length) {
+    vscode.window.showWarningMessage('Open a workspace folder to migrate all markdown files.')
+    return undefined
+  }
+  const uris = await vscode.workspace.findFiles('**/*.md', '**/node_modules/**')
+  return Promise.all(uris.map(uri => vscode.workspace.openTextDocument(uri)))
+}
+
+function previewTitle(document: vscode.TextDocument): string {
+  return `${vscode.workspace.asRelativePath(document.uri)} → v0.4 (preview)`
+}
+
+function describe(result: MigrationResult): string {
+  const memos = result.changes.filter(c => c.from !== 'wrapper').length
+  const wrappers = result.changes.length - memos
+  return [
+    memos > 0 ? `${memos} memo${memos === 1 ? '' : 's'}` : '',
+    wrappers > 0 ? `${wrappers} legacy wrapper${wrappers === 1 ? '' : 's'} removed` : '',
+  ].filter(Boolean).join(', ')
+}
+
+async function confirmSingle(
+  migration: PendingMigration,
+  previewProvider: MigrationPreviewProvider,
+): Promise<PendingMigration[] | undefined> {
+  const { document, result } = migration
+  const previewUri = previewProvider.set(document.uri, result.markdown)
+  await vscode.commands.executeCommand('vscode.diff', document.uri, previewUri, previewTitle(document), { preview: true })
+
+  const choice = await vscode.window.showInformationMessage(
+    `Migrate ${vscode.workspace.asRelativePath(document.uri)} to v0.4 (${describe(result)})?`,
+    { modal: true },
+    'Migrate',
+  )
+  return choice === 'Migrate' ? [migration] : undefined
+}
+
+/** Pick files to migrate; the highlighted file's diff is previewed alongside the picker */
+function confirmMany(
+  pending: PendingMigration[],
+  previewProvider: MigrationPreviewProvider,
+): Promise<PendingMigration[] | undefined> {
+  type Item = vscode.QuickPickItem & { migration: PendingMigration }
+  const items: Item[] = pending.map(migration => ({
+    label: vscode.workspace.asRelativePath(migration.document.uri),
+    description: describe(migration.result),
+    picked: true,
+    migration,
+  }))
+
+  return new Promise(resolve => {
+    const picker = vscode.window.createQuickPick<Item>()
+    picker.items = items
+    picker.selectedItems = items
+    picker.canSelectMany = true
+    picker.ignoreFocusOut = true
+    picker.title = `Migrate ${pending.length} files to v0.4`
+    picker.placeholder = 'Highlight a file to preview its diff; uncheck files to skip'
+
+    let settled = false
+    const finish = (value: PendingMigration[] | undefined) => {
+      if (settled) return
+      settled = true
+      resolve(value)
+      picker.dispose()
+    }
+
+    picker.onDidChangeActive(([item]) => {
+      if (!item) return
+      const { document, result } = item.migration
+      const previewUri = previewProvider.set(document.uri, result.markdown)
+      void vscode.commands.executeCommand('vscode.diff', document.uri, previewUri, previewTitle(document), {
+        preview: true,
+        preserveFocus: true,
+      })
+    })
+    picker.onDidAccept(() => finish(picker.selectedItems.map(item => item.migration)))
+    picker.onDidHide(() => finish(undefined))
+    picker.show()
+  })
+}
@@ -1,11 +1,22 @@
 import * as vscode from 'vscode'
+import { execFile } from 'child_process'
+import * as path from 'path'
 import { convertMemosToHtml, normalizeHighlights, extractCheckpoints } from '../shared/markdown-roundtrip'
 import { createCheckpoint } from '../shared/checkpoint'
 import { buildHandoffDocument, formatHandoffMarkdown } from '../shared/handoff-generator'
 import { generateContext, TARGET_LABELS, type TargetFormat } from '../shared/context-generator'
 import { splitDocument, serializeGate, serializeCheckpoint, serializeCursor } from '../shared/document-writer'
-import { evaluateAllGates } from '../shared/gate-evaluator'
-import type { ReviewHighlight, ReviewMemo, Gate, Checkpoint, PlanCursor } from '../shared/types'
+import { blockingMemos, explainAllGates, sortGatesByDependency } from '../shared/gate-evaluator'
+import { parseAnnotations } from '../shared/annotation-parser'
+import { kindForType } from '../shared/types'
+import { restoreUnknownComments } from '../shared/unknown-comments'
+import { getReviewSettings, readReviewSettings, writeReviewSettings } from '../shared/review-settings'
+import { getTransitions } from '../shared/review-lifecycle'
+import { createGate, updateGate, deleteGate, signOffGate, type GateInput } from '../shared/gate-editing'
+import { readAnnotated, saveAnnotated, sidecarUri, watchSidecars } from './sidecar-storage'
+import { setReviewState } from './review-state-commands'
+import { getAnnotationKinds } from './annotation-kinds'
+import type { MemoV2, ReviewHighlight, ReviewMemo, ReviewSettings, Gate, Checkpoint, PlanCursor, PlanStatus, UnknownComment } from '../shared/types'
 
 export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'md-feedback.panel'
@@ -19,6 +30,7 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
   private preservedGates: Gate[] = []
   private preservedCheckpoints: Checkpoint[] = []
   private preservedCursor: PlanCursor | null = null
+  private preservedComments: UnknownComment[] = []
 
   constructor(private readonly context: vscode.ExtensionContext) {}
 
@@ -40,7 +52,7 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
   public handleDocumentUpdate(document: vscode.TextDocument): void {
     this.currentDocument = document
     if (!this._view) return
-    this.sendDocumentToWebview(document)
+    void this.sendDocumentToWebview(document)
   }
 
   resolveWebviewView(webviewView: vscode.WebviewView): void {
@@ -64,10 +76,11 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
     const messageHandler = webviewView.webview.onDidReceiveMessage(async (msg) => {
       switch (msg.type) {
         case 'webview.ready': {
+          this.postMessage({ type: 'kinds.update', kinds: getAnnotationKinds() })
           const document = this.getActiveMarkdownDocument()
           if (document) {
             this.currentDocument = document
-            this.sendDocumentToWebview(document)
+            void this.sendDocumentToWebview(document)
             const onboardingDone = this.context.globalState.get('md-feedback.onboardingDone', false)
             this.postMessage({ type: 'onboarding.state', done: onboardingDone })
           } else {
@@ -88,12 +101,9 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
           const selection = editor?.selection
           const visibleRange = editor?.visibleRanges[0]
 
-          this.editVersion += 1
-          const myVersion = this.editVersion
-          this.lastWebviewEditVersion = myVersion
-
           // Restore preserved metadata around webview content
-          let fullContent = msg.content || ''
+          // The editor has no node for other tools' HTML comments: put them back in place
+          let fullContent = restoreUnknownComments(msg.content || '', this.preservedComments)
 
           // Frontmatter restoration
           if (this.preservedFrontmatter) {
@@ -115,11 +125,25 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
             fullContent = fullContent.trimEnd() + '\n\n' + metadataSections.join('\n\n') + '\n'
           }
 
+          // Sidecar documents: annotations go to the sidecar, the file only changes with its body
+          let documentContent: string | null
+          try {
+            documentContent = await saveAnnotated(document, fullContent)
+          } catch {
+            vscode.window.showErrorMessage('Failed to save annotations to the sidecar file.')
+            break
+          }
+          if (documentContent === null) break
+
+          this.editVersion += 1
+          const myVersion = this.editVersion
+          this.lastWebviewEditVersion = myVersion
+
           const edit = new vscode.WorkspaceEdit()
           edit.replace(
             document.uri,
             new vscode.Range(0, 0, document.lineCount, 0),
-            fullContent,
+            documentContent,
           )
 
           try {
@@ -162,29 +186,39 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
           const selection = editor?.selection
           const visibleRange = editor?.visibleRanges[0]
 
-          const raw = document.getText()
-          const { checkpoint, updatedMarkdown } = createCheckpoint(raw, msg.note || '')
+          let created: { checkpoint: Checkpoint; updatedMarkdown: string }
+          let documentContent: string | null
+          try {
+            created = createCheckpoint(await readAnnotated(document), msg.note || '')
+            documentContent = await saveAnnotated(document, created.updatedMarkdown)
+          } catch {
+            vscode.window.showErrorMessage('Failed to create checkpoint.')
+            break
+          }
+          const { checkpoint, updatedMarkdown } = created
 
-          this.editVersion += 1
-          const myVersion = this.editVersion
-          this.lastWebviewEditVersion = myVersion
+          if (documentContent !== null) {
+            this.editVersion += 1
+            const myVersion = this.editVersion
+            this.lastWebviewEditVersion = myVersion
 
-          const cpEdit = new vscode.WorkspaceEdit()
-          cpEdit.replace(
-            document.uri,
-            new vscode.Range(0, 0, document.lineCount, 0),
-            updatedMarkdown,
-          )
+            const cpEdit = new vscode.WorkspaceEdit()
+            cpEdit.replace(
+              document.uri,
+              new vscode.Range(0, 0, document.lineCount, 0),
+              documentContent,
+            )
 
-          try {
-            const success = await vscode.workspace.applyEdit(cpEdit)
-            if (!success) {
+            try {
+              const success = await vscode.workspace.applyEdit(cpEdit)
+              if (!success) {
+                vscode.window.showErrorMessage('Failed to create checkpoint.')
+                break
+              }
+            } catch (error) {
               vscode.window.showErrorMessage('Failed to create checkpoint.')
               break
             }
-          } catch (error) {
-            vscode.window.showErrorMessage('Failed to create checkpoint.')
-            break
           }
 
           if (editor) {
@@ -210,7 +244,7 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
         case 'checkpoint.list': {
           const document = this.currentDocument ?? this.getActiveMarkdownDocument()
           if (!document) break
-          const checkpoints = extractCheckpoints(document.getText())
+          const checkpoints = extractCheckpoints(await readAnnotated(document))
           this.postMessage({ type: 'checkpoint.list', checkpoints })
           break
         }
@@ -221,9 +255,9 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
             vscode.window.showWarningMessage('Open a markdown file to review.')
             break
           }
-          const raw = document.getText()
+          const raw = await readAnnotated(document)
           const fp = vscode.workspace.asRelativePath(document.uri)
-          const doc = buildHandoffDocument(raw, fp)
+          const doc = buildHandoffDocument(raw, fp, getAnnotationKinds())
           const target = msg.target || 'standalone'
           const handoff = formatHandoffMarkdown(doc, target)
           this.postMessage({ type: 'handoff.result', handoff })
@@ -248,7 +282,7 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
           const highlights2 = Array.isArray(msg.highlights) ? msg.highlights as ReviewHighlight[] : []
           const docMemos2 = Array.isArray(msg.docMemos) ? msg.docMemos as ReviewMemo[] : []
 
-          const content2 = generateContext(title2, filePath2, sections2, highlights2, docMemos2, target2)
+          const content2 = generateContext(title2, filePath2, sections2, highlights2, docMemos2, target2, undefined, getAnnotationKinds(), getReviewSettings(document2.getText()).status)
           await this.autoSaveExport(document2, target2, content2)
           break
         }
@@ -264,12 +298,14 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
           const sections3 = Array.isArray(msg.sections) ? msg.sections.filter((s: unknown) => typeof s === 'string') : []
           const highlights3 = Array.isArray(msg.highlights) ? msg.highlights as ReviewHighlight[] : []
           const docMemos3 = Array.isArray(msg.docMemos) ? msg.docMemos as ReviewMemo[] : []
+          const kinds3 = getAnnotationKinds()
+          const status3 = getReviewSettings(document3.getText()).status
 
           const allTargets: TargetFormat[] = ['claude-code', 'cursor', 'codex', 'copilot', 'cline', 'windsurf', 'roo-code', 'gemini', 'antigravity']
           const saved: string[] = []
 
           for (const t of allTargets) {
-            const content3 = generateContext(title3, filePath3, sections3, highlights3, docMemos3, t)
+            const content3 = generateContext(title3, filePath3, sections3, highlights3, docMemos3, t, undefined, kinds3, status3)
             const ok = await this.autoSaveExport(document3, t, content3, true)
             if (ok) saved.push(TARGET_LABELS[t].file)
           }
@@ -309,6 +345,8 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
           const pickSections = Array.isArray(msg.sections) ? msg.sections.filter((s: unknown) => typeof s === 'string') : []
           const pickHighlights = Array.isArray(msg.highlights) ? msg.highlights as ReviewHighlight[] : []
           const pickMemos = Array.isArray(msg.docMemos) ? msg.docMemos as ReviewMemo[] : []
+          const pickKinds = getAnnotationKinds()
+          const pickStatus = getReviewSettings(document4.getText()).status
 
           type PickItem = vscode.QuickPickItem & { target?: string }
           const pickItems: PickItem[] = [
@@ -328,6 +366,16 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
             { label: 'Handoff Document', description: 'HANDOFF.md', target: 'handoff' },
           ]
 
+          // The plan's default targets (frontmatter review.exportTargets) go first
+          const planTargets = readReviewSettings(splitDocument(document4.getText()).frontmatter).settings.exportTargets
+          const planItems = planTargets.flatMap(t => pickItems.filter(i => i.target === t))
+          if (planItems.length > 0) {
+            pickItems.unshift(
+              ...planItems.map(i => ({ ...i, description: `${i.description} · plan default` })),
+              { label: '', kind: vscode.QuickPickItemKind.Separator },
+            )
+          }
+
           const picked = await vscode.window.showQuickPick(pickItems, {
             placeHolder: 'Select export target (or Export All)',
             title: 'MD Feedback — Export',
@@ -335,11 +383,27 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
 
           if (!picked?.target) break
 
+          // Optional label scope — only offered when memos actually carry labels
+          let pickLabels: string[] | undefined
+          const allLabels = [...new Set(pickMemos.flatMap(m => m.labels || []))].sort()
+          if (picked.target !== 'handoff' && allLabels.length > 0) {
+            const scoped = await vscode.window.showQuickPick(
+              allLabels.map(l => ({ label: l })),
+              {
+                canPickMany: true,
+                placeHolder: 'Scope export to labels (select none to export everything)',
+                title: 'MD Feedback — Export by Label',
+              },
+            )
+            if (!scoped) break
+            pickLabels = scoped.length > 0 ? scoped.map(s => s.label) : undefined
+          }
+
           if (picked.target === 'all') {
             const allTargets: TargetFormat[] = ['claude-code', 'cursor', 'codex', 'copilot', 'cline', 'windsurf', 'roo-code', 'gemini', 'antigravity']
             const saved: string[] = []
             for (const t of allTargets) {
-              const c = generateContext(pickTitle, pickFilePath, pickSections, pickHighlights, pickMemos, t)
+              const c = generateContext(pickTitle, pickFilePath, pickSections, pickHighlights, pickMemos, t, pickLabels, pickKinds, pickStatus)
               const ok = await this.autoSaveExport(document4, t, c, true)
               if (ok) saved.push(TARGET_LABELS[t].file)
             }
@@ -349,12 +413,12 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
               this.postMessage({ type: 'export.saved', message })
             }
           } else if (picked.target === 'generic') {
-            const c = generateContext(pickTitle, pickFilePath, pickSections, pickHighlights, pickMemos, 'generic')
+            const c = generateContext(pickTitle, pickFilePath, pickSections, pickHighlights, pickMemos, 'generic', pickLabels, pickKinds, pickStatus)
             await this.handleGenericExport({ title: pickTitle, filePath: pickFilePath, sections: pickSections, highlights: pickHighlights, docMemos: pickMemos, content: c })
           } else if (picked.target === 'handoff') {
-            const raw = document4.getText()
+            const raw = await readAnnotated(document4)
             const fp = vscode.workspace.asRelativePath(document4.uri)
-            const doc = buildHandoffDocument(raw, fp)
+            const doc = buildHandoffDocument(raw, fp, getAnnotationKinds())
             const handoff = formatHandoffMarkdown(doc, 'standalone')
             const uri = await vscode.window.showSaveDialog({
               defaultUri: vscode.Uri.file('HANDOFF.md'),
@@ -375,12 +439,143 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
             }
           } else {
             const t = picked.target as TargetFormat
-            const c = generateContext(pickTitle, pickFilePath, pickSections, pickHighlights, pickMemos, t)
+            const c = generateContext(pickTitle, pickFilePath, pickSections, pickHighlights, pickMemos, t, pickLabels, pickKinds, pickStatus)
             await this.autoSaveExport(document4, t, c)
           }
           break
         }
 
+        case 'settings.save': {
+          const document = this.currentDocument ?? this.getActiveMarkdownDocument()
+          if (!document) {
+            vscode.window.showWarningMessage('Open a markdown file to review.')
+            break
+          }
+          // Frontmatter lives in the markdown file in both inline and sidecar storage
+          // The review state only moves through review.transition, which checks the gates
+          const frontmatter = splitDocument(document.getText()).frontmatter
+          const { status } = readReviewSettings(frontmatter).settings
+          const updated = writeReviewSettings(frontmatter, { ...msg.settings as ReviewSettings, status })
+          if (updated !== frontmatter) {
+            this.editVersion += 1
+            this.lastWebviewEditVersion = this.editVersion
+            const edit = new vscode.WorkspaceEdit()
+            edit.replace(document.uri, new vscode.Range(document.positionAt(0), document.positionAt(frontmatter.length)), updated)
+            try {
+              if (!(await vscode.workspace.applyEdit(edit))) throw new Error('edit rejected')
+            } catch {
+              vscode.window.showErrorMessage('Failed to save review settings.')
+              break
+            }
+            this.preservedFrontmatter = updated
+          }
+          this.postMessage({ type: 'settings.update', ...readReviewSettings(updated) })
+          break
+        }
+
+        case 'review.transition': {
+          const document = this.currentDocument ?? this.getActiveMarkdownDocument()
+          if (!document) {
+            vscode.window.showWarningMessage('Open a markdown file to review.')
+            break
+          }
+          let raw: string
+          try {
+            raw = await readAnnotated(document)
+          } catch {
+            vscode.window.showErrorMessage('Failed to update the review state.')
+            break
+          }
+          this.editVersion += 1
+          this.lastWebviewEditVersion = this.editVersion
+          const error = await setReviewState(document, raw, msg.to as PlanStatus)
+          if (error) {
+            this.lastWebviewEditVersion = 0
+            vscode.window.showWarningMessage(error)
+            break
+          }
+          this.preservedFrontmatter = splitDocument(document.getText()).frontmatter
+          readAnnotated(document).then(updated => this.sendStatusInfo(updated), () => { /* malformed sidecar — reported on load */ })
+          break
+        }
+
+        case 'gate.fromTemplate': {
+          const document = this.currentDocument ?? this.getActiveMarkdownDocument()
+          if (!document) {
+            vscode.window.showWarningMessage('Open a markdown file to review.')
+            break
+          }
+          try {
+            const raw = await readAnnotated(document)
+            const parts = splitDocument(raw)
+            const template = readReviewSettings(parts.frontmatter).settings.gateTemplates.find(t => t.id === msg.templateId)
+            if (!template) break
+            if (parts.gates.some(g => g.id === template.id)) {
+              vscode.window.showInformationMessage(`Gate "${template.id}" is already in this document.`)
+              break
+            }
+            const result = createGate(raw, template, getAnnotationKinds())
+            if ('error' in result) {
+              vscode.window.showWarningMessage(result.error)
+              break
+            }
+            if (!(await this.saveGateEdit(document, result.markdown))) throw new Error('edit rejected')
+          } catch {
+            vscode.window.showErrorMessage('Failed to add gate.')
+          }
+          break
+        }
+
+        case 'gate.save':
+        case 'gate.delete': {
+          const document = this.currentDocument ?? this.getActiveMarkdownDocument()
+          if (!document) {
+            vscode.window.showWarningMessage('Open a markdown file to review.')
+            break
+          }
+          // The gate editor stays open until it hears back, so it can show why a save was refused
+          let error: string | null = null
+          try {
+            const raw = await readAnnotated(document)
+            const kinds = getAnnotationKinds()
+            const result = msg.type === 'gate.delete' ? deleteGate(raw, msg.id as string, kinds)
+              : msg.originalId ? updateGate(raw, msg.originalId as string, msg.gate as GateInput, kinds)
+              : createGate(raw, msg.gate as GateInput, kinds)
+            if ('error' in result) error = result.error
+            else if (!(await this.saveGateEdit(document, result.markdown))) error = 'Failed to save the gate.'
+          } catch {
+            error = 'Failed to save the gate.'
+          }
+          this.postMessage({ type: 'gate.result', error })
+          break
+        }
+
+        case 'gate.signoff': {
+          const document = this.currentDocument ?? this.getActiveMarkdownDocument()
+          if (!document) {
+            vscode.window.showWarningMessage('Open a markdown file to review.')
+            break
+          }
+          // Sign-offs are recorded here (and by a person running the CLI), never over MCP
+          const signer = await gitIdentity(document)
+          if (!signer) {
+            vscode.window.showWarningMessage('Set `git config user.name` (and user.email) to sign off gates.')
+            break
+          }
+          try {
+            const result = signOffGate(await readAnnotated(document), msg.id as string, signer, getAnnotationKinds())
+            if ('error' in result) {
+              vscode.window.showWarningMessage(result.error)
+              break
+            }
+            if (!(await this.saveGateEdit(document, result.markdown))) throw new Error('edit rejected')
+            vscode.window.showInformationMessage(`Signed off gate "${result.gate.id}" as ${signer.name}.`)
+          } catch {
+            vscode.window.showErrorMessage('Failed to record the sign-off.')
+          }
+          break
+        }
+
         case 'onboarding.dismiss': {
           await this.context.globalState.update('md-feedback.onboardingDone', true)
           break
@@ -406,10 +601,27 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
         this.lastWebviewEditVersion = 0
         return
       }
-      this.sendDocumentToWebview(document)
+      void this.sendDocumentToWebview(document)
     })
     disposables.push(changeHandler)
 
+    // Sidecar edited outside the panel (MCP server, git checkout, conversion)
+    const sidecarHandler = watchSidecars((uri) => {
+      const document = this.currentDocument
+      if (!document || sidecarUri(document.uri).toString() !== uri.toString()) return
+      void this.sendDocumentToWebview(document)
+    })
+    disposables.push(sidecarHandler)
+
+    const configHandler = vscode.workspace.onDidChangeConfiguration((e) => {
+      if (!e.affectsConfiguration('md-feedback.annotationKinds')) return
+      this.postMessage({ type: 'kinds.update', kinds: getAnnotationKinds() })
+      if (this.currentDocument) {
+        readAnnotated(this.currentDocument).then(raw => this.sendStatusInfo(raw), () => { /* malformed sidecar — reported on load */ })
+      }
+    })
+    disposables.push(configHandler)
+
     const disposeHandler = webviewView.onDidDispose(() => {
       if (MdFeedbackPanelProvider.activePanel === this) {
         MdFeedbackPanelProvider.activePanel = null
@@ -422,10 +634,28 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
     disposables.push(disposeHandler)
   }
 
-  private sendDocumentToWebview(document: vscode.TextDocument): void {
-    const raw = document.getText()
+  /**
+   * Write a gate edit (annotated markdown from shared/gate-editing). preservedGates
+   * follow right away, so a webview save arriving before the reload keeps the edit.
+   */
+  private async saveGateEdit(document: vscode.TextDocument, annotated: string): Promise<boolean> {
+    const content = await saveAnnotated(document, annotated)
+    this.preservedGates = splitDocument(annotated).gates
+    if (content === null) {
+      // Sidecar document: only the sidecar changed
+      void this.sendDocumentToWebview(document)
+      return true
+    }
+    const edit = new vscode.WorkspaceEdit()
+    edit.replace(document.uri, new vscode.Range(0, 0, document.lineCount, 0), content)
+    return vscode.workspace.applyEdit(edit)
+  }
+
+  private async sendDocumentToWebview(document: vscode.TextDocument): Promise<void> {
+    let raw = document.getText()
 
     try {
+      raw = await readAnnotated(document)
       const parts = splitDocument(raw)
 
       // Preserve metadata for restoration on save
@@ -433,6 +663,7 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
       this.preservedGates = parts.gates
       this.preservedCheckpoints = parts.checkpoints
       this.preservedCursor = parts.cursor
+      this.preservedComments = parts.unknownComments
 
       // Strip frontmatter before processing (keep memos for convertMemosToHtml)
       let processed = raw
@@ -463,30 +694,56 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
     }
   }
 
-  /** Extract and send cursor + status summary to webview */
+  /** Extract and send cursor, status summary, review settings and review state to webview */
   private sendStatusInfo(raw: string): void {
     try {
       const parts = splitDocument(raw)
-      const gates = evaluateAllGates(parts.gates, parts.memos)
+      const kinds = getAnnotationKinds()
+      const { headings, tasks } = parseAnnotations(parts.body)
+      const evaluations = explainAllGates(parts.gates, parts.memos, kinds, headings, tasks)
+      const gates = parts.gates.map((gate, i) => ({ ...gate, status: evaluations[i].status }))
 
       // Send cursor
       this.postMessage({ type: 'cursor.update', cursor: parts.cursor })
 
-      // Send status summary
-      const openFixes = parts.memos.filter(m => m.type === 'fix' && m.status === 'open').length
-      const openQuestions = parts.memos.filter(m => m.type === 'question' && m.status === 'open').length
-      const blockedGate = gates.find(g => g.status === 'blocked')
-      const allGatesDone = gates.length > 0 && gates.every(g => g.status === 'done')
+      // Send frontmatter review settings (with any problems found in them) and the review state's next moves
+      const review = readReviewSettings(parts.frontmatter)
+      this.postMessage({ type: 'settings.update', ...review })
+      this.postMessage({ type: 'review.state', status: review.settings.status, transitions: getTransitions(review.settings.status, gates) })
+
+      // Send status summary: open memos per kind, registry order
+      const open = kinds
+        .map(kind => ({
+          type: kind.type,
+          label: kind.label,
+          accent: kind.accent,
+          blocking: kind.blocking,
+          count: parts.memos.filter(m => m.status === 'open' && kindForType(m.type, kinds).type === kind.type).length,
+        }))
+        .filter(k => k.count > 0 && k.type !== 'highlight')
+
+      // Send gates in dependency order for the pipeline (and the badges of section-scoped gates),
+      // each with why it is not done and the memos holding it, plus the memos the gate editor can pick
+      const gateMemo = (m: MemoV2) => ({ id: m.id, type: m.type, status: m.status, text: m.text.split('\n')[0] })
+      this.postMessage({
+        type: 'gates.update',
+        gates: sortGatesByDependency(gates.map((gate, i) => ({
+          ...gate,
+          scope: gate.scope ?? null,
+          dependsOn: gate.dependsOn ?? [],
+          reason: evaluations[i].reason,
+          blocking: gate.status === 'done' ? [] : blockingMemos(parts.gates[i], parts.memos, kinds, headings).map(gateMemo),
+        }))),
+        memos: parts.memos.map(gateMemo),
+      })
 
-      const gateStatus = gates.length === 0 ? null
-        : blockedGate ? 'blocked'
-        : allGatesDone ? 'done'
-        : 'proceed'
+      // Task-list progress across the plan
+      const taskProgress = { done: tasks.filter(t => t.checked).length, total: tasks.length }
 
-      if (parts.memos.length > 0 || gates.length > 0) {
+      if (parts.memos.length > 0 || gates.length > 0 || tasks.length > 0) {
         this.postMessage({
           type: 'status.summary',
-          summary: { openFixes, openQuestions, gateStatus },
+          summary: { open, tasks: taskProgress },
         })
       }
     } catch {
@@ -591,7 +848,7 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
 
     const content = typeof msg.content === 'string'
       ? msg.content
-      : generateContext(title, filePath, sections, highlights, docMemos, 'generic' as TargetFormat)
+      : generateContext(title, filePath, sections, highlights, docMemos, 'generic' as TargetFormat, undefined, getAnnotationKinds(), getReviewSettings(document.getText()).status)
 
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
     const filename = `generic-review-${timestamp}.md`
@@ -666,6 +923,16 @@ export class MdFeedbackPanelProvider implements vscode.WebviewViewProvider {
   }
 }
 
+/** The git user (user.name / user.email) of the document's workspace, or null when no name is set */
+async function gitIdentity(document: vscode.TextDocument): Promise<{ name: string; email: string } | null> {
+  const cwd = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath ?? path.dirname(document.uri.fsPath)
+  const config = (key: string) => new Promise<string>(resolve => {
+    execFile('git', ['config', key], { cwd, timeout: 5000, encoding: 'utf8' }, (err: Error | null, stdout: string) => resolve(err ? '' : stdout.trim()))
+  })
+  const [name, email] = await Promise.all([config('user.name'), config('user.email')])
+  return name ? { name, email } : null
+}
+
 function getNonce(): string {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
   let nonce = ''
@@ -0,0 +1,71 @@
+import * as vscode from 'vscode'
+import { getReviewState, transitionReview } from '../shared/review-lifecycle'
+import { splitDocument } from '../shared/document-writer'
+import { PLAN_STATUS_LABELS, type PlanStatus } from '../shared/types'
+import { readAnnotated } from './sidecar-storage'
+import { getAnnotationKinds } from './annotation-kinds'
+
+export function registerReviewStateCommands(context: vscode.ExtensionContext) {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('md-feedback.setReviewState', () => pickReviewState()),
+  )
+}
+
+async function pickReviewState(): Promise<void> {
+  const editor = vscode.window.activeTextEditor
+  if (!editor || editor.document.languageId !== 'markdown') {
+    vscode.window.showWarningMessage('Open a markdown file to review.')
+    return
+  }
+  const document = editor.document
+
+  let raw: string
+  try {
+    raw = await readAnnotated(document)
+  } catch (err) {
+    vscode.window.showErrorMessage(`Cannot read annotations: ${err instanceof Error ? err.message : String(err)}`)
+    return
+  }
+  const { status, transitions } = getReviewState(raw, getAnnotationKinds())
+
+  type PickItem = vscode.QuickPickItem & { to: PlanStatus; blockedBy: string | null }
+  const picked = await vscode.window.showQuickPick<PickItem>(
+    transitions.map(t => ({
+      label: `${t.blockedBy ? '$(lock)' : '$(arrow-right)'} ${PLAN_STATUS_LABELS[t.to]}`,
+      description: t.blockedBy ?? undefined,
+      to: t.to,
+      blockedBy: t.blockedBy,
+    })),
+    {
+      title: 'MD Feedback — Review State',
+      placeHolder: `Currently ${PLAN_STATUS_LABELS[status].toLowerCase()} — move to…`,
+    },
+  )
+  if (!picked) return
+  if (picked.blockedBy) {
+    vscode.window.showWarningMessage(`Cannot move to ${PLAN_STATUS_LABELS[picked.to].toLowerCase()}: ${picked.blockedBy}.`)
+    return
+  }
+
+  const error = await setReviewState(document, raw, picked.to)
+  if (error) vscode.window.showWarningMessage(error)
+}
+
+/**
+ * Move the document's review to `to`, rewriting only its frontmatter (which stays in
+ * the markdown file in sidecar mode too). Returns why it failed, or null.
+ */
+export async function setReviewState(document: vscode.TextDocument, annotated: string, to: PlanStatus): Promise<string | null> {
+  const result = transitionReview(annotated, to, getAnnotationKinds())
+  if ('error' in result) return `Cannot move to ${PLAN_STATUS_LABELS[to].toLowerCase()}: ${result.error}.`
+
+  const current = splitDocument(document.getText()).frontmatter
+  const edit = new vscode.WorkspaceEdit()
+  edit.replace(document.uri, new vscode.Range(document.positionAt(0), document.positionAt(current.length)), result.frontmatter)
+  try {
+    if (!(await vscode.workspace.applyEdit(edit))) return 'Failed to update the review state.'
+  } catch {
+    return 'Failed to update the review state.'
+  }
+  return null
+}
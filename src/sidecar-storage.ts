@@ -0,0 +1,137 @@
+import * as vscode from 'vscode'
+import {
+  SIDECAR_DIR, sidecarPath, parseSidecar, serializeSidecar,
+  attachSidecar, detachSidecar, sameBody, type SidecarFile,
+} from '../shared/sidecar'
+
+// Last content this extension wrote per sidecar, so watchers can ignore their own writes
+const ownWrites = new Map<string, string>()
+
+export function sidecarUri(documentUri: vscode.Uri): vscode.Uri {
+  return documentUri.with({ path: sidecarPath(documentUri.path) })
+}
+
+/** The document's sidecar, or null when it stores annotations inline */
+export async function readSidecar(documentUri: vscode.Uri): Promise<SidecarFile | null> {
+  let bytes: Uint8Array
+  try {
+    bytes = await vscode.workspace.fs.readFile(sidecarUri(documentUri))
+  } catch {
+    return null
+  }
+  return parseSidecar(Buffer.from(bytes).toString('utf-8'))
+}
+
+async function writeSidecar(documentUri: vscode.Uri, sidecar: SidecarFile): Promise<void> {
+  const uri = sidecarUri(documentUri)
+  const text = serializeSidecar(sidecar)
+  ownWrites.set(uri.toString(), text)
+  await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'))
+  await vscode.workspace.fs.writeFile(uri, Buffer.from(text, 'utf-8'))
+}
+
+/** Document text with sidecar annotations merged in — the inline form the panel works on */
+export async function readAnnotated(document: vscode.TextDocument): Promise<string> {
+  const sidecar = await readSidecar(document.uri)
+  return sidecar ? attachSidecar(document.getText(), sidecar) : document.getText()
+}
+
+/**
+ * Store annotated markdown for a document. Returns the text to put in the document,
+ * or null when nothing there needs to change: in sidecar mode the annotations are
+ * written to the sidecar and the document is only edited when its body changed.
+ */
+export async function saveAnnotated(document: vscode.TextDocument, annotated: string): Promise<string | null> {
+  if (!(await readSidecar(document.uri))) return annotated
+  const { markdown, sidecar } = detachSidecar(annotated)
+  await writeSidecar(document.uri, sidecar)
+  return sameBody(document.getText(), markdown) ? null : markdown
+}
+
+/** Fire `onChange` with the sidecar URI when a sidecar changes on disk (e.g. from the MCP server) */
+export function watchSidecars(onChange: (uri: vscode.Uri) => void): vscode.Disposable {
+  const watcher = vscode.workspace.createFileSystemWatcher(`**/${SIDECAR_DIR}/*.json`)
+  const handle = async (uri: vscode.Uri) => {
+    try {
+      const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8')
+      if (ownWrites.get(uri.toString()) === text) return
+    } catch {
+      // deleted — the document is back to inline storage
+    }
+    onChange(uri)
+  }
+  return vscode.Disposable.from(
+    watcher,
+    watcher.onDidChange(handle),
+    watcher.onDidCreate(handle),
+    watcher.onDidDelete(handle),
+  )
+}
+
+// ─── Conversion commands ───
+
+export function registerSidecarCommands(context: vscode.ExtensionContext) {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('md-feedback.convertToSidecar', () => convert('sidecar')),
+    vscode.commands.registerCommand('md-feedback.convertToInline', () => convert('inline')),
+  )
+}
+
+async function convert(to: 'sidecar' | 'inline'): Promise<void> {
+  const editor = vscode.window.activeTextEditor
+  if (!editor || editor.document.languageId !== 'markdown') {
+    vscode.window.showWarningMessage('Open a markdown file to review.')
+    return
+  }
+  const document = editor.document
+  const name = vscode.workspace.asRelativePath(document.uri)
+
+  let sidecar: SidecarFile | null
+  try {
+    sidecar = await readSidecar(document.uri)
+  } catch (err) {
+    vscode.window.showErrorMessage(`Cannot read sidecar for ${name}: ${err instanceof Error ? err.message : String(err)}`)
+    return
+  }
+  if (to === 'sidecar' && sidecar) {
+    vscode.window.showInformationMessage(`${name} already stores annotations in ${SIDECAR_DIR}/.`)
+    return
+  }
+  if (to === 'inline' && !sidecar) {
+    vscode.window.showInformationMessage(`${name} already stores annotations inline.`)
+    return
+  }
+
+  const wasDirty = document.isDirty
+  let content: string
+  if (to === 'sidecar') {
+    const detached = detachSidecar(document.getText())
+    await writeSidecar(document.uri, detached.sidecar)
+    content = detached.markdown
+  } else {
+    content = attachSidecar(document.getText(), sidecar!)
+  }
+
+  const edit = new vscode.WorkspaceEdit()
+  edit.replace(document.uri, new vscode.Range(0, 0, document.lineCount, 0), content)
+  try {
+    const success = await vscode.workspace.applyEdit(edit)
+    if (!success) {
+      vscode.window.showErrorMessage('Failed to convert annotation storage.')
+      return
+    }
+  } catch {
+    vscode.window.showErrorMessage('Failed to convert annotation storage.')
+    return
+  }
+  if (!wasDirty) await document.save()
+
+  if (to === 'inline') {
+    const uri = sidecarUri(document.uri)
+    ownWrites.delete(uri.toString())
+    await vscode.workspace.fs.delete(uri)
+    vscode.window.showInformationMessage(`${name}: annotations moved back into the file.`)
+  } else {
+    vscode.window.showInformationMessage(`${name}: annotations moved to ${vscode.workspace.asRelativePath(sidecarUri(document.uri))}.`)
+  }
+}
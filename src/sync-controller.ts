@@ -2,9 +2,12 @@ import * as vscode from 'vscode'
 import { MdFeedbackPanelProvider } from './panel-provider'
 import { createCheckpoint } from '../shared/checkpoint'
 import { extractCheckpoints } from '../shared/markdown-roundtrip'
+import { getReviewSettings } from '../shared/review-settings'
+import { readAnnotated, saveAnnotated } from './sidecar-storage'
 
 type DocumentState = {
   lastActivity: number
+  lastCheckpoint: number
   hasChanges: boolean
 }
 
@@ -50,9 +53,10 @@ export class SyncController implements vscode.Disposable {
     })
     this.disposables.push(changeHandler)
 
+    // Each plan sets its own interval (frontmatter review.autoCheckpoint); check every minute
     this.checkpointTimer = setInterval(() => {
       void this.handleTimerCheckpoint()
-    }, 600_000)
+    }, 60_000)
 
     this.webviewPollTimer = setInterval(() => {
       this.attachWebviewListener()
@@ -85,7 +89,11 @@ export class SyncController implements vscode.Disposable {
 
     if (note === undefined) return
 
-    const raw = document.getText()
+    const raw = await readAnnotated(document).catch(() => null)
+    if (raw === null) {
+      vscode.window.showErrorMessage('Failed to create checkpoint.')
+      return
+    }
     const { checkpoint, updatedMarkdown } = createCheckpoint(raw, note || '')
     const success = await this.applyCheckpointEdit(document, updatedMarkdown, 'Failed to create checkpoint.')
     if (!success) return
@@ -151,6 +159,7 @@ export class SyncController implements vscode.Disposable {
   private async handleFirstAnnotationCheckpoint(): Promise<void> {
     const document = this.currentDocument() ?? this.getActiveMarkdownDocument()
     if (!document) return
+    if (!getReviewSettings(document.getText()).autoCheckpoint.onFirstAnnotation) return
     await this.createAutoCheckpoint(document, 'first-annotation')
   }
 
@@ -161,6 +170,8 @@ export class SyncController implements vscode.Disposable {
     const key = document.uri.toString()
     const state = this.docStates.get(key)
     if (!state || !state.hasChanges) return
+    const { intervalMinutes } = getReviewSettings(document.getText()).autoCheckpoint
+    if (intervalMinutes <= 0 || Date.now() - state.lastCheckpoint < intervalMinutes * 60_000) return
 
     await this.createAutoCheckpoint(document, 'timer')
   }
@@ -169,7 +180,8 @@ export class SyncController implements vscode.Disposable {
     document: vscode.TextDocument,
     reason: 'first-annotation' | 'timer',
   ): Promise<void> {
-    const raw = document.getText()
+    const raw = await readAnnotated(document).catch(() => null)
+    if (raw === null) return
     const { checkpoint, updatedMarkdown } = createCheckpoint(raw, 'auto')
     const success = await this.applyCheckpointEdit(document, updatedMarkdown, 'Failed to create auto checkpoint.')
     if (!success) return
@@ -192,11 +204,21 @@ export class SyncController implements vscode.Disposable {
     const selection = editor?.selection
     const visibleRange = editor?.visibleRanges[0]
 
+    // Sidecar documents only change on disk in .md-feedback/
+    let content: string | null
+    try {
+      content = await saveAnnotated(document, updatedMarkdown)
+    } catch {
+      vscode.window.showErrorMessage(errorMessage)
+      return false
+    }
+    if (content === null) return true
+
     const edit = new vscode.WorkspaceEdit()
     edit.replace(
       document.uri,
       new vscode.Range(0, 0, document.lineCount, 0),
-      updatedMarkdown,
+      content,
     )
 
     try {
@@ -228,7 +250,7 @@ export class SyncController implements vscode.Disposable {
     const key = uri.toString()
     const existing = this.docStates.get(key)
     if (existing) return existing
-    const state: DocumentState = { lastActivity: Date.now(), hasChanges: false }
+    const state: DocumentState = { lastActivity: Date.now(), lastCheckpoint: Date.now(), hasChanges: false }
     this.docStates.set(key, state)
     return state
   }
@@ -242,6 +264,7 @@ export class SyncController implements vscode.Disposable {
   private clearChanges(uri: vscode.Uri): void {
     const state = this.ensureState(uri)
     state.lastActivity = Date.now()
+    state.lastCheckpoint = Date.now()
     state.hasChanges = false
   }
 
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { createTextAnchor, findExactQuote, findFuzzyQuote } from '../shared/anchor-matcher'
+
+describe('createTextAnchor', () => {
+  it('keeps context only for an ambiguous quote', () => {
+    const body = 'alpha beta gamma'
+    expect(createTextAnchor(body, 6, 10)).toEqual({ start: 6, end: 10, prefix: '', suffix: '' })
+
+    const twice = 'see the note here, then the note there'
+    const second = twice.lastIndexOf('the note')
+    const anchor = createTextAnchor(twice, second, second + 8)
+    expect(anchor.prefix).toBe(twice.slice(second - 16, second))
+    expect(anchor.suffix).toBe(' there')
+  })
+})
+
+describe('findExactQuote', () => {
+  it('uses the stored range while it still holds the quote', () => {
+    const body = 'one two one two'
+    expect(findExactQuote(body, 'two', { start: 12, end: 15, prefix: '', suffix: '' })).toEqual({ start: 12, end: 15, errors: 0 })
+  })
+
+  it('follows the context after text is inserted before the quote', () => {
+    const body = 'see the note here, then the note there'
+    const second = body.lastIndexOf('the note')
+    const anchor = createTextAnchor(body, second, second + 8)
+    const edited = `Preface. ${body}`
+    expect(findExactQuote(edited, 'the note', anchor)?.start).toBe(edited.lastIndexOf('the note'))
+  })
+
+  it('returns null when the quote is gone', () => {
+    expect(findExactQuote('nothing here', 'missing')).toBeNull()
+  })
+})
+
+describe('findFuzzyQuote', () => {
+  it('finds a lightly edited quote', () => {
+    const body = 'Intro.\n\nThe parser must handle fenced blocks.\n'
+    const match = findFuzzyQuote(body, 'The parser should handle fenced blocks.')
+    expect(match).not.toBeNull()
+    expect(body.slice(match!.start, match!.end)).toContain('handle fenced blocks')
+    expect(match!.errors).toBeGreaterThan(0)
+  })
+
+  it('gives up on a rewritten quote', () => {
+    expect(findFuzzyQuote('Completely different text here.', 'The parser should handle fenced blocks.')).toBeNull()
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { applyLintFixes, lintAnnotations } from '../shared/annotation-linter'
+
+const BROKEN = [
+  '# Plan',
+  '',
+  'Text.',
+  '<!-- USER_MEMO',
+  '  id="x1"',
+  '  type="fix"',
+  '  status="bogus"',
+  '  color="red"',
+  '  text="t"',
+  '  anchorText="Text."',
+  '  anchor="L3|00000000"',
+  '  colour="red"',
+  '-->',
+  '<!-- GATE',
+  '  id="g1"',
+  '  type="merge"',
+  '  status="blocked"',
+  '  blockedBy="x1,zz"',
+  '  canProceedIf="fix.open == 0"',
+  '  doneDefinition="Merged"',
+  '-->',
+  '',
+].join('\n')
+
+describe('lintAnnotations', () => {
+  it('reports bad values, unknown attributes and dangling references with their lines', () => {
+    expect(lintAnnotations(BROKEN).map(i => [i.code, i.line])).toEqual([
+      ['invalid-value', 6],
+      ['unknown-attribute', 11],
+      ['dangling-reference', 17],
+    ])
+  })
+
+  it('reports a block that never closes', () => {
+    const issues = lintAnnotations('Text.\n<!-- USER_MEMO\n  id="x1"\n  text="t"\n')
+    expect(issues.map(i => i.code)).toContain('unterminated-block')
+  })
+})
+
+describe('applyLintFixes', () => {
+  it('applies every fix and leaves only the issues it cannot fix', () => {
+    const fixes = lintAnnotations(BROKEN).flatMap(i => i.fix ? [i.fix] : [])
+    const { markdown, applied } = applyLintFixes(BROKEN, fixes)
+    expect(applied).toBe(3)
+    expect(markdown).toContain('  status="open"')
+    expect(markdown).not.toContain('colour=')
+    expect(markdown).toContain('  blockedBy="x1"')
+    // The open fix memo still blocks the gate: a real finding, not a format error
+    expect(lintAnnotations(markdown).map(i => i.code)).toEqual(['unmet-condition'])
+  })
+
+  it('leaves lines outside the fixed blocks untouched', () => {
+    const fixes = lintAnnotations(BROKEN).flatMap(i => i.fix ? [i.fix] : [])
+    const { markdown } = applyLintFixes(BROKEN, fixes)
+    expect(markdown.split('\n').slice(0, 5)).toEqual(BROKEN.split('\n').slice(0, 5))
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { parseAnnotations } from '../shared/annotation-parser'
+import { migrateAnnotations } from '../shared/format-migration'
+import type { MemoNode } from '../shared/annotation-parser'
+
+const MIXED = [
+  '# Plan',
+  '',
+  'Do the thing.',
+  '<!-- USER_MEMO id="a1" color="red" : fix this -->',
+  '',
+  'Think it over.',
+  '<!-- @memo id="b1" color="blue" date="2025-01-01T00:00:00.000Z" -->',
+  'Why this way?',
+  '<!-- @/memo -->',
+  '',
+  '~~~',
+  '<!-- USER_MEMO id="c1" color="red" : in a fence -->',
+  '## In a fence',
+  '~~~',
+].join('\n')
+
+const memoBlocks = (md: string) => parseAnnotations(md).blocks.filter((b): b is MemoNode => b.type === 'memo')
+
+describe('parseAnnotations', () => {
+  it('reads v0.3 and legacy memos', () => {
+    expect(memoBlocks(MIXED).map(b => [b.memo.id, b.format, b.memo.text])).toEqual([
+      ['a1', 'v3', 'fix this'],
+      ['b1', 'legacy', 'Why this way?'],
+    ])
+  })
+
+  it('ignores memos and headings inside fences', () => {
+    const doc = parseAnnotations(MIXED)
+    expect(doc.headings.map(h => h.text)).toEqual(['Plan'])
+    expect(memoBlocks(MIXED).map(b => b.memo.id)).not.toContain('c1')
+  })
+
+  it('gives 0-based line ranges', () => {
+    const legacy = memoBlocks(MIXED).find(b => b.memo.id === 'b1')!
+    expect([legacy.range.startLine, legacy.range.endLine]).toEqual([6, 8])
+  })
+})
+
+describe('migrateAnnotations', () => {
+  it('rewrites v0.3 and legacy memos as v0.4 blocks and nothing else', () => {
+    const { markdown, changes } = migrateAnnotations(MIXED)
+    expect(changes.map(c => [c.memoId, c.from, c.line])).toEqual([['a1', 'v3', 4], ['b1', 'legacy', 7]])
+    expect(memoBlocks(markdown).map(b => [b.memo.id, b.format, b.memo.text])).toEqual([
+      ['a1', 'v4', 'fix this'],
+      ['b1', 'v4', 'Why this way?'],
+    ])
+    expect(markdown).toContain('~~~\n<!-- USER_MEMO id="c1" color="red" : in a fence -->\n## In a fence\n~~~')
+  })
+
+  it('leaves a v0.4 file unchanged', () => {
+    const once = migrateAnnotations(MIXED).markdown
+    expect(migrateAnnotations(once)).toEqual({ markdown: once, changes: [] })
+  })
+})
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest'
+import { mergeDocument, resolveAnchor, serializeGate, splitDocument } from '../shared/document-writer'
+import { parseAnnotations } from '../shared/annotation-parser'
+import { updateGate } from '../shared/gate-editing'
+import type { DocumentParts, Gate } from '../shared/types'
+import { makeMemo } from './fixtures'
+
+const BODY = [
+  '# Plan',
+  '',
+  'Intro paragraph.',
+  '',
+  '## Step one',
+  '',
+  '- [ ] Write the parser',
+  '- [ ] Ship it',
+  '',
+  '```md',
+  '<!-- USER_MEMO id="fake" color="red" : not a memo -->',
+  '# Not a heading',
+  '```',
+  '',
+  'Closing line.',
+].join('\n')
+
+function gate(overrides: Partial<Gate> = {}): Gate {
+  return {
+    id: 'g1',
+    type: 'merge',
+    status: 'blocked',
+    blockedBy: ['m1'],
+    canProceedIf: 'fix.open == 0',
+    doneDefinition: 'Merged to main',
+    ...overrides,
+  }
+}
+
+function annotated(): string {
+  const parts: DocumentParts = {
+    frontmatter: '---\ntitle: Plan\n---',
+    body: BODY,
+    memos: [
+      makeMemo({ id: 'm1', ...resolveAnchor(BODY, { anchorText: 'Write the parser' })!, text: 'Say "why" & mind -> and --> here' }),
+      makeMemo({
+        id: 'm2',
+        ...resolveAnchor(BODY, { heading: 'Step one' })!,
+        type: 'question',
+        color: 'blue',
+        text: 'Two\nlines\n\n- and a list\n| a pipe',
+        replies: [{ author: 'agent', owner: 'agent', createdAt: '2026-01-02T00:00:00.000Z', text: 'First\nsecond "quoted"' }],
+      }),
+    ],
+    checkpoints: [],
+    gates: [gate({ requiredSignoffs: 1, signoffs: [{ name: 'A & B', email: 'ab@example.com', at: '2026-01-03T00:00:00.000Z' }] })],
+    cursor: { taskId: 't1', step: '1/2', nextAction: 'Write "tests"', lastSeenHash: 'abcd1234', updatedAt: '2026-01-01T00:00:00.000Z' },
+    unknownComments: [],
+  }
+  return mergeDocument(parts)
+}
+
+describe('split → merge → split', () => {
+  it('keeps body, memos, gates and cursor', () => {
+    const first = splitDocument(annotated())
+    const second = splitDocument(mergeDocument(first))
+    expect(second).toEqual(first)
+    expect(first.body).toBe(BODY)
+    expect(first.memos.map(m => m.id)).toEqual(['m2', 'm1'])
+    expect(first.gates).toHaveLength(1)
+    expect(first.cursor?.nextAction).toBe('Write "tests"')
+  })
+
+  it('writes the same file on every pass after the first', () => {
+    const once = mergeDocument(splitDocument(annotated()))
+    expect(mergeDocument(splitDocument(once))).toBe(once)
+  })
+
+  it('keeps multi-line memo text and replies', () => {
+    const m2 = splitDocument(annotated()).memos.find(m => m.id === 'm2')!
+    expect(m2.text).toBe('Two\nlines\n\n- and a list\n| a pipe')
+    expect(m2.replies[0].text).toBe('First\nsecond "quoted"')
+  })
+})
+
+describe('fenced code', () => {
+  it('does not read a memo comment inside a fence', () => {
+    const parts = splitDocument(annotated())
+    expect(parts.memos.map(m => m.id)).not.toContain('fake')
+    expect(parts.body).toContain('<!-- USER_MEMO id="fake" color="red" : not a memo -->')
+  })
+
+  it('does not read a heading inside a fence', () => {
+    expect(parseAnnotations(BODY).headings.map(h => h.text)).toEqual(['Plan', 'Step one'])
+    expect(resolveAnchor(BODY, { heading: 'Not a heading' })).toBeNull()
+  })
+})
+
+describe('attribute escaping', () => {
+  it('round-trips quotes, ampersands, entities and comment terminators', () => {
+    const text = 'a "b" & c -> d --> e &gt; f &amp; g &#10; h'
+    const body = 'Line one.'
+    const md = mergeDocument({
+      frontmatter: '',
+      body,
+      memos: [makeMemo({ ...resolveAnchor(body, { anchorText: 'Line one.' })!, text })],
+      checkpoints: [],
+      gates: [],
+      cursor: null,
+      unknownComments: [],
+    })
+    expect(md.split('\n').filter(l => l.includes('-->'))).toEqual(['-->'])
+    const parts = splitDocument(md)
+    expect(parts.memos[0].text).toBe(text)
+    expect(parts.body).toBe(body)
+  })
+
+  it('keeps every gate and sign-off field inside its attribute', () => {
+    const forged = gate({
+      scope: 'Step "one"',
+      canProceedIf: 'fix.open == 0',
+      doneDefinition: 'Done"\n  signoff name="Mallory" email="" at="2026-01-01T00:00:00.000Z',
+      requiredSignoffs: 1,
+      signoffs: [{ name: 'Eve\nsignoff name="Mallory"', email: 'a&b@example.com', at: '2026-01-01T00:00:00.000Z' }],
+    })
+    const md = `Body.\n\n${serializeGate(forged)}\n`
+    const [parsed] = splitDocument(md).gates
+    expect(parsed.doneDefinition).toBe(forged.doneDefinition)
+    expect(parsed.scope).toBe(forged.scope)
+    expect(parsed.signoffs).toEqual(forged.signoffs)
+  })
+
+  it('rejects gate text that spans lines', () => {
+    const md = `Body.\n\n${serializeGate(gate())}\n`
+    const result = updateGate(md, 'g1', {
+      canProceedIf: 'fix.open == 0',
+      doneDefinition: 'Done\n  signoff name="Mallory"',
+    })
+    expect(result).toHaveProperty('error')
+  })
+})
+
+describe('resolveAnchor', () => {
+  it('drops blank lines at either end of a line range', () => {
+    const resolved = resolveAnchor(BODY, { startLine: 2, endLine: 4 })
+    expect(resolved?.anchor).toMatch(/^L3\|/)
+    expect(resolved?.anchorText).toBe('Intro paragraph.')
+  })
+
+  it('picks the nth occurrence of anchor text', () => {
+    const body = 'Same line\n\nSame line'
+    expect(resolveAnchor(body, { anchorText: 'Same line', occurrence: 1 })?.anchor).toMatch(/^L3\|/)
+  })
+})
@@ -0,0 +1,23 @@
+import type { MemoV2 } from '../shared/types'
+
+/** A v0.4 memo with every required field, anchored nowhere until `anchor` is given */
+export function makeMemo(overrides: Partial<MemoV2> = {}): MemoV2 {
+  return {
+    id: 'm1',
+    type: 'fix',
+    status: 'open',
+    owner: 'human',
+    source: 'generic',
+    color: 'red',
+    text: 'Fix this',
+    anchorText: '',
+    anchor: '',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    replies: [],
+    labels: [],
+    dependsOn: [],
+    history: [],
+    ...overrides,
+  }
+}
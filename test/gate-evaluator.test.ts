@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { evaluateCondition, parseCondition } from '../shared/gate-evaluator'
+import { parseAnnotations } from '../shared/annotation-parser'
+import type { Condition } from '../shared/gate-evaluator'
+import { makeMemo } from './fixtures'
+
+function parse(text: string): Condition {
+  const result = parseCondition(text)
+  if ('error' in result) throw new Error(`${result.error} at ${result.column}`)
+  return result.condition
+}
+
+describe('parseCondition', () => {
+  it('parses and/or/not with grouping', () => {
+    const c = parse('fix.open == 0 && (question.open <= 2 || !label(api).open > 0)')
+    expect(c.op).toBe('and')
+    if (c.op !== 'and') return
+    expect(c.right.op).toBe('or')
+  })
+
+  it('reports unknown kinds at their column', () => {
+    expect(parseCondition('fix.open == 0 && bogus.open == 0')).toEqual({
+      error: expect.stringContaining('unknown kind "bogus"'),
+      column: 17,
+    })
+  })
+
+  it('reports a missing operand at the end', () => {
+    expect(parseCondition('fix.open == 0 &&')).toMatchObject({ column: 16 })
+  })
+})
+
+describe('evaluateCondition', () => {
+  const memos = [
+    makeMemo({ id: 'm1', type: 'fix', status: 'done' }),
+    makeMemo({ id: 'm2', type: 'question', status: 'open', labels: ['api'] }),
+    makeMemo({ id: 'm3', type: 'question', status: 'open' }),
+  ]
+
+  it('holds when every clause holds', () => {
+    expect(evaluateCondition(parse('fix.open == 0 && question.open <= 2'), memos)).toEqual({ ok: true, failed: null })
+  })
+
+  it('names the failing clause', () => {
+    const result = evaluateCondition(parse('fix.open == 0 && label(api).open == 0'), memos)
+    expect(result.ok).toBe(false)
+    expect(result.failed).toContain('api')
+  })
+
+  it('counts task items under a heading', () => {
+    const doc = parseAnnotations('# Plan\n\n## Build\n\n- [x] One\n- [ ] Two\n')
+    const condition = parse('task(Build).open == 0')
+    expect(evaluateCondition(condition, [], undefined, doc.tasks, doc.headings).ok).toBe(false)
+    const done = parseAnnotations('# Plan\n\n## Build\n\n- [x] One\n- [x] Two\n')
+    expect(evaluateCondition(condition, [], undefined, done.tasks, done.headings).ok).toBe(true)
+  })
+})
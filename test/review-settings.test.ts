@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { readReviewSettings, writeReviewSettings, writeReviewStatus } from '../shared/review-settings'
+import { transitionReview } from '../shared/review-lifecycle'
+
+const FRONTMATTER = [
+  '---',
+  'title: Plan',
+  'review:',
+  '  # owners',
+  '  status: in-review  # set by the panel',
+  '  owner: team-a',
+  '  reviewers:',
+  '    - alice',
+  '  autoCheckpoint:',
+  '    intervalMinutes: soon',
+  '---',
+  '',
+].join('\n')
+
+describe('writeReviewSettings', () => {
+  it('rewrites only the settings that changed', () => {
+    const { settings } = readReviewSettings(FRONTMATTER)
+    const updated = writeReviewSettings(FRONTMATTER, { ...settings, reviewers: ['alice', 'bob'] })
+    expect(updated).toBe(FRONTMATTER.replace('  reviewers:\n    - alice\n', '  reviewers: [alice, bob]\n'))
+  })
+
+  it('returns the frontmatter unchanged when nothing changed', () => {
+    expect(writeReviewSettings(FRONTMATTER, readReviewSettings(FRONTMATTER).settings)).toBe(FRONTMATTER)
+  })
+
+  it('creates the block when there is none', () => {
+    const { settings } = readReviewSettings('')
+    expect(writeReviewSettings('', { ...settings, status: 'approved' })).toBe('---\nreview:\n  status: approved\n---\n\n')
+  })
+})
+
+describe('writeReviewStatus', () => {
+  it('changes the status value in place and keeps its comment', () => {
+    expect(writeReviewStatus(FRONTMATTER, 'approved')).toBe(FRONTMATTER.replace('status: in-review', 'status: approved'))
+  })
+
+  it('changes only the status line on a transition', () => {
+    const result = transitionReview(`${FRONTMATTER}\n# Plan\n`, 'changes-requested')
+    expect(result).toEqual({ from: 'in-review', frontmatter: `${FRONTMATTER.replace('status: in-review', 'status: changes-requested')}\n` })
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { attachSidecar, detachSidecar } from '../shared/sidecar'
+import { mergeDocument, resolveAnchor, serializeGate, splitDocument } from '../shared/document-writer'
+import { makeMemo } from './fixtures'
+
+const BODY = '# Plan\n\nSome *formatted* text.\n\n- [ ] A task\n\nLast line.'
+
+function annotated(): string {
+  return mergeDocument({
+    frontmatter: '---\ntitle: Plan\n---',
+    body: BODY,
+    memos: [makeMemo({ id: 'm1', ...resolveAnchor(BODY, { anchorText: 'A task' })! })],
+    checkpoints: [],
+    gates: [{ id: 'g1', type: 'merge', status: 'blocked', blockedBy: ['m1'], canProceedIf: 'fix.open == 0', doneDefinition: 'Merged' }],
+    cursor: null,
+    unknownComments: [],
+  })
+}
+
+describe('detachSidecar', () => {
+  it('removes only the annotation blocks', () => {
+    const { markdown, sidecar } = detachSidecar(annotated())
+    expect(markdown).toBe(`---\ntitle: Plan\n---\n\n${BODY}\n`)
+    expect(sidecar.memos.map(m => m.id)).toEqual(['m1'])
+    expect(sidecar.gates.map(g => g.id)).toEqual(['g1'])
+  })
+
+  it('keeps foreign lines between blocks', () => {
+    const md = `Text.\n<!-- toc -->\n\n${serializeGate({ id: 'g1', type: 'merge', status: 'blocked', blockedBy: [], canProceedIf: 'x', doneDefinition: 'y' })}\n\nAfter.\n`
+    expect(detachSidecar(md).markdown).toBe('Text.\n<!-- toc -->\n\n\nAfter.\n')
+  })
+})
+
+describe('attachSidecar', () => {
+  it('restores the annotations detached from a file', () => {
+    const original = splitDocument(annotated())
+    const { markdown, sidecar } = detachSidecar(annotated())
+    const restored = splitDocument(attachSidecar(markdown, sidecar))
+    expect(restored.body).toBe(original.body)
+    expect(restored.memos).toEqual(original.memos)
+    expect(restored.gates).toEqual(original.gates)
+  })
+})
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { captureUnknownComments, restoreUnknownComments } from '../shared/unknown-comments'
+import { mergeDocument, splitDocument } from '../shared/document-writer'
+
+const SOURCE = [
+  '# Plan',
+  '',
+  '<!-- prettier-ignore -->',
+  '| a | b |',
+  '|---|---|',
+  '',
+  'Text.',
+  '<!-- toc -->',
+  '',
+].join('\n')
+
+describe('unknown comments', () => {
+  it('captures where each comment sits', () => {
+    expect(captureUnknownComments(SOURCE)).toEqual([
+      { text: '<!-- prettier-ignore -->', line: 2, anchorText: '| a | b |', anchorSide: 'above', blankLines: 0 },
+      { text: '<!-- toc -->', line: 7, anchorText: 'Text.', anchorSide: 'below', blankLines: 0 },
+    ])
+  })
+
+  it('restores comments an editor dropped, next to re-serialized lines', () => {
+    const edited = '# Plan\n\n| a | b |\n| --- | --- |\n\nText.\n'
+    expect(restoreUnknownComments(edited, captureUnknownComments(SOURCE)))
+      .toBe('# Plan\n\n<!-- prettier-ignore -->\n| a | b |\n| --- | --- |\n\nText.\n<!-- toc -->\n')
+  })
+
+  it('does not duplicate comments that are still there', () => {
+    expect(restoreUnknownComments(SOURCE, captureUnknownComments(SOURCE))).toBe(SOURCE)
+  })
+
+  it('survives split → merge when the body loses them', () => {
+    const parts = splitDocument(SOURCE)
+    const merged = mergeDocument({ ...parts, body: parts.body.replace(/<!-- .* -->\n?/g, '') })
+    expect(merged).toContain('<!-- prettier-ignore -->\n| a | b |')
+    expect(merged).toContain('Text.\n<!-- toc -->')
+  })
+})
@@ -1,7 +1,23 @@
 import { useState, useRef, useCallback, useEffect } from 'react'
-import Editor, { type EditorHandle } from './components/Editor'
+import Editor, { type EditorHandle, type OrphanedMemo } from './components/Editor'
+import GatePipeline, { type GateMemo, type GateView } from './components/GatePipeline'
+import GateEditor from './components/GateEditor'
+import OrphanedMemos from './components/OrphanedMemos'
+import SettingsDrawer from './components/SettingsDrawer'
 import { vscode } from './lib/vscode-api'
-import { MEMO_ACCENT, type HighlightColor, type Checkpoint, type PlanCursor } from '../shared/types'
+import { DEFAULT_ANNOTATION_KINDS, DEFAULT_REVIEW_SETTINGS, PLAN_STATUS_LABELS, type AnnotationKind, type HighlightColor, type Checkpoint, type PlanCursor, type PlanStatus, type ReviewSettings } from '../shared/types'
+import type { SettingsIssue } from '../shared/review-settings'
+import type { ReviewTransition } from '../shared/review-lifecycle'
+import { setKinds as setRegistryKinds } from './lib/annotation-kinds'
+
+/** Open memo count for one annotation kind, as sent by the extension host */
+interface OpenKindCount {
+  type: string
+  label: string
+  accent: string
+  count: number
+  blocking: boolean
+}
 
 export default function App() {
   const editorRef = useRef<EditorHandle>(null)
@@ -14,7 +30,17 @@ export default function App() {
   const [docEmpty, setDocEmpty] = useState(false)
   const [exportStatus, setExportStatus] = useState<string | null>(null)
   const [planCursor, setPlanCursor] = useState<PlanCursor | null>(null)
-  const [statusSummary, setStatusSummary] = useState<{ openFixes: number; openQuestions: number; gateStatus: string | null } | null>(null)
+  const [gates, setGates] = useState<GateView[]>([])
+  const [gateMemos, setGateMemos] = useState<GateMemo[]>([])
+  // Gate editor: the gate being edited (null = new gate), and why the last save was refused
+  const [gateEditor, setGateEditor] = useState<{ gate: GateView | null; error: string | null } | null>(null)
+  const [statusSummary, setStatusSummary] = useState<{ open: OpenKindCount[]; tasks: { done: number; total: number } } | null>(null)
+  const [kinds, setKinds] = useState<AnnotationKind[]>(DEFAULT_ANNOTATION_KINDS)
+  const [orphans, setOrphans] = useState<OrphanedMemo[]>([])
+  const [reviewSettings, setReviewSettings] = useState<{ settings: ReviewSettings; issues: SettingsIssue[] }>({ settings: DEFAULT_REVIEW_SETTINGS, issues: [] })
+  const [showSettings, setShowSettings] = useState(false)
+  const [reviewState, setReviewState] = useState<{ status: PlanStatus; transitions: ReviewTransition[] } | null>(null)
+  const [showStateMenu, setShowStateMenu] = useState(false)
 
   const isLoadingRef = useRef(false)
   const debounceRef = useRef<number | undefined>(undefined)
@@ -122,6 +148,28 @@ export default function App() {
         case 'status.summary':
           setStatusSummary(msg.summary as typeof statusSummary)
           break
+
+        case 'settings.update':
+          setReviewSettings({ settings: msg.settings as ReviewSettings, issues: (msg.issues || []) as SettingsIssue[] })
+          break
+
+        case 'gates.update':
+          setGates((msg.gates || []) as GateView[])
+          setGateMemos((msg.memos || []) as GateMemo[])
+          break
+
+        case 'gate.result':
+          setGateEditor(editor => editor && (msg.error ? { ...editor, error: msg.error as string } : null))
+          break
+
+        case 'review.state':
+          setReviewState({ status: msg.status as PlanStatus, transitions: (msg.transitions || []) as ReviewTransition[] })
+          break
+
+        case 'kinds.update':
+          setRegistryKinds(msg.kinds as AnnotationKind[])
+          setKinds(msg.kinds as AnnotationKind[])
+          break
       }
     }
 
@@ -185,6 +233,9 @@ export default function App() {
     setOnboardingDone(true)
   }
 
+  // The gate whose reason the status bar spells out: the first blocked one, else the first not done
+  const heldGate = gates.find(g => g.status === 'blocked') ?? gates.find(g => g.status !== 'done')
+
   return (
     <div className="md-feedback-root">
       <div className="content-area">
@@ -207,10 +258,20 @@ export default function App() {
         <div className={docLoaded ? '' : 'hidden'}>
           <div className="paper-container">
             <div className="paper">
+              {orphans.length > 0 && (
+                <OrphanedMemos
+                  orphans={orphans}
+                  canAttach={hasSelection}
+                  onAttach={(memoId) => editorRef.current?.reattachMemo(memoId)}
+                />
+              )}
               <Editor
                 ref={editorRef}
                 onUpdate={handleUpdate}
                 onSelectionChange={setHasSelection}
+                onOrphansChange={setOrphans}
+                kinds={kinds}
+                gates={gates}
               />
             </div>
           </div>
@@ -232,26 +293,68 @@ export default function App() {
       </div>
 
       {/* Status Summary + Cursor Bar */}
-      {docLoaded && (statusSummary || planCursor) && (
+      {docLoaded && (reviewState || statusSummary || planCursor) && (
         <div className="status-bar">
+          {reviewState && (
+            <div className="review-state">
+              <button
+                onClick={() => setShowStateMenu(!showStateMenu)}
+                className="review-state-btn"
+                title="Review state — click to move the plan along"
+              >
+                {PLAN_STATUS_LABELS[reviewState.status]} ▾
+              </button>
+              {showStateMenu && (
+                <div className="review-state-menu">
+                  {reviewState.transitions.map(t => (
+                    <button
+                      key={t.to}
+                      disabled={t.blockedBy !== null}
+                      title={t.blockedBy ?? undefined}
+                      onClick={() => {
+                        vscode.postMessage({ type: 'review.transition', to: t.to })
+                        setShowStateMenu(false)
+                      }}
+                    >
+                      → {PLAN_STATUS_LABELS[t.to]}
+                      {t.blockedBy && <span className="block text-[11px] text-stone-400">{t.blockedBy}</span>}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
           {statusSummary && (
             <div className="status-items">
-              {statusSummary.openFixes > 0 && (
-                <span className="text-red-600 font-medium">{statusSummary.openFixes} Fix</span>
-              )}
-              {statusSummary.openQuestions > 0 && (
-                <span className="text-blue-600 font-medium">{statusSummary.openQuestions} Question</span>
-              )}
-              {statusSummary.openFixes === 0 && statusSummary.openQuestions === 0 && (
+              {statusSummary.open.map(k => (
+                <span key={k.type} className={k.blocking ? 'font-medium' : ''} style={{ color: k.accent }}>
+                  {k.count} {k.label}
+                </span>
+              ))}
+              {!statusSummary.open.some(k => k.blocking) && (
                 <span className="text-emerald-600 font-medium">All resolved</span>
               )}
-              {statusSummary.gateStatus && (
-                <span className={statusSummary.gateStatus === 'blocked' ? 'text-red-500' : statusSummary.gateStatus === 'done' ? 'text-emerald-500' : 'text-amber-500'}>
-                  Gate: {statusSummary.gateStatus === 'blocked' ? 'BLOCKED' : statusSummary.gateStatus === 'done' ? 'CLEAR' : 'PROCEED'}
+              {statusSummary.tasks.total > 0 && (
+                <span className="task-progress" title={`${statusSummary.tasks.done} of ${statusSummary.tasks.total} task items checked`}>
+                  <span className="task-progress-bar">
+                    <span style={{ width: `${(statusSummary.tasks.done / statusSummary.tasks.total) * 100}%` }} />
+                  </span>
+                  {statusSummary.tasks.done}/{statusSummary.tasks.total} tasks
                 </span>
               )}
             </div>
           )}
+          <div className="status-items">
+            <GatePipeline
+              gates={gates}
+              onEdit={(gate) => { setShowSettings(false); setGateEditor({ gate, error: null }) }}
+              onAdd={() => { setShowSettings(false); setGateEditor({ gate: null, error: null }) }}
+              onSignoff={(id) => vscode.postMessage({ type: 'gate.signoff', id })}
+            />
+            {heldGate?.reason && (
+              <span className="text-stone-500 truncate max-w-[260px]" title={heldGate.reason}>— {heldGate.reason}</span>
+            )}
+          </div>
           {planCursor && (
             <div className="cursor-info">
               <span className="text-stone-500">Task {planCursor.taskId}</span>
@@ -262,20 +365,46 @@ export default function App() {
         </div>
       )}
 
+      {/* Review Settings Drawer */}
+      {docLoaded && showSettings && (
+        <SettingsDrawer
+          settings={reviewSettings.settings}
+          issues={reviewSettings.issues}
+          onSave={(settings) => vscode.postMessage({ type: 'settings.save', settings })}
+          onAddGate={(templateId) => vscode.postMessage({ type: 'gate.fromTemplate', templateId })}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {/* Gate Editor */}
+      {docLoaded && gateEditor && (
+        <GateEditor
+          gate={gateEditor.gate}
+          gates={gates}
+          memos={gateMemos}
+          sections={editorRef.current?.getSections() ?? []}
+          error={gateEditor.error}
+          onSave={(gate, originalId) => vscode.postMessage({ type: 'gate.save', gate, originalId })}
+          onDelete={(id) => vscode.postMessage({ type: 'gate.delete', id })}
+          onClose={() => setGateEditor(null)}
+        />
+      )}
+
       {/* Floating Bar */}
       {docLoaded && (
         <div className="floating-bar">
           {/* Annotation Buttons */}
-          {(['yellow', 'red', 'blue'] as HighlightColor[]).map((color) => (
+          {kinds.map((kind) => (
             <button
-              key={color}
-              onClick={() => handleApplyAnnotation(color)}
+              key={kind.type}
+              onClick={() => handleApplyAnnotation(kind.color)}
               disabled={!hasSelection}
               className={`floating-btn ${!hasSelection ? 'opacity-50 pointer-events-none' : ''}`}
-              style={{ color: MEMO_ACCENT[color].labelColor }}
+              style={{ color: kind.accent }}
+              title={kind.desc}
             >
-              <span className="text-lg">{MEMO_ACCENT[color].emoji}</span>
-              <span className="text-xs font-medium">{MEMO_ACCENT[color].label}</span>
+              <span className="text-lg">{kind.emoji}</span>
+              <span className="text-xs font-medium">{kind.label}</span>
             </button>
           ))}
 
@@ -287,6 +416,18 @@ export default function App() {
             <span className="text-xs font-medium">Export</span>
           </button>
 
+          {/* Review Settings */}
+          <button
+            onClick={() => { setShowSettings(!showSettings); setGateEditor(null) }}
+            className={`floating-btn ${showSettings ? 'bg-stone-100' : ''}`}
+            title={reviewSettings.issues.length > 0 ? `${reviewSettings.issues.length} problem(s) in the review settings` : 'Review settings for this plan'}
+          >
+            <span className="text-lg">⚙️</span>
+            <span className="text-xs font-medium">
+              Settings{reviewSettings.issues.length > 0 && <span className="text-amber-600"> ⚠</span>}
+            </span>
+          </button>
+
           {/* Status Text */}
           <div className="ml-auto text-[11px] text-stone-400 flex items-center gap-2">
             {exportStatus && <span className="text-emerald-600 font-medium">{exportStatus}</span>}
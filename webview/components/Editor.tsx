@@ -11,16 +11,32 @@ import TaskList from '@tiptap/extension-task-list'
 import TaskItem from '@tiptap/extension-task-item'
 import Image from '@tiptap/extension-image'
 import { Markdown } from 'tiptap-markdown'
-import { useCallback, forwardRef, useImperativeHandle, useRef, useState, useEffect } from 'react'
+import { useCallback, forwardRef, useImperativeHandle, useRef, useState, useEffect, type ReactNode } from 'react'
 import { nanoid } from 'nanoid'
 import { MemoBlock } from '../extensions/MemoBlock'
+import { AnnotationGutter, findTargetBlock, targetRanges } from '../extensions/AnnotationGutter'
+import { GateBadges, gateBadgesKey } from '../extensions/GateBadges'
+import type { GateView } from './GatePipeline'
 import {
-  HIGHLIGHT_COLORS,
-  HEX_TO_COLOR_NAME,
+  colorToType,
+  normalizeLabels,
+  type AnnotationKind,
   type HighlightColor,
+  type MemoColor,
+  type MemoOwner,
+  type MemoPriority,
+  type MemoReply,
+  type MemoStatus,
+  type MemoStatusChange,
+  type MemoType,
+  type MemoTarget,
+  type MemoV2,
   type ReviewHighlight,
   type ReviewMemo,
+  type TextAnchor,
 } from '../../shared/types'
+import { serializeMemoV2 } from '../../shared/document-writer'
+import { getKinds, kindOf } from '../lib/annotation-kinds'
 
 export interface EditorHandle {
   getMarkdown: () => string
@@ -31,6 +47,54 @@ export interface EditorHandle {
   getDocumentTitle: () => string
   getSections: () => string[]
   applyAnnotation: (color: HighlightColor) => void
+  reattachMemo: (memoId: string) => void
+}
+
+/** A memo whose anchor could not be resolved, listed for re-attachment */
+export interface OrphanedMemo {
+  id: string
+  text: string
+  color: string
+  anchorText: string
+}
+
+function collectOrphans(ed: { state: { doc: { descendants: (cb: (node: any) => void) => void } } }): OrphanedMemo[] {
+  const orphans: OrphanedMemo[] = []
+  ed.state.doc.descendants((node: any) => {
+    if (node.type.name === 'memoBlock' && node.attrs.orphaned) {
+      orphans.push({ id: node.attrs.memoId, text: node.attrs.text, color: node.attrs.color, anchorText: node.attrs.anchorText })
+    }
+  })
+  return orphans
+}
+
+/** Build a v0.4 memo from memoBlock node attributes */
+function memoFromAttrs(attrs: Record<string, any>): MemoV2 {
+  const now = new Date().toISOString()
+  const color = (attrs.color || 'red') as MemoColor
+  return {
+    id: attrs.memoId,
+    // The stored type wins: a custom kind may share (or override) another kind's color
+    type: (attrs.memoType || colorToType(color, getKinds())) as MemoType,
+    status: (attrs.status || 'open') as MemoStatus,
+    priority: (attrs.priority || undefined) as MemoPriority | undefined,
+    labels: normalizeLabels(Array.isArray(attrs.labels) ? attrs.labels : (attrs.labels || '').split(',')),
+    dependsOn: Array.isArray(attrs.dependsOn) ? attrs.dependsOn : (attrs.dependsOn || '').split(',').filter(Boolean),
+    owner: (attrs.owner || 'human') as MemoOwner,
+    source: attrs.source || 'generic',
+    color,
+    text: attrs.text || '',
+    anchorText: attrs.anchorText || '',
+    anchor: attrs.anchor || '',
+    ...(attrs.range ? { range: attrs.range } : {}),
+    ...(attrs.target ? { target: attrs.target } : {}),
+    ...(attrs.orphaned ? { orphaned: true } : {}),
+    ...(attrs.suggestion != null ? { suggestion: attrs.suggestion } : {}),
+    createdAt: attrs.createdAt || now,
+    updatedAt: attrs.updatedAt || attrs.createdAt || now,
+    replies: Array.isArray(attrs.replies) ? attrs.replies : [],
+    history: Array.isArray(attrs.history) ? attrs.history : [],
+  }
 }
 
 /** Append memos that tiptap-markdown failed to serialize (shared fallback) */
@@ -44,37 +108,68 @@ function appendMissedMemos(md: string, ed: { state: { doc: { descendants: (cb: (
     const appendMemos: string[] = []
     ed.state.doc.descendants((node: any) => {
       if (node.type.name === 'memoBlock') {
-        const { memoId, text, color, status } = node.attrs
-        const escaped = (text || '').replace(/-->/g, '--\u200B>')
-        const statusAttr = status && status !== 'open' ? ` status="${status}"` : ''
-        const comment = `<!-- USER_MEMO id="${memoId}" color="${color}"${statusAttr} : ${escaped} -->`
-        if (!md.includes(`id="${memoId}"`)) {
-          appendMemos.push(comment)
+        if (!md.includes(`id="${node.attrs.memoId}"`)) {
+          appendMemos.push(serializeMemoV2(memoFromAttrs(node.attrs)))
         }
       }
     })
     if (appendMemos.length > 0) {
-      md = md.trimEnd() + '\n\n' + appendMemos.join('\n') + '\n'
+      md = md.trimEnd() + '\n\n' + appendMemos.join('\n\n') + '\n'
     }
   }
   return md
 }
 
-/** Convert tiptap-markdown output to annotated markdown with memo comments */
+/** Convert tiptap-markdown output to annotated markdown with v0.4 memo comments */
 function serializeWithMemos(markdown: string): string {
   return markdown.replace(
     /<div\s[^>]*data-memo-block[^>]*>[\s\S]*?<\/div>/g,
     (match) => {
-      const id = match.match(/data-memo-id="([^"]*)"/)
-      const text = match.match(/data-memo-text="([^"]*)"/)
-      const color = match.match(/data-memo-color="([^"]*)"/)
-      const status = match.match(/data-memo-status="([^"]*)"/)
-      if (id && color) {
-        const memoText = text ? decodeHtmlEntities(text[1]) : ''
-        const statusAttr = status && status[1] !== 'open' ? ` status="${status[1]}"` : ''
-        return `<!-- USER_MEMO id="${id[1]}" color="${color[1]}"${statusAttr} : ${memoText} -->`
+      const attr = (name: string): string | undefined => {
+        const m = match.match(new RegExp(`data-memo-${name}="([^"]*)"`))
+        return m ? decodeHtmlEntities(m[1]) : undefined
       }
-      return ''
+      const id = attr('id')
+      const color = attr('color')
+      if (!id || !color) return ''
+      let replies: MemoReply[] = []
+      try {
+        replies = JSON.parse(attr('replies') || '[]')
+      } catch { /* malformed — drop thread rather than the memo */ }
+      let history: MemoStatusChange[] = []
+      try {
+        history = JSON.parse(attr('history') || '[]')
+      } catch { /* malformed — drop history rather than the memo */ }
+      let range: TextAnchor | undefined
+      try {
+        range = attr('range') ? JSON.parse(attr('range')!) : undefined
+      } catch { /* malformed — re-derived from the memo's position */ }
+      let target: MemoTarget | undefined
+      try {
+        target = attr('target') ? JSON.parse(attr('target')!) : undefined
+      } catch { /* malformed — the memo falls back to a plain line anchor */ }
+      return serializeMemoV2(memoFromAttrs({
+        memoId: id,
+        color,
+        memoType: attr('type'),
+        text: attr('text'),
+        status: attr('status'),
+        priority: attr('priority'),
+        labels: attr('labels'),
+        dependsOn: attr('depends-on'),
+        anchorText: attr('anchor'),
+        anchor: attr('anchor-ref'),
+        range,
+        target,
+        orphaned: attr('orphaned') === 'true',
+        suggestion: attr('suggestion'),
+        owner: attr('owner'),
+        source: attr('source'),
+        createdAt: attr('created'),
+        updatedAt: attr('updated'),
+        replies,
+        history,
+      }))
     },
   )
 }
@@ -86,6 +181,40 @@ function decodeHtmlEntities(s: string): string {
     .replace(/&gt;/g, '>')
     .replace(/&quot;/g, '"')
     .replace(/&#39;/g, "'")
+    .replace(/&#10;/g, '\n')
+}
+
+/**
+ * Where a memo for a selection starting inside a code block or table goes: after
+ * the block (a card cannot sit inside either), pointing at the selected code
+ * lines or cell. Null for ordinary text.
+ */
+function blockTarget(doc: any, from: number, to: number): { target: MemoTarget; insertAt: number; anchorText: string } | null {
+  const $from = doc.resolve(from)
+  if ($from.parent.type.name === 'codeBlock') {
+    const text: string = $from.parent.textContent
+    const start = from - $from.start()
+    const end = Math.min(to, $from.end()) - $from.start()
+    const startLine = text.slice(0, start).split('\n').length
+    let endLine = text.slice(0, end).split('\n').length
+    // A selection ending at the very start of a line does not take that line
+    if (endLine > startLine && text[end - 1] === '\n') endLine--
+    return {
+      target: { kind: 'code', startLine, endLine },
+      insertAt: $from.after(),
+      anchorText: text.split('\n')[endLine - 1].trim(),
+    }
+  }
+  for (let d = $from.depth; d > 0; d--) {
+    if ($from.node(d).type.name !== 'table') continue
+    // Table → row (depth d + 1) → cell (depth d + 2); row 0 is the header
+    return {
+      target: { kind: 'cell', row: $from.index(d), col: $from.index(d + 1) + 1 },
+      insertAt: $from.after(d),
+      anchorText: doc.textBetween(from, Math.min(to, $from.end(d + 2)), ' '),
+    }
+  }
+  return null
 }
 
 /** Find the continuous range of a highlight mark at a given position */
@@ -132,11 +261,35 @@ interface DeletePopover {
 interface EditorProps {
   onUpdate?: (annotatedMarkdown: string) => void
   onSelectionChange?: (hasSelection: boolean) => void
+  onOrphansChange?: (orphans: OrphanedMemo[]) => void
+  kinds: AnnotationKind[]
+  gates: GateView[]
 }
 
-const Editor = forwardRef<EditorHandle, EditorProps>(({ onUpdate: onUpdateProp, onSelectionChange }, ref) => {
+/** Bubble-menu icons for the built-in kinds; other kinds show their emoji */
+const KIND_ICONS: Record<string, ReactNode> = {
+  highlight: (
+    <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
+      <rect x="1" y="10" width="14" height="3.5" rx="0.5" fill="#facc15" opacity="0.5" />
+      <path d="M5 3.5v6M8 2v8M11 4v5" stroke="#d97706" strokeWidth="1.5" strokeLinecap="round" />
+    </svg>
+  ),
+  fix: (
+    <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
+      <line x1="2" y1="8" x2="14" y2="8" stroke="#dc2626" strokeWidth="1.8" strokeLinecap="round" />
+    </svg>
+  ),
+  question: (
+    <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
+      <path d="M2 12c1.5-1 2.5 1 4 0s2.5 1 4 0s2.5 1 4 0" stroke="#3b82f6" strokeWidth="1.5" strokeLinecap="round" fill="none" />
+    </svg>
+  ),
+}
+
+const Editor = forwardRef<EditorHandle, EditorProps>(({ onUpdate: onUpdateProp, onSelectionChange, onOrphansChange, kinds, gates }, ref) => {
   const savedSelectionRef = useRef<{ from: number; to: number } | null>(null)
   const applyAnnotationRef = useRef<(color: HighlightColor) => void>(() => {})
+  const reattachMemoRef = useRef<(memoId: string) => void>(() => {})
   const [deletePopover, setDeletePopover] = useState<DeletePopover | null>(null)
   const popoverRef = useRef<HTMLDivElement>(null)
 
@@ -165,6 +318,8 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({ onUpdate: onUpdateProp,
       TaskItem.configure({ nested: true }),
       Image.configure({ inline: true }),
       MemoBlock,
+      AnnotationGutter,
+      GateBadges,
       Markdown.configure({
         html: true,
         transformPastedText: true,
@@ -181,22 +336,12 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({ onUpdate: onUpdateProp,
         const mod = event.ctrlKey || event.metaKey
         if (mod && ['a', 'c', 'f', 'z'].includes(event.key.toLowerCase())) return false
 
-        // Annotation shortcuts: 1 = Highlight, 2 = Fix, 3 = Question
+        // Annotation shortcuts: 1 = Highlight, 2 = Fix, 3 = Question, 4… = registry order
         const sel = savedSelectionRef.current
-        if (sel && sel.to - sel.from >= 2) {
-          const key = event.key
-          if (key === '1') {
-            setTimeout(() => applyAnnotationRef.current('yellow'), 0)
-            event.preventDefault()
-            return true
-          }
-          if (key === '2') {
-            setTimeout(() => applyAnnotationRef.current('red'), 0)
-            event.preventDefault()
-            return true
-          }
-          if (key === '3') {
-            setTimeout(() => applyAnnotationRef.current('blue'), 0)
+        if (sel && sel.to - sel.from >= 2 && /^[1-9]$/.test(event.key)) {
+          const kind = getKinds()[parseInt(event.key, 10) - 1]
+          if (kind) {
+            setTimeout(() => applyAnnotationRef.current(kind.color), 0)
             event.preventDefault()
             return true
           }
@@ -221,6 +366,7 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({ onUpdate: onUpdateProp,
       onSelectionChange?.(hasSelection)
     },
     onUpdate: ({ editor: ed }) => {
+      onOrphansChange?.(collectOrphans(ed))
       if (onUpdateProp) {
         let md = ed.storage.markdown.getMarkdown()
         md = serializeWithMemos(md)
@@ -230,6 +376,12 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({ onUpdate: onUpdateProp,
     },
   })
 
+  // Section-scoped gate badges follow the host's latest evaluation
+  useEffect(() => {
+    if (!editor || editor.isDestroyed) return
+    editor.view.dispatch(editor.state.tr.setMeta(gateBadgesKey, gates))
+  }, [editor, gates])
+
   // Click-to-delete: detect clicks on marked text
   useEffect(() => {
     if (!editor) return
@@ -304,6 +456,7 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({ onUpdate: onUpdateProp,
           editor.commands.clearContent()
         }
       }
+      onOrphansChange?.(collectOrphans(editor))
     },
     getDocumentTitle: () => {
       if (!editor) return ''
@@ -360,16 +513,26 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({ onUpdate: onUpdateProp,
         if (node.type.name === 'heading') currentSection = node.textContent
         if (node.type.name === 'memoBlock') {
           let context = ''
+          const target = node.attrs.target as MemoTarget | null
+          const block = target ? findTargetBlock(editor.state.doc, pos) : null
           const resolved = editor.state.doc.resolve(pos)
-          if (resolved.index(0) > 0) {
+          if (target && block) {
+            // Code-line and cell memos: the lines or cell they point at
+            context = targetRanges(block, target).map(r => editor.state.doc.textBetween(r.from, r.to, ' ').trim()).join(' ')
+          } else if (resolved.index(0) > 0) {
             context = editor.state.doc.child(resolved.index(0) - 1).textContent
           }
+          const replies: MemoReply[] = node.attrs.replies || []
           memos.push({
             id: node.attrs.memoId,
             text: node.attrs.text,
             color: node.attrs.color,
             section: currentSection,
             context,
+            latestReply: replies.length > 0 ? replies[replies.length - 1] : undefined,
+            priority: node.attrs.priority || undefined,
+            labels: node.attrs.labels || [],
+            ...(target ? { target } : {}),
           })
         }
       })
@@ -389,6 +552,9 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({ onUpdate: onUpdateProp,
     applyAnnotation: (color: HighlightColor) => {
       applyAnnotationRef.current(color)
     },
+    reattachMemo: (memoId: string) => {
+      reattachMemoRef.current(memoId)
+    },
   }))
 
   const applyAnnotation = useCallback((color: HighlightColor) => {
@@ -398,6 +564,29 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({ onUpdate: onUpdateProp,
     if (!sel || sel.from === sel.to) return
 
     const { from, to } = sel
+    const kind = kindOf(color)
+    const placed = blockTarget(editor.state.doc, from, to)
+
+    // Code blocks take no highlight marks: only kinds with memo cards apply, as a line memo
+    if (placed?.target.kind === 'code') {
+      if (!kind.memo) return
+      editor
+        .chain()
+        .insertContentAt(placed.insertAt, {
+          type: 'memoBlock',
+          attrs: {
+            memoId: nanoid(8),
+            text: '',
+            color: kind.color,
+            memoType: kind.type,
+            anchorText: placed.anchorText.slice(0, 80),
+            target: placed.target,
+            createdAt: new Date().toISOString(),
+          },
+        })
+        .run()
+      return
+    }
 
     editor.chain().focus().setTextSelection({ from, to }).run()
 
@@ -405,7 +594,7 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({ onUpdate: onUpdateProp,
     let hasSameMark = false
     editor.state.doc.nodesBetween(from, to, (node) => {
       if (node.isText && node.marks.some(m =>
-        m.type === highlightMark && m.attrs.color === HIGHLIGHT_COLORS[color],
+        m.type === highlightMark && m.attrs.color === kind.highlight,
       )) {
         hasSameMark = true
       }
@@ -416,23 +605,26 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({ onUpdate: onUpdateProp,
       return
     }
 
-    editor.chain().focus().setTextSelection({ from, to }).setHighlight({ color: HIGHLIGHT_COLORS[color] }).run()
+    editor.chain().focus().setTextSelection({ from, to }).setHighlight({ color: kind.highlight }).run()
 
-    // Fix / Question: also insert a memo card
-    if (color !== 'yellow') {
+    // Every kind except plain highlights also gets a memo card
+    if (kind.memo) {
       const resolved = editor.state.doc.resolve(to)
       const endOfBlock = resolved.end(resolved.depth)
       const selectedText = editor.state.doc.textBetween(from, to, ' ')
 
       editor
         .chain()
-        .insertContentAt(endOfBlock + 1, {
+        .insertContentAt(placed ? placed.insertAt : endOfBlock + 1, {
           type: 'memoBlock',
           attrs: {
             memoId: nanoid(8),
             text: '',
-            color,
-            anchorText: selectedText.slice(0, 80),
+            color: kind.color,
+            memoType: kind.type,
+            anchorText: (placed ? placed.anchorText : selectedText).slice(0, 80),
+            ...(placed ? { target: placed.target } : {}),
+            createdAt: new Date().toISOString(),
           },
         })
         .run()
@@ -444,20 +636,66 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({ onUpdate: onUpdateProp,
     applyAnnotationRef.current = applyAnnotation
   }, [applyAnnotation])
 
+  // Re-attach an orphaned memo to the current selection: highlight it and
+  // move the memo card below it. The line anchor and range are re-derived on save.
+  const reattachMemo = useCallback((memoId: string) => {
+    if (!editor) return
+    const sel = savedSelectionRef.current
+    if (!sel || sel.from === sel.to) return
+
+    let memoPos = -1
+    let memoNode: any = null
+    editor.state.doc.descendants((node: any, pos: number) => {
+      if (memoPos >= 0) return false
+      if (node.type.name === 'memoBlock' && node.attrs.memoId === memoId) {
+        memoPos = pos
+        memoNode = node
+        return false
+      }
+    })
+    if (memoPos < 0) return
+
+    const kind = kindOf(memoNode.attrs.color)
+    const selectedText = editor.state.doc.textBetween(sel.from, sel.to, ' ')
+    const placed = blockTarget(editor.state.doc, sel.from, sel.to)
+    let tr = editor.state.tr
+    if (kind.highlight && placed?.target.kind !== 'code') {
+      tr = tr.addMark(sel.from, sel.to, editor.schema.marks.highlight.create({ color: kind.highlight }))
+    }
+    tr = tr.delete(memoPos, memoPos + memoNode.nodeSize)
+
+    const $to = tr.doc.resolve(tr.mapping.map(sel.to))
+    tr = tr.insert(placed ? tr.mapping.map(placed.insertAt) : $to.end($to.depth) + 1, editor.schema.nodes.memoBlock.create({
+      ...memoNode.attrs,
+      anchorText: (placed ? placed.anchorText : selectedText).slice(0, 80),
+      target: placed ? placed.target : null,
+      anchor: '',
+      range: null,
+      orphaned: false,
+      updatedAt: new Date().toISOString(),
+    }))
+    editor.view.dispatch(tr)
+  }, [editor])
+
+  useEffect(() => {
+    reattachMemoRef.current = reattachMemo
+  }, [reattachMemo])
+
   // Delete a mark (and its associated memo if fix/question)
   const handleDeleteMark = useCallback(() => {
     if (!editor || !deletePopover) return
     const { from, to, color } = deletePopover
 
     const markedText = editor.state.doc.textBetween(from, to, ' ')
-    const colorName = HEX_TO_COLOR_NAME[color]
+    const kind = kindOf(color)
+    const colorName = kind.color
     const markType = editor.schema.marks.highlight
 
     let tr = editor.state.tr
     tr = tr.removeMark(from, to, markType)
 
-    // Cascade: remove associated memo for fix/question
-    if (colorName && colorName !== 'yellow') {
+    // Cascade: remove associated memo for kinds with memo cards
+    if (kind.memo) {
       let memoPos = -1
       let memoSize = 0
       editor.state.doc.descendants((node: any, pos: number) => {
@@ -498,55 +736,21 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({ onUpdate: onUpdateProp,
         className="bubble-menu-glass"
       >
         <div className="flex items-center">
-          {/* Primary: Highlight */}
-          <button
-            onMouseDown={(e) => e.preventDefault()}
-            onClick={() => applyAnnotation('yellow')}
-            className="bubble-btn bubble-btn-primary"
-          >
-            <span className="bubble-icon">
-              <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
-                <rect x="1" y="10" width="14" height="3.5" rx="0.5" fill="#facc15" opacity="0.5" />
-                <path d="M5 3.5v6M8 2v8M11 4v5" stroke="#d97706" strokeWidth="1.5" strokeLinecap="round" />
-              </svg>
-            </span>
-            <span className="bubble-label text-amber-700">Highlight</span>
-            <kbd className="bubble-kbd">1</kbd>
-          </button>
-
-          <div className="bubble-sep" />
-
-          {/* Secondary: Fix */}
-          <button
-            onMouseDown={(e) => e.preventDefault()}
-            onClick={() => applyAnnotation('red')}
-            className="bubble-btn"
-          >
-            <span className="bubble-icon">
-              <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
-                <line x1="2" y1="8" x2="14" y2="8" stroke="#dc2626" strokeWidth="1.8" strokeLinecap="round" />
-              </svg>
+          {kinds.map((kind, idx) => (
+            <span key={kind.type} className="flex items-center">
+              {idx > 0 && <div className="bubble-sep" />}
+              <button
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => applyAnnotation(kind.color)}
+                className={`bubble-btn ${idx === 0 ? 'bubble-btn-primary' : ''}`}
+                title={kind.desc}
+              >
+                <span className="bubble-icon">{KIND_ICONS[kind.type] ?? kind.emoji}</span>
+                <span className="bubble-label" style={{ color: kind.accent }}>{kind.label}</span>
+                {idx < 9 && <kbd className="bubble-kbd">{idx + 1}</kbd>}
+              </button>
             </span>
-            <span className="bubble-label text-red-600">Fix</span>
-            <kbd className="bubble-kbd">2</kbd>
-          </button>
-
-          <div className="bubble-sep" />
-
-          {/* Secondary: Question */}
-          <button
-            onMouseDown={(e) => e.preventDefault()}
-            onClick={() => applyAnnotation('blue')}
-            className="bubble-btn"
-          >
-            <span className="bubble-icon">
-              <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
-                <path d="M2 12c1.5-1 2.5 1 4 0s2.5 1 4 0s2.5 1 4 0" stroke="#3b82f6" strokeWidth="1.5" strokeLinecap="round" fill="none" />
-              </svg>
-            </span>
-            <span className="bubble-label text-blue-600">Question</span>
-            <kbd className="bubble-kbd">3</kbd>
-          </button>
+          ))}
         </div>
       </BubbleMenu>
 
@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react'
+import { GATE_TYPES, MEMO_PRIORITIES, kindForType, type Gate, type MemoPriority } from '../../shared/types'
+import type { GateInput } from '../../shared/gate-editing'
+import type { GateView, GateMemo } from './GatePipeline'
+import { getKinds } from '../lib/annotation-kinds'
+
+interface GateEditorProps {
+  gate: GateView | null         // null = new gate
+  gates: GateView[]
+  memos: GateMemo[]
+  sections: string[]
+  error: string | null
+  onSave: (gate: GateInput, originalId: string | null) => void
+  onDelete: (id: string) => void
+  onClose: () => void
+}
+
+/** Create or edit one GATE block: type, blocking memos, gate dependencies, scope and conditions */
+export default function GateEditor({ gate, gates, memos, sections, error, onSave, onDelete, onClose }: GateEditorProps) {
+  const [draft, setDraft] = useState(() => toDraft(gate))
+
+  // Another gate was picked while the editor is open
+  useEffect(() => { setDraft(toDraft(gate)) }, [gate?.id])
+
+  const update = (patch: Partial<typeof draft>) => setDraft(d => ({ ...d, ...patch }))
+  const toggle = (key: 'blockedBy' | 'dependsOn', id: string) => update({
+    [key]: draft[key].includes(id) ? draft[key].filter(x => x !== id) : [...draft[key], id],
+  })
+
+  // Open memos first, then the rest in document order
+  const pickable = [...memos].sort((a, b) => Number(b.status === 'open') - Number(a.status === 'open'))
+  const otherGates = gates.filter(g => g.id !== gate?.id)
+
+  return (
+    <div className="settings-drawer">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[13px] font-semibold text-stone-700">{gate ? `Edit gate "${gate.id}"` : 'New gate'}</span>
+        <span className="text-[11px] text-stone-400">Saved as a GATE block</span>
+      </div>
+
+      {error && <ul className="settings-issues"><li>{error}</li></ul>}
+
+      <div className="flex items-center gap-2">
+        <input
+          value={draft.id}
+          onChange={(e) => update({ id: e.target.value })}
+          placeholder={gate ? 'gate id' : 'gate id (default: gate-N)'}
+          className="settings-input flex-1"
+        />
+        <select
+          value={draft.type}
+          onChange={(e) => update({ type: e.target.value as Gate['type'] })}
+          className="settings-input"
+          style={{ width: 'auto' }}
+        >
+          {GATE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+      </div>
+
+      <label className="settings-label">Blocking memos</label>
+      {pickable.length === 0 ? (
+        <p className="text-[12px] text-stone-400">No memos in this document</p>
+      ) : (
+        <ul className="gate-editor-list">
+          {pickable.map(m => {
+            const kind = kindForType(m.type, getKinds())
+            return (
+              <li key={m.id}>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={draft.blockedBy.includes(m.id)} onChange={() => toggle('blockedBy', m.id)} />
+                  <span className="font-semibold uppercase text-[10px] tracking-wider" style={{ color: kind.accent }}>{kind.label}</span>
+                  <span className={`truncate ${m.status === 'open' ? 'text-stone-600' : 'text-stone-400 line-through'}`} title={m.text}>{m.text || m.id}</span>
+                </label>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {otherGates.length > 0 && (
+        <>
+          <label className="settings-label">Depends on gates</label>
+          <div className="flex flex-wrap gap-x-3 gap-y-1">
+            {otherGates.map(g => (
+              <label key={g.id} className="flex items-center gap-1 text-[12px] text-stone-600">
+                <input type="checkbox" checked={draft.dependsOn.includes(g.id)} onChange={() => toggle('dependsOn', g.id)} />
+                {g.id} <span className="text-stone-400">({g.type})</span>
+              </label>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="flex items-center gap-2">
+        <div className="flex-1">
+          <label className="settings-label">Scope</label>
+          <input
+            value={draft.scope}
+            onChange={(e) => update({ scope: e.target.value })}
+            placeholder="Whole document"
+            list="gate-editor-sections"
+            className="settings-input"
+          />
+          <datalist id="gate-editor-sections">
+            {sections.map(s => <option key={s} value={s} />)}
+          </datalist>
+        </div>
+        <div>
+          <label className="settings-label">Min priority</label>
+          <select
+            value={draft.minPriority}
+            onChange={(e) => update({ minPriority: e.target.value as MemoPriority | '' })}
+            className="settings-input"
+            style={{ width: 'auto' }}
+          >
+            <option value="">Any</option>
+            {MEMO_PRIORITIES.map(p => <option key={p} value={p}>{p} or above</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="settings-label">Sign-offs</label>
+          <input
+            type="number"
+            min={0}
+            value={draft.requiredSignoffs}
+            onChange={(e) => update({ requiredSignoffs: Math.max(0, Number(e.target.value) || 0) })}
+            title="People who must sign off before the gate is done"
+            className="settings-input"
+            style={{ width: '4.5rem' }}
+          />
+        </div>
+      </div>
+
+      <label className="settings-label">Conditions</label>
+      <input
+        value={draft.canProceedIf}
+        onChange={(e) => update({ canProceedIf: e.target.value })}
+        placeholder="Can proceed if… e.g. fix.open == 0 && question.open <= 1"
+        className="settings-input"
+      />
+      <input
+        value={draft.doneDefinition}
+        onChange={(e) => update({ doneDefinition: e.target.value })}
+        placeholder="Done when… e.g. memo.resolved && task(Phase 2).done"
+        className="settings-input mt-1"
+      />
+
+      <div className="flex justify-end gap-2 mt-4">
+        {gate && (
+          <button onClick={() => onDelete(gate.id)} className="settings-btn mr-auto text-rose-500">Delete gate</button>
+        )}
+        <button onClick={onClose} className="settings-btn">Cancel</button>
+        <button
+          onClick={() => onSave({ ...draft, minPriority: draft.minPriority || null, scope: draft.scope || null }, gate?.id ?? null)}
+          className="settings-btn settings-btn-primary"
+        >
+          {gate ? 'Save' : 'Add gate'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function toDraft(gate: GateView | null) {
+  return {
+    id: gate?.id ?? '',
+    type: gate?.type ?? ('implement' as Gate['type']),
+    blockedBy: gate?.blockedBy ?? [],
+    dependsOn: gate?.dependsOn ?? [],
+    minPriority: (gate?.minPriority ?? '') as MemoPriority | '',
+    scope: gate?.scope ?? '',
+    canProceedIf: gate?.canProceedIf ?? '',
+    doneDefinition: gate?.doneDefinition ?? '',
+    requiredSignoffs: gate?.requiredSignoffs ?? 0,
+  }
+}
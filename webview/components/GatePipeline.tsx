@@ -0,0 +1,110 @@
+import { useState } from 'react'
+import { kindForType, type Gate } from '../../shared/types'
+import { getKinds } from '../lib/annotation-kinds'
+
+/** A memo as listed in `gates.update`: what holds a gate, and what the gate editor can pick */
+export interface GateMemo {
+  id: string
+  type: string
+  status: string
+  text: string                  // first line
+}
+
+/** An evaluated gate as posted in `gates.update`, in dependency order */
+export interface GateView extends Omit<Gate, 'scope' | 'dependsOn'> {
+  scope: string | null
+  dependsOn: string[]
+  reason: string | null         // why it is not done, null when done
+  blocking: GateMemo[]
+}
+
+const STATUS_ICONS: Record<Gate['status'], string> = { blocked: '●', proceed: '◐', 'awaiting-signoff': '✎', done: '✓' }
+export const GATE_STATUS_LABELS: Record<Gate['status'], string> = {
+  blocked: 'BLOCKED',
+  proceed: 'PROCEED',
+  'awaiting-signoff': 'SIGN-OFF',
+  done: 'CLEAR',
+}
+
+function gateName(gate: GateView): string {
+  const name = gate.type === 'custom' ? gate.id : gate.type
+  return gate.scope ? `${name} · ${gate.scope}` : name
+}
+
+interface GatePipelineProps {
+  gates: GateView[]
+  onEdit: (gate: GateView) => void
+  onAdd: () => void
+  onSignoff: (id: string) => void
+}
+
+/** Status-bar pipeline: one chip per gate (→ where it depends on the one before); a chip opens why it is held and the memos holding it */
+export default function GatePipeline({ gates, onEdit, onAdd, onSignoff }: GatePipelineProps) {
+  const [openId, setOpenId] = useState<string | null>(null)
+  const open = gates.find(g => g.id === openId)
+
+  return (
+    <div className="gate-pipeline">
+      {gates.map((gate, idx) => (
+        <span key={gate.id} className="flex items-center gap-1">
+          {idx > 0 && <span className="text-stone-300">{gate.dependsOn.includes(gates[idx - 1].id) ? '→' : '·'}</span>}
+          <button
+            onClick={() => setOpenId(openId === gate.id ? null : gate.id)}
+            className={`gate-chip gate-chip-${gate.status}`}
+            title={`${gate.id}: ${GATE_STATUS_LABELS[gate.status]}${gate.reason ? ` — ${gate.reason}` : ''}`}
+          >
+            {STATUS_ICONS[gate.status]} {gateName(gate)}
+            {gate.blocking.length > 0 && <span className="gate-chip-count">{gate.blocking.length}</span>}
+          </button>
+        </span>
+      ))}
+      <button onClick={onAdd} className="gate-chip text-stone-400 hover:bg-stone-100" title="Add a gate">+ Gate</button>
+      {open && (
+        <div className="gate-pipeline-menu">
+          <div className="font-medium text-stone-700">
+            {gateName(open)} — {GATE_STATUS_LABELS[open.status]}
+            {open.dependsOn.length > 0 && <span className="font-normal text-stone-400"> (after {open.dependsOn.join(', ')})</span>}
+          </div>
+          {open.reason && <div className="text-stone-500">{open.reason}</div>}
+          {open.blocking.length > 0 ? (
+            <ul className="mt-1 space-y-0.5">
+              {open.blocking.map(m => {
+                const kind = kindForType(m.type, getKinds())
+                return (
+                  <li key={m.id} className="flex items-center gap-2">
+                    <span className="font-semibold uppercase text-[10px] tracking-wider" style={{ color: kind.accent }}>{kind.label}</span>
+                    <span className="text-stone-600 truncate" title={m.text}>{m.text || m.id}</span>
+                  </li>
+                )
+              })}
+            </ul>
+          ) : open.status !== 'done' && open.status !== 'awaiting-signoff' && (
+            <div className="text-stone-400">No open memos hold this gate</div>
+          )}
+          {(open.signoffs ?? []).length > 0 && (
+            <div className="mt-1 text-stone-500">
+              Signed off by {open.signoffs!.map(s => `${s.name} (${s.at.slice(0, 10)})`).join(', ')}
+            </div>
+          )}
+          <div className="flex gap-2 mt-2">
+            {open.status === 'awaiting-signoff' && (
+              <button
+                onClick={() => { setOpenId(null); onSignoff(open.id) }}
+                className="settings-btn settings-btn-primary"
+                title="Record your sign-off under your git user.name / user.email"
+              >
+                Sign off
+              </button>
+            )}
+            <button
+              onClick={() => { setOpenId(null); onEdit(open) }}
+              className="settings-btn"
+            >
+              Edit gate
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
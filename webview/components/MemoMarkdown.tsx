@@ -0,0 +1,145 @@
+import type { ReactNode } from 'react'
+
+type Block =
+  | { type: 'code'; lang: string; lines: string[] }
+  | { type: 'list'; ordered: boolean; items: { indent: number; text: string }[] }
+  | { type: 'quote'; lines: string[] }
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; lines: string[] }
+
+const FENCE_RE = /^\s*(`{3,}|~{3,})\s*(\S*)/
+const LIST_ITEM_RE = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/
+const QUOTE_RE = /^\s*>\s?(.*)$/
+const HEADING_RE = /^\s*#{1,6}\s+(.+?)\s*#*\s*$/
+const INLINE_RE = /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s](?:[^*]*[^*\s])?)\*|_([^_\s](?:[^_]*[^_\s])?)_|\[([^\]]+)\]\(([^)\s]+)\)/g
+
+/** Split memo text into the few block types a memo card renders */
+function parseBlocks(text: string): Block[] {
+  const lines = text.split('\n')
+  const blocks: Block[] = []
+  let i = 0
+  while (i < lines.length) {
+    const line = lines[i]
+    const fence = line.match(FENCE_RE)
+    if (fence) {
+      const marker = fence[1]
+      const closes = (l: string) => l.trim().length >= marker.length && l.trim() === marker[0].repeat(l.trim().length)
+      const body: string[] = []
+      i++
+      while (i < lines.length && !closes(lines[i])) {
+        body.push(lines[i])
+        i++
+      }
+      blocks.push({ type: 'code', lang: fence[2], lines: body })
+      i++
+      continue
+    }
+    if (!line.trim()) { i++; continue }
+
+    const item = line.match(LIST_ITEM_RE)
+    if (item) {
+      const ordered = /\d/.test(item[2])
+      const items: { indent: number; text: string }[] = []
+      while (i < lines.length && lines[i].trim()) {
+        const m = lines[i].match(LIST_ITEM_RE)
+        if (m) items.push({ indent: Math.floor(m[1].length / 2), text: m[3] })
+        else items[items.length - 1].text += '\n' + lines[i].trim()   // lazy continuation
+        i++
+      }
+      blocks.push({ type: 'list', ordered, items })
+      continue
+    }
+
+    if (QUOTE_RE.test(line)) {
+      const quoted: string[] = []
+      while (i < lines.length && QUOTE_RE.test(lines[i])) quoted.push(lines[i++].match(QUOTE_RE)![1])
+      blocks.push({ type: 'quote', lines: quoted })
+      continue
+    }
+
+    const heading = line.match(HEADING_RE)
+    if (heading) {
+      blocks.push({ type: 'heading', text: heading[1] })
+      i++
+      continue
+    }
+
+    const para: string[] = []
+    while (i < lines.length && lines[i].trim() && !FENCE_RE.test(lines[i]) && !LIST_ITEM_RE.test(lines[i]) && !QUOTE_RE.test(lines[i])) {
+      para.push(lines[i++])
+    }
+    blocks.push({ type: 'paragraph', lines: para })
+  }
+  return blocks
+}
+
+/** Inline code, bold, italic and links; everything else is plain text */
+function renderInline(text: string): ReactNode[] {
+  const out: ReactNode[] = []
+  let last = 0
+  const re = new RegExp(INLINE_RE)   // own lastIndex: bold/italic recurse
+  let m: RegExpExecArray | null
+  while ((m = re.exec(text)) !== null) {
+    if (m.index > last) out.push(text.slice(last, m.index))
+    const key = m.index
+    if (m[1] != null) {
+      out.push(<code key={key} className="px-1 rounded bg-stone-100 text-[12.5px] font-mono text-stone-700">{m[1]}</code>)
+    } else if (m[2] != null || m[3] != null) {
+      out.push(<strong key={key} className="font-semibold text-stone-700">{renderInline(m[2] ?? m[3])}</strong>)
+    } else if (m[4] != null || m[5] != null) {
+      out.push(<em key={key}>{renderInline(m[4] ?? m[5])}</em>)
+    } else if (/^(https?:|mailto:)/.test(m[7])) {
+      out.push(<a key={key} href={m[7]} title={m[7]} className="underline text-sky-700">{m[6]}</a>)
+    } else {
+      out.push(m[6])
+    }
+    last = m.index + m[0].length
+  }
+  if (last < text.length) out.push(text.slice(last))
+  return out
+}
+
+/** Line breaks inside a paragraph or list item are kept, as typed */
+function renderLines(lines: string[]): ReactNode[] {
+  return lines.flatMap((line, idx) => idx === 0 ? renderInline(line) : [<br key={`br${idx}`} />, ...renderInline(line)])
+}
+
+/** Memo text rendered as markdown: paragraphs, lists, quotes, code fences and inline formatting */
+export default function MemoMarkdown({ text }: { text: string }) {
+  return (
+    <div className="space-y-1.5">
+      {parseBlocks(text).map((block, idx) => {
+        switch (block.type) {
+          case 'code':
+            return (
+              <pre key={idx} className="rounded bg-stone-50 px-2 py-1.5 text-[12.5px] leading-snug font-mono text-stone-700 overflow-x-auto" title={block.lang || undefined}>
+                <code>{block.lines.join('\n')}</code>
+              </pre>
+            )
+          case 'list': {
+            const Tag = block.ordered ? 'ol' : 'ul'
+            return (
+              <Tag key={idx} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-5 space-y-0.5`}>
+                {block.items.map((item, j) => (
+                  <li key={j} style={item.indent ? { marginLeft: `${item.indent}rem` } : undefined}>
+                    {renderLines(item.text.split('\n'))}
+                  </li>
+                ))}
+              </Tag>
+            )
+          }
+          case 'quote':
+            return (
+              <blockquote key={idx} className="border-l-2 border-stone-200 pl-2 text-stone-500">
+                {renderLines(block.lines)}
+              </blockquote>
+            )
+          case 'heading':
+            return <p key={idx} className="font-semibold text-stone-700">{renderInline(block.text)}</p>
+          case 'paragraph':
+            return <p key={idx}>{renderLines(block.lines)}</p>
+        }
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+import { useState } from 'react'
+import type { OrphanedMemo } from './Editor'
+import { kindOf } from '../lib/annotation-kinds'
+
+interface OrphanedMemosProps {
+  orphans: OrphanedMemo[]
+  canAttach: boolean
+  onAttach: (memoId: string) => void
+}
+
+/** Tray of memos whose anchored text is gone; each can be re-attached to the current selection */
+export default function OrphanedMemos({ orphans, canAttach, onAttach }: OrphanedMemosProps) {
+  const [expanded, setExpanded] = useState(true)
+
+  return (
+    <div className="orphan-tray">
+      <button onClick={() => setExpanded(!expanded)} className="orphan-tray-title">
+        {expanded ? '▾' : '▸'} {orphans.length} orphaned memo{orphans.length === 1 ? '' : 's'}
+        <span className="font-normal text-stone-400">— anchored text not found. Select new text, then Re-attach.</span>
+      </button>
+      {expanded && (
+        <ul className="mt-1.5 space-y-1">
+          {orphans.map((o) => {
+            const kind = kindOf(o.color)
+            return (
+              <li key={o.id} className="flex items-center gap-2 text-[12px]">
+                <span className="font-semibold uppercase text-[10px] tracking-wider" style={{ color: kind.accent }}>{kind.label}</span>
+                <span className="text-stone-600 truncate flex-1" title={o.text}>{o.text || '(empty memo)'}</span>
+                {o.anchorText && (
+                  <span className="text-stone-300 italic truncate max-w-[160px] line-through" title={o.anchorText}>{o.anchorText}</span>
+                )}
+                <button
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => onAttach(o.id)}
+                  disabled={!canAttach}
+                  className={`orphan-attach-btn ${canAttach ? '' : 'opacity-40 pointer-events-none'}`}
+                  title={canAttach ? 'Attach this memo to the selected text' : 'Select text in the document first'}
+                >
+                  Re-attach
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+import { useState, useEffect } from 'react'
+import { PLAN_STATUS_LABELS, GATE_TYPES, type Gate, type GateTemplate, type ReviewSettings } from '../../shared/types'
+import { TARGET_LABELS, type TargetFormat } from '../../shared/context-generator'
+import type { SettingsIssue } from '../../shared/review-settings'
+
+interface SettingsDrawerProps {
+  settings: ReviewSettings
+  issues: SettingsIssue[]
+  onSave: (settings: ReviewSettings) => void
+  onAddGate: (templateId: string) => void
+  onClose: () => void
+}
+
+/** Per-plan review settings, stored in the document's frontmatter `review:` block */
+export default function SettingsDrawer({ settings, issues, onSave, onAddGate, onClose }: SettingsDrawerProps) {
+  const [draft, setDraft] = useState<ReviewSettings>(settings)
+  const [reviewers, setReviewers] = useState(settings.reviewers.join(', '))
+
+  // The document changed underneath (e.g. frontmatter edited by hand)
+  useEffect(() => {
+    setDraft(settings)
+    setReviewers(settings.reviewers.join(', '))
+  }, [settings])
+
+  const update = (patch: Partial<ReviewSettings>) => setDraft(d => ({ ...d, ...patch }))
+  const updateTemplate = (idx: number, patch: Partial<GateTemplate>) =>
+    update({ gateTemplates: draft.gateTemplates.map((t, i) => i === idx ? { ...t, ...patch } : t) })
+
+  const toggleTarget = (target: TargetFormat) => update({
+    exportTargets: draft.exportTargets.includes(target)
+      ? draft.exportTargets.filter(t => t !== target)
+      : [...draft.exportTargets, target],
+  })
+
+  const handleSave = () => {
+    onSave({
+      ...draft,
+      reviewers: reviewers.split(',').map(r => r.trim()).filter(Boolean),
+      gateTemplates: draft.gateTemplates.filter(t => t.id.trim()).map(t => ({ ...t, id: t.id.trim() })),
+    })
+  }
+
+  return (
+    <div className="settings-drawer">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[13px] font-semibold text-stone-700">Review settings</span>
+        <span className="text-[11px] text-stone-400">Saved in the frontmatter</span>
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="settings-issues">
+          {issues.map((issue, i) => <li key={i}>Line {issue.line + 1}: {issue.message}</li>)}
+        </ul>
+      )}
+
+      <label className="settings-label">Review state</label>
+      <p className="text-[12px] text-stone-600">
+        {PLAN_STATUS_LABELS[draft.status]} <span className="text-stone-400">· change it from the status bar</span>
+      </p>
+
+      <label className="settings-label">Reviewers</label>
+      <input
+        value={reviewers}
+        onChange={(e) => setReviewers(e.target.value)}
+        placeholder="alice, bob"
+        className="settings-input"
+      />
+
+      <label className="settings-label">Default export targets</label>
+      <div className="flex flex-wrap gap-x-3 gap-y-1">
+        {(Object.keys(TARGET_LABELS) as TargetFormat[]).map(t => (
+          <label key={t} className="flex items-center gap-1 text-[12px] text-stone-600">
+            <input type="checkbox" checked={draft.exportTargets.includes(t)} onChange={() => toggleTarget(t)} />
+            {TARGET_LABELS[t].label}
+          </label>
+        ))}
+      </div>
+
+      <label className="settings-label">Auto-checkpoint</label>
+      <div className="flex items-center gap-4 text-[12px] text-stone-600">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={draft.autoCheckpoint.onFirstAnnotation}
+            onChange={(e) => update({ autoCheckpoint: { ...draft.autoCheckpoint, onFirstAnnotation: e.target.checked } })}
+          />
+          On first annotation
+        </label>
+        <label className="flex items-center gap-1">
+          Every
+          <input
+            type="number"
+            min={0}
+            value={draft.autoCheckpoint.intervalMinutes}
+            onChange={(e) => update({ autoCheckpoint: { ...draft.autoCheckpoint, intervalMinutes: Math.max(0, Number(e.target.value) || 0) } })}
+            className="settings-input"
+            style={{ width: '3.5rem' }}
+          />
+          min (0 = off)
+        </label>
+      </div>
+
+      <label className="settings-label">Gate templates</label>
+      {draft.gateTemplates.map((t, idx) => (
+        <div key={idx} className="settings-template">
+          <div className="flex items-center gap-2">
+            <input
+              value={t.id}
+              onChange={(e) => updateTemplate(idx, { id: e.target.value })}
+              placeholder="gate id"
+              className="settings-input flex-1"
+            />
+            <select
+              value={t.type}
+              onChange={(e) => updateTemplate(idx, { type: e.target.value as Gate['type'] })}
+              className="settings-input"
+              style={{ width: 'auto' }}
+            >
+              {GATE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+            <button
+              onClick={() => onAddGate(t.id)}
+              disabled={!settings.gateTemplates.some(s => s.id === t.id)}
+              title="Add this gate to the document (save the template first)"
+              className="settings-btn"
+            >
+              Add gate
+            </button>
+            <button
+              onClick={() => update({ gateTemplates: draft.gateTemplates.filter((_, i) => i !== idx) })}
+              title="Remove template"
+              className="text-stone-300 hover:text-rose-400 px-1"
+            >
+              ✕
+            </button>
+          </div>
+          <input
+            value={t.canProceedIf}
+            onChange={(e) => updateTemplate(idx, { canProceedIf: e.target.value })}
+            placeholder="Can proceed if…"
+            className="settings-input mt-1"
+          />
+          <input
+            value={t.doneDefinition}
+            onChange={(e) => updateTemplate(idx, { doneDefinition: e.target.value })}
+            placeholder="Done when…"
+            className="settings-input mt-1"
+          />
+        </div>
+      ))}
+      <button
+        onClick={() => update({ gateTemplates: [...draft.gateTemplates, { id: '', type: 'custom', canProceedIf: '', doneDefinition: '' }] })}
+        className="text-[12px] text-stone-400 hover:text-stone-600"
+      >
+        + Add template
+      </button>
+
+      <div className="flex justify-end gap-2 mt-4">
+        <button onClick={onClose} className="settings-btn">Close</button>
+        <button onClick={handleSave} className="settings-btn settings-btn-primary">Save</button>
+      </div>
+    </div>
+  )
+}
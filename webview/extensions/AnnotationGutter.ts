@@ -0,0 +1,103 @@
+import { Extension } from '@tiptap/core'
+import { Plugin, PluginKey } from '@tiptap/pm/state'
+import { Decoration, DecorationSet } from '@tiptap/pm/view'
+import type { Node as PMNode } from '@tiptap/pm/model'
+import type { MemoTarget } from '../../shared/types'
+import { formatTargetLabel } from '../../shared/memo-targets'
+import { kindOf } from '../lib/annotation-kinds'
+
+/**
+ * Code-line and cell memos sit after their code block or table (see
+ * shared/memo-targets.ts). This marks what they point at: a tint and a gutter
+ * dot on each targeted code line, an outline on the targeted cell.
+ */
+
+const gutterKey = new PluginKey('annotationGutter')
+
+/** The code block or table a memo card at `memoPos` belongs to: the nearest block above it, other memo cards skipped */
+export function findTargetBlock(doc: PMNode, memoPos: number): { node: PMNode; pos: number } | null {
+  const $pos = doc.resolve(memoPos)
+  let pos = memoPos
+  for (let idx = $pos.index(); idx > 0; idx--) {
+    const prev = $pos.parent.child(idx - 1)
+    pos -= prev.nodeSize
+    if (prev.type.name === 'memoBlock') continue
+    return prev.type.name === 'codeBlock' || prev.type.name === 'table' ? { node: prev, pos } : null
+  }
+  return null
+}
+
+/** Document ranges a target covers in its block: one per code line, or the cell's content */
+export function targetRanges(block: { node: PMNode; pos: number }, target: MemoTarget): { from: number; to: number }[] {
+  const { node, pos } = block
+  if (target.kind === 'code') {
+    if (node.type.name !== 'codeBlock') return []
+    const ranges: { from: number; to: number }[] = []
+    let from = pos + 1
+    node.textContent.split('\n').forEach((line, i) => {
+      if (i + 1 >= target.startLine && i + 1 <= target.endLine) ranges.push({ from, to: from + line.length })
+      from += line.length + 1
+    })
+    return ranges
+  }
+  if (node.type.name !== 'table' || target.row >= node.childCount) return []
+  let rowPos = pos + 1
+  for (let r = 0; r < target.row; r++) rowPos += node.child(r).nodeSize
+  const row = node.child(target.row)
+  if (target.col < 1 || target.col > row.childCount) return []
+  let cellPos = rowPos + 1
+  for (let c = 0; c < target.col - 1; c++) cellPos += row.child(c).nodeSize
+  return [{ from: cellPos, to: cellPos + row.child(target.col - 1).nodeSize }]
+}
+
+function buildDecorations(doc: PMNode): DecorationSet {
+  const decorations: Decoration[] = []
+  doc.descendants((node, pos) => {
+    if (node.type.name !== 'memoBlock') return
+    const target = node.attrs.target as MemoTarget | null
+    const block = target ? findTargetBlock(doc, pos) : null
+    if (!target || !block) return false
+    const style = `--annotation-accent: ${kindOf(node.attrs.color).accent}`
+    const title = `${formatTargetLabel(target)}: ${node.attrs.text || kindOf(node.attrs.color).label}`
+
+    for (const { from, to } of targetRanges(block, target)) {
+      if (target.kind === 'cell') {
+        decorations.push(Decoration.node(from, to, { class: 'annotated-cell', style, title }))
+        continue
+      }
+      if (to > from) decorations.push(Decoration.inline(from, to, { class: 'annotated-line', style }))
+      decorations.push(Decoration.widget(from, (view) => {
+        const dot = document.createElement('span')
+        dot.className = 'annotation-gutter-dot'
+        dot.setAttribute('style', style)
+        dot.title = title
+        dot.addEventListener('mousedown', (e) => {
+          e.preventDefault()
+          ;(view.nodeDOM(pos) as HTMLElement | null)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+        })
+        return dot
+      }, { side: -1, key: `${node.attrs.memoId}:${from}`, ignoreSelection: true }))
+    }
+    return false
+  })
+  return DecorationSet.create(doc, decorations)
+}
+
+export const AnnotationGutter = Extension.create({
+  name: 'annotationGutter',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: gutterKey,
+        state: {
+          init: (_, state) => buildDecorations(state.doc),
+          apply: (tr, old) => tr.docChanged ? buildDecorations(tr.doc) : old,
+        },
+        props: {
+          decorations: (state) => gutterKey.getState(state),
+        },
+      }),
+    ]
+  },
+})
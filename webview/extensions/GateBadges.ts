@@ -0,0 +1,66 @@
+import { Extension } from '@tiptap/core'
+import { Plugin, PluginKey } from '@tiptap/pm/state'
+import { Decoration, DecorationSet } from '@tiptap/pm/view'
+import type { Node as PMNode } from '@tiptap/pm/model'
+import { matchesScope } from '../../shared/gate-evaluator'
+import { GATE_STATUS_LABELS, type GateView } from '../components/GatePipeline'
+
+/**
+ * Section-scoped gates (`scope="Phase 2"`) only count memos under their heading,
+ * so their status is shown there: a badge at the end of the matching heading.
+ * The gate list (`gates.update`, all gates) is set as `gateBadgesKey` meta.
+ */
+
+interface GateBadgesState {
+  gates: GateView[]
+  decorations: DecorationSet
+}
+
+export const gateBadgesKey = new PluginKey<GateBadgesState>('gateBadges')
+
+function buildDecorations(doc: PMNode, gates: GateView[]): DecorationSet {
+  if (!gates.some(g => g.scope)) return DecorationSet.empty
+  const decorations: Decoration[] = []
+  const placed = new Set<string>()
+  doc.descendants((node, pos) => {
+    if (node.type.name !== 'heading') return node.isBlock
+    // Like the evaluator, a scope belongs to the first heading it matches
+    const here = gates.filter(g => g.scope && !placed.has(g.id) && matchesScope(node.textContent, g.scope))
+    for (const gate of here) {
+      placed.add(gate.id)
+      decorations.push(Decoration.widget(pos + node.nodeSize - 1, () => {
+        const badge = document.createElement('span')
+        badge.className = `gate-badge gate-badge-${gate.status}`
+        badge.contentEditable = 'false'
+        badge.textContent = `${gate.type} gate · ${GATE_STATUS_LABELS[gate.status]}`
+        badge.title = gate.reason ? `${gate.id}: ${gate.reason}` : gate.id
+        return badge
+      }, { side: 1, key: `${gate.id}:${gate.status}:${gate.reason ?? ''}`, ignoreSelection: true }))
+    }
+    return false
+  })
+  return DecorationSet.create(doc, decorations)
+}
+
+export const GateBadges = Extension.create({
+  name: 'gateBadges',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<GateBadgesState>({
+        key: gateBadgesKey,
+        state: {
+          init: () => ({ gates: [], decorations: DecorationSet.empty }),
+          apply: (tr, old) => {
+            const gates = tr.getMeta(gateBadgesKey) as GateView[] | undefined
+            if (gates) return { gates, decorations: buildDecorations(tr.doc, gates) }
+            return tr.docChanged ? { gates: old.gates, decorations: buildDecorations(tr.doc, old.gates) } : old
+          },
+        },
+        props: {
+          decorations: (state) => gateBadgesKey.getState(state)?.decorations,
+        },
+      }),
+    ]
+  },
+})
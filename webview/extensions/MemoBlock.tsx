@@ -1,7 +1,10 @@
 import { Node, mergeAttributes } from '@tiptap/core'
 import { ReactNodeViewRenderer, NodeViewWrapper } from '@tiptap/react'
 import { useState, useRef, useEffect, useCallback } from 'react'
-import { MEMO_ACCENT, HIGHLIGHT_COLORS, type MemoColor, type MemoStatus, type HighlightColor } from '../../shared/types'
+import { MEMO_PRIORITIES, normalizeLabels, type MemoColor, type MemoStatus, type MemoPriority, type MemoReply, type MemoStatusChange, type MemoTarget, type TextAnchor } from '../../shared/types'
+import { formatTargetLabel } from '../../shared/memo-targets'
+import { kindOf, kindOfMemo } from '../lib/annotation-kinds'
+import MemoMarkdown from '../components/MemoMarkdown'
 
 const STATUS_LABELS: Record<MemoStatus, { label: string; color: string; bg: string }> = {
   open:     { label: 'Open',     color: 'text-amber-700',  bg: 'bg-amber-50' },
@@ -10,6 +13,52 @@ const STATUS_LABELS: Record<MemoStatus, { label: string; color: string; bg: stri
   wontfix:  { label: "Won't fix", color: 'text-stone-500',  bg: 'bg-stone-100' },
 }
 
+const PRIORITY_STYLES: Record<MemoPriority, string> = {
+  P0: 'text-white bg-red-600',
+  P1: 'text-red-700 bg-red-50',
+  P2: 'text-amber-700 bg-amber-50',
+  P3: 'text-stone-500 bg-stone-100',
+}
+
+function parseJsonList<T>(raw: string | null): T[] {
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+function parseRange(raw: string | null): TextAnchor | null {
+  if (!raw) return null
+  try {
+    const parsed = JSON.parse(raw)
+    return typeof parsed?.start === 'number' && typeof parsed?.end === 'number' ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+function parseTarget(raw: string | null): MemoTarget | null {
+  if (!raw) return null
+  try {
+    const parsed = JSON.parse(raw)
+    return parsed?.kind === 'code' || parsed?.kind === 'cell' ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+/** Attribute update for a status change made in the panel, recorded in the memo's history */
+function statusChangeAttrs(attrs: Record<string, any>, to: MemoStatus): Record<string, any> {
+  const at = new Date().toISOString()
+  const from = (attrs.status || 'open') as MemoStatus
+  if (from === to) return { updatedAt: at }
+  const entry: MemoStatusChange = { from, to, actor: 'human', source: 'panel', at }
+  return { status: to, history: [...(attrs.history || []), entry], updatedAt: at }
+}
+
 export const MemoBlock = Node.create({
   name: 'memoBlock',
   group: 'block',
@@ -22,8 +71,23 @@ export const MemoBlock = Node.create({
       memoId:     { default: '' },
       text:       { default: '' },
       color:      { default: 'red' as MemoColor },
+      memoType:   { default: '' },          // stored kind; '' for memos made before kinds were carried
       anchorText: { default: '' },
       status:     { default: 'open' as MemoStatus },
+      priority:   { default: '' },
+      labels:     { default: [] as string[], rendered: false },
+      dependsOn:  { default: [] as string[], rendered: false },
+      anchor:     { default: '' },
+      range:      { default: null as TextAnchor | null, rendered: false },
+      target:     { default: null as MemoTarget | null, rendered: false },
+      orphaned:   { default: false, rendered: false },
+      suggestion: { default: null as string | null, rendered: false },
+      owner:      { default: 'human' },
+      source:     { default: 'generic' },
+      createdAt:  { default: '' },
+      updatedAt:  { default: '' },
+      replies:    { default: [] as MemoReply[], rendered: false },
+      history:    { default: [] as MemoStatusChange[], rendered: false },
     }
   },
 
@@ -36,21 +100,52 @@ export const MemoBlock = Node.create({
           memoId: element.getAttribute('data-memo-id') || '',
           text:   element.getAttribute('data-memo-text') || '',
           color:  element.getAttribute('data-memo-color') || 'red',
+          memoType: element.getAttribute('data-memo-type') || '',
           status: element.getAttribute('data-memo-status') || 'open',
+          priority: element.getAttribute('data-memo-priority') || '',
+          labels: normalizeLabels((element.getAttribute('data-memo-labels') || '').split(',')),
+          dependsOn: (element.getAttribute('data-memo-depends-on') || '').split(',').filter(Boolean),
           anchorText: element.getAttribute('data-memo-anchor') || '',
+          anchor: element.getAttribute('data-memo-anchor-ref') || '',
+          range: parseRange(element.getAttribute('data-memo-range')),
+          target: parseTarget(element.getAttribute('data-memo-target')),
+          orphaned: element.getAttribute('data-memo-orphaned') === 'true',
+          suggestion: element.getAttribute('data-memo-suggestion'),
+          owner:  element.getAttribute('data-memo-owner') || 'human',
+          source: element.getAttribute('data-memo-source') || 'generic',
+          createdAt: element.getAttribute('data-memo-created') || '',
+          updatedAt: element.getAttribute('data-memo-updated') || '',
+          replies: parseJsonList<MemoReply>(element.getAttribute('data-memo-replies')),
+          history: parseJsonList<MemoStatusChange>(element.getAttribute('data-memo-history')),
         }
       },
     }]
   },
 
-  renderHTML({ HTMLAttributes }) {
+  renderHTML({ node, HTMLAttributes }) {
     return ['div', mergeAttributes(HTMLAttributes, {
       'data-memo-block': '',
       'data-memo-id':    HTMLAttributes.memoId,
       'data-memo-text':  HTMLAttributes.text,
       'data-memo-color': HTMLAttributes.color,
+      'data-memo-type': HTMLAttributes.memoType || null,
       'data-memo-status': HTMLAttributes.status || 'open',
-    }), `memo: ${HTMLAttributes.text || ''}`]
+      'data-memo-priority': HTMLAttributes.priority || '',
+      'data-memo-labels': (node.attrs.labels || []).join(','),
+      'data-memo-depends-on': (node.attrs.dependsOn || []).join(','),
+      'data-memo-anchor': HTMLAttributes.anchorText,
+      'data-memo-anchor-ref': HTMLAttributes.anchor,
+      'data-memo-range': node.attrs.range ? JSON.stringify(node.attrs.range) : null,
+      'data-memo-target': node.attrs.target ? JSON.stringify(node.attrs.target) : null,
+      'data-memo-orphaned': node.attrs.orphaned ? 'true' : null,
+      'data-memo-suggestion': node.attrs.suggestion,
+      'data-memo-owner': HTMLAttributes.owner,
+      'data-memo-source': HTMLAttributes.source,
+      'data-memo-created': HTMLAttributes.createdAt,
+      'data-memo-updated': HTMLAttributes.updatedAt,
+      'data-memo-replies': JSON.stringify(node.attrs.replies || []),
+      'data-memo-history': JSON.stringify(node.attrs.history || []),
+    }), `memo: ${(HTMLAttributes.text || '').replace(/\s*\n\s*/g, ' ')}`]
   },
 
   addNodeView() {
@@ -62,12 +157,27 @@ function MemoBlockView({ node, updateAttributes, deleteNode, selected, editor }:
   const [editing, setEditing] = useState(!node.attrs.text)
   const [text, setText] = useState(node.attrs.text || '')
   const [showStatusMenu, setShowStatusMenu] = useState(false)
+  const [showPriorityMenu, setShowPriorityMenu] = useState(false)
   const inputRef = useRef<HTMLTextAreaElement>(null)
   const statusMenuRef = useRef<HTMLDivElement>(null)
+  const priorityMenuRef = useRef<HTMLDivElement>(null)
   const color = (node.attrs.color || 'red') as MemoColor
   const status = (node.attrs.status || 'open') as MemoStatus
-  const accent = MEMO_ACCENT[color]
+  const kind = kindOfMemo(node.attrs.memoType, color)
   const statusInfo = STATUS_LABELS[status]
+  const isAgent = node.attrs.owner === 'agent'
+  const priority = (node.attrs.priority || '') as MemoPriority | ''
+  const dependsOn = (node.attrs.dependsOn || []) as string[]
+
+  // Dependencies that are still open in this document
+  const waitingOn: string[] = []
+  if (dependsOn.length > 0 && editor) {
+    editor.state.doc.descendants((n: any) => {
+      if (n.type.name === 'memoBlock' && dependsOn.includes(n.attrs.memoId) && (n.attrs.status || 'open') === 'open') {
+        waitingOn.push(n.attrs.memoId)
+      }
+    })
+  }
 
   // Close status menu on click outside
   useEffect(() => {
@@ -81,6 +191,20 @@ function MemoBlockView({ node, updateAttributes, deleteNode, selected, editor }:
     return () => document.removeEventListener('mousedown', handleClick)
   }, [showStatusMenu])
 
+  // Close priority menu on click outside
+  useEffect(() => {
+    if (!showPriorityMenu) return
+    const handleClick = (e: MouseEvent) => {
+      // `Node` here is TipTap's node class, not the DOM Node
+      if (!(e.target instanceof globalThis.Node)) return
+      if (priorityMenuRef.current && !priorityMenuRef.current.contains(e.target)) {
+        setShowPriorityMenu(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [showPriorityMenu])
+
   useEffect(() => {
     if (editing) {
       setTimeout(() => inputRef.current?.focus(), 50)
@@ -92,13 +216,14 @@ function MemoBlockView({ node, updateAttributes, deleteNode, selected, editor }:
       handleDelete()
       return
     }
-    updateAttributes({ text })
+    updateAttributes({ text, updatedAt: new Date().toISOString() })
     setEditing(false)
   }
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     e.stopPropagation()
-    if (e.key === 'Enter' && !e.shiftKey) {
+    // Enter is a newline (lists, code); Ctrl/Cmd+Enter saves
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
       e.preventDefault()
       handleSave()
     }
@@ -132,9 +257,9 @@ function MemoBlockView({ node, updateAttributes, deleteNode, selected, editor }:
 
     let tr = editor.state.tr
 
-    // Remove associated highlight mark (fix / question only)
-    if (memoColor !== 'yellow') {
-      const highlightColor = HIGHLIGHT_COLORS[memoColor as HighlightColor]
+    // Remove associated highlight mark (kinds that carry memo cards); code lines have none
+    if (kindOf(memoColor).memo && node.attrs.target?.kind !== 'code') {
+      const highlightColor = kindOf(memoColor).highlight
       if (highlightColor) {
         const markType = editor.schema.marks.highlight
 
@@ -189,20 +314,98 @@ function MemoBlockView({ node, updateAttributes, deleteNode, selected, editor }:
     editor.view.dispatch(tr)
   }, [node.attrs, node.nodeSize, editor, deleteNode])
 
+  // Replace the anchored text in the plan with the suggestion and mark the memo done
+  const handleApplySuggestion = useCallback(() => {
+    const { anchorText, suggestion, color: memoColor } = node.attrs
+    if (!editor || suggestion == null || !anchorText) return
+
+    let memoPos = -1
+    editor.state.doc.descendants((n: any, pos: number) => {
+      if (memoPos >= 0) return false
+      if (n.type.name === 'memoBlock' && n.attrs.memoId === node.attrs.memoId) {
+        memoPos = pos
+        return false
+      }
+    })
+    if (memoPos < 0) return
+
+    // Nearest text node before the memo containing the anchored text
+    // (prefer one carrying this memo's highlight color)
+    const markType = editor.schema.marks.highlight
+    const highlightColor = kindOf(memoColor).highlight
+    let from = -1
+    let fromHighlighted = false
+    let marks: any[] = []
+    editor.state.doc.descendants((textNode: any, nodePos: number) => {
+      if (nodePos >= memoPos) return false
+      if (!textNode.isText || !textNode.text) return
+      const idx = textNode.text.indexOf(anchorText)
+      if (idx < 0) return
+      const highlighted = textNode.marks.some((m: any) => m.type === markType && m.attrs.color === highlightColor)
+      if (highlighted || !fromHighlighted) {
+        from = nodePos + idx
+        fromHighlighted = highlighted
+        marks = textNode.marks
+      }
+    })
+    if (from < 0) return
+
+    const to = from + anchorText.length
+    let tr = editor.state.tr
+    tr = suggestion
+      ? tr.replaceWith(from, to, editor.schema.text(suggestion, marks))
+      : tr.delete(from, to)
+    const mappedPos = tr.mapping.map(memoPos)
+    tr = tr.setNodeMarkup(mappedPos, undefined, {
+      ...node.attrs,
+      anchorText: suggestion || anchorText,
+      anchor: '', // line hash is stale now; re-derived from the memo's position on next parse
+      ...statusChangeAttrs(node.attrs, 'done'),
+    })
+    editor.view.dispatch(tr)
+  }, [node.attrs, editor])
+
   return (
     <NodeViewWrapper className="my-2.5" data-drag-handle>
       <div
-        className={`memo-card group ${selected ? 'ring-1 ring-indigo-300 ring-offset-1' : ''}`}
-        style={{ '--memo-accent': accent.bar } as React.CSSProperties}
+        className={`memo-card group ${isAgent ? 'memo-card-agent' : ''} ${selected ? 'ring-1 ring-indigo-300 ring-offset-1' : ''}`}
+        style={{ '--memo-accent': kind.accent } as React.CSSProperties}
       >
         {/* Header */}
         <div className="flex items-center gap-1.5 px-3 py-2">
-          <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[11px] font-semibold uppercase tracking-wider ${accent.labelColor}`}
-            style={{ backgroundColor: `${accent.bar}0a` }}
+          <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[11px] font-semibold uppercase tracking-wider"
+            style={{ color: kind.accent, backgroundColor: `${kind.accent}0a` }}
           >
-            {accent.label}
+            {kind.label}
           </span>
 
+          {isAgent && (
+            <span
+              className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium text-violet-700 bg-violet-50"
+              title={`Raised by an agent (${node.attrs.source || 'generic'})`}
+            >
+              Agent{node.attrs.source && node.attrs.source !== 'generic' ? ` · ${node.attrs.source}` : ''}
+            </span>
+          )}
+
+          {node.attrs.orphaned && (
+            <span
+              className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium text-rose-700 bg-rose-50"
+              title="The anchored text was not found in the document. Select new text and re-attach this memo from the orphaned memos tray."
+            >
+              Orphaned
+            </span>
+          )}
+
+          {waitingOn.length > 0 && (
+            <span
+              className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium text-stone-500 bg-stone-100"
+              title={`Waiting on open memo${waitingOn.length === 1 ? '' : 's'}: ${waitingOn.join(', ')}`}
+            >
+              Waiting on {waitingOn.length}
+            </span>
+          )}
+
           {/* Status badge with dropdown */}
           <div className="relative" ref={statusMenuRef}>
             <button
@@ -218,7 +421,7 @@ function MemoBlockView({ node, updateAttributes, deleteNode, selected, editor }:
                 {(Object.keys(STATUS_LABELS) as MemoStatus[]).map((s) => (
                   <button
                     key={s}
-                    onClick={() => { updateAttributes({ status: s }); setShowStatusMenu(false) }}
+                    onClick={() => { updateAttributes(statusChangeAttrs(node.attrs, s)); setShowStatusMenu(false) }}
                     className={`block w-full text-left px-3 py-1 text-[11px] hover:bg-stone-50 ${s === status ? 'font-bold' : ''} ${STATUS_LABELS[s].color}`}
                   >
                     {STATUS_LABELS[s].label}
@@ -228,6 +431,40 @@ function MemoBlockView({ node, updateAttributes, deleteNode, selected, editor }:
             )}
           </div>
 
+          {/* Priority badge with dropdown */}
+          <div className="relative" ref={priorityMenuRef}>
+            <button
+              onClick={() => setShowPriorityMenu(!showPriorityMenu)}
+              className={`inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded text-[10px] font-semibold cursor-pointer hover:opacity-80 transition-opacity ${priority ? PRIORITY_STYLES[priority] : 'text-stone-300 hover:text-stone-500'}`}
+              title="Set priority"
+            >
+              {priority || 'P–'}
+              <svg width="8" height="8" viewBox="0 0 8 8" fill="currentColor"><path d="M2 3l2 2 2-2z"/></svg>
+            </button>
+            {showPriorityMenu && (
+              <div className="absolute top-full left-0 mt-1 z-50 bg-white border border-stone-200 rounded-md shadow-lg py-0.5 min-w-[80px]">
+                {[...MEMO_PRIORITIES, ''].map((p) => (
+                  <button
+                    key={p || 'none'}
+                    onClick={() => { updateAttributes({ priority: p, updatedAt: new Date().toISOString() }); setShowPriorityMenu(false) }}
+                    className={`block w-full text-left px-3 py-1 text-[11px] hover:bg-stone-50 ${p === priority ? 'font-bold' : ''} text-stone-600`}
+                  >
+                    {p || 'None'}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {node.attrs.target && (
+            <span
+              className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium text-stone-500 bg-stone-100 font-mono"
+              title={node.attrs.target.kind === 'code' ? 'Points at these lines of the code block above' : 'Points at this cell of the table above'}
+            >
+              {formatTargetLabel(node.attrs.target)}
+            </span>
+          )}
+
           {node.attrs.anchorText && (
             <span
               className="text-[12px] text-stone-300 truncate max-w-[180px] italic"
@@ -273,24 +510,269 @@ function MemoBlockView({ node, updateAttributes, deleteNode, selected, editor }:
                 onBlur={handleSave}
                 placeholder="Write your feedback..."
                 className="w-full text-[14px] leading-relaxed bg-transparent border-none resize-none focus:outline-none min-h-[36px] text-stone-700 placeholder-stone-300"
-                rows={2}
+                rows={Math.min(Math.max(text.split('\n').length, 2), 16)}
               />
               <div className="text-right">
-                <span className="text-[11px] text-stone-300">Enter to save · Esc to cancel</span>
+                <span className="text-[11px] text-stone-300">Markdown · Ctrl+Enter to save · Esc to cancel</span>
               </div>
             </div>
           ) : (
-            <p
-              className="text-[14px] text-stone-600 leading-relaxed whitespace-pre-wrap cursor-pointer hover:text-stone-800 transition-colors"
-              onClick={() => setEditing(true)}
+            <div
+              className="text-[14px] text-stone-600 leading-relaxed break-words cursor-pointer hover:text-stone-800 transition-colors"
+              onClick={(e) => { if (!(e.target as HTMLElement).closest('a')) setEditing(true) }}
             >
-              {node.attrs.text}
-            </p>
+              <MemoMarkdown text={node.attrs.text || ''} />
+            </div>
           )}
         </div>
+
+        {/* Suggested replacement (fix memos) */}
+        {!editing && kind.type === 'fix' && (
+          <MemoSuggestion
+            anchorText={node.attrs.anchorText || ''}
+            suggestion={node.attrs.suggestion}
+            applied={status === 'done'}
+            onChange={(suggestion) => updateAttributes({ suggestion, updatedAt: new Date().toISOString() })}
+            onApply={handleApplySuggestion}
+          />
+        )}
+
+        {/* Labels */}
+        {!editing && (
+          <MemoLabels
+            labels={(node.attrs.labels || []) as string[]}
+            onChange={(labels) => updateAttributes({ labels: normalizeLabels(labels), updatedAt: new Date().toISOString() })}
+          />
+        )}
+
+        {/* Reply thread */}
+        {!editing && (
+          <MemoThread
+            replies={(node.attrs.replies || []) as MemoReply[]}
+            onReply={(body) => {
+              const now = new Date().toISOString()
+              const reply: MemoReply = { author: 'reviewer', owner: 'human', createdAt: now, text: body }
+              updateAttributes({ replies: [...(node.attrs.replies || []), reply], updatedAt: now })
+            }}
+          />
+        )}
+
+        {/* Status history */}
+        {!editing && (node.attrs.history || []).length > 0 && (
+          <MemoHistory history={node.attrs.history as MemoStatusChange[]} />
+        )}
       </div>
     </NodeViewWrapper>
   )
 }
 
+function MemoSuggestion({ anchorText, suggestion, applied, onChange, onApply }: {
+  anchorText: string
+  suggestion: string | null
+  applied: boolean
+  onChange: (suggestion: string | null) => void
+  onApply: () => void
+}) {
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState('')
+
+  if (!anchorText) return null
+
+  if (editing) {
+    return (
+      <div className="px-3 pb-2">
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            e.stopPropagation()
+            if (e.key === 'Enter') { e.preventDefault(); onChange(draft); setEditing(false) }
+            if (e.key === 'Escape') setEditing(false)
+          }}
+          placeholder="Replacement text"
+          className="w-full text-[13px] bg-emerald-50 rounded px-2 py-1 border-none focus:outline-none text-stone-700 placeholder-stone-300"
+        />
+        <span className="text-[11px] text-stone-300">Enter to save · Esc to cancel</span>
+      </div>
+    )
+  }
+
+  if (suggestion == null) {
+    return (
+      <div className="px-3 pb-2">
+        <button
+          onClick={() => { setDraft(anchorText); setEditing(true) }}
+          className="text-[11px] text-stone-300 hover:text-stone-500 transition-colors"
+        >
+          + Suggest change
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mx-3 mb-2 rounded bg-stone-50 text-[13px] font-mono overflow-hidden">
+      {!applied && <div className="px-2 py-0.5 text-rose-700 bg-rose-50 line-through whitespace-pre-wrap">− {anchorText}</div>}
+      <div className="px-2 py-0.5 text-emerald-700 bg-emerald-50 whitespace-pre-wrap">+ {suggestion}</div>
+      <div className="flex items-center gap-2 px-2 py-1 font-sans">
+        {applied ? (
+          <span className="text-[11px] text-emerald-700">Suggestion applied</span>
+        ) : (
+          <>
+            <button
+              onClick={onApply}
+              className="text-[11px] font-semibold text-emerald-700 hover:text-emerald-900 transition-colors"
+            >
+              Apply suggestion
+            </button>
+            <button
+              onClick={() => { setDraft(suggestion); setEditing(true) }}
+              className="text-[11px] text-stone-400 hover:text-stone-600 transition-colors"
+            >
+              Edit
+            </button>
+            <button
+              onClick={() => onChange(null)}
+              className="text-[11px] text-stone-400 hover:text-rose-500 transition-colors"
+            >
+              Remove
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function MemoLabels({ labels, onChange }: { labels: string[]; onChange: (labels: string[]) => void }) {
+  const [adding, setAdding] = useState(false)
+  const [draft, setDraft] = useState('')
+
+  const commit = () => {
+    if (draft.trim()) onChange([...labels, ...draft.split(',')])
+    setDraft('')
+    setAdding(false)
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 px-3 pb-2">
+      {labels.map(label => (
+        <span key={label} className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[10px] text-stone-600 bg-stone-100">
+          #{label}
+          <button
+            onClick={() => onChange(labels.filter(l => l !== label))}
+            className="text-stone-300 hover:text-rose-400 transition-colors"
+            title="Remove label"
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      {adding ? (
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            e.stopPropagation()
+            if (e.key === 'Enter') { e.preventDefault(); commit() }
+            if (e.key === 'Escape') { setDraft(''); setAdding(false) }
+          }}
+          onBlur={commit}
+          placeholder="label"
+          className="w-20 text-[10px] bg-stone-50 rounded px-1.5 py-0.5 border-none focus:outline-none text-stone-700 placeholder-stone-300"
+        />
+      ) : (
+        <button
+          onClick={() => setAdding(true)}
+          className="text-[10px] text-stone-300 hover:text-stone-500 transition-colors"
+        >
+          + label
+        </button>
+      )}
+    </div>
+  )
+}
+
+function MemoThread({ replies, onReply }: { replies: MemoReply[]; onReply: (text: string) => void }) {
+  const [expanded, setExpanded] = useState(false)
+  const [draft, setDraft] = useState('')
+
+  const submit = () => {
+    if (!draft.trim()) return
+    onReply(draft.trim())
+    setDraft('')
+  }
+
+  return (
+    <div className="border-t border-stone-100 px-3 py-1.5">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="text-[11px] text-stone-400 hover:text-stone-600 transition-colors"
+      >
+        {expanded ? '▾' : '▸'} {replies.length === 0 ? 'Reply' : `${replies.length} ${replies.length === 1 ? 'reply' : 'replies'}`}
+      </button>
+      {expanded && (
+        <div className="mt-1 space-y-1.5">
+          {replies.map((r, i) => (
+            <div key={i} className="text-[13px] leading-relaxed">
+              <div className="flex items-center gap-1.5 text-[10px] text-stone-400">
+                <span className={`font-semibold ${r.owner === 'agent' ? 'text-violet-600' : 'text-stone-600'}`}>{r.author}</span>
+                <span>{r.owner}</span>
+                {r.createdAt && <span>{new Date(r.createdAt).toLocaleString()}</span>}
+              </div>
+              <p className="text-stone-600 whitespace-pre-wrap">{r.text}</p>
+            </div>
+          ))}
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              e.stopPropagation()
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault()
+                submit()
+              }
+            }}
+            placeholder="Write a reply..."
+            className="w-full text-[13px] leading-relaxed bg-stone-50 rounded px-2 py-1 border-none resize-none focus:outline-none text-stone-700 placeholder-stone-300"
+            rows={1}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+function MemoHistory({ history }: { history: MemoStatusChange[] }) {
+  const [expanded, setExpanded] = useState(false)
+
+  return (
+    <div className="border-t border-stone-100 px-3 py-1.5">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="text-[11px] text-stone-400 hover:text-stone-600 transition-colors"
+      >
+        {expanded ? '▾' : '▸'} History ({history.length})
+      </button>
+      {expanded && (
+        <ol className="mt-1 space-y-0.5">
+          {history.map((h, i) => (
+            <li key={i} className="flex items-center gap-1.5 text-[11px] text-stone-500">
+              <span className={STATUS_LABELS[h.from]?.color}>{STATUS_LABELS[h.from]?.label ?? h.from}</span>
+              <span className="text-stone-300">→</span>
+              <span className={STATUS_LABELS[h.to]?.color}>{STATUS_LABELS[h.to]?.label ?? h.to}</span>
+              <span className={`font-semibold ${h.actor === 'agent' ? 'text-violet-600' : 'text-stone-600'}`}>
+                {h.actor}{h.source && h.source !== 'generic' ? ` · ${h.source}` : ''}
+              </span>
+              {h.at && <span className="text-stone-400">{new Date(h.at).toLocaleString()}</span>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
+
 export default MemoBlock
@@ -0,0 +1,23 @@
+import { DEFAULT_ANNOTATION_KINDS, kindForColor, kindForType, type AnnotationKind } from '../../shared/types'
+
+// Workspace annotation kinds, pushed by the extension host ('kinds.update').
+// Module-level so TipTap node views and serializers can read them without props.
+let current: AnnotationKind[] = DEFAULT_ANNOTATION_KINDS
+
+export function getKinds(): AnnotationKind[] {
+  return current
+}
+
+export function setKinds(kinds: AnnotationKind[]): void {
+  current = kinds.length > 0 ? kinds : DEFAULT_ANNOTATION_KINDS
+}
+
+/** Kind for a memo color name or highlight hex, using the workspace registry */
+export function kindOf(color: string): AnnotationKind {
+  return kindForColor(color, current)
+}
+
+/** Kind of a memo: its stored type when known (kinds may share a color), else its color */
+export function kindOfMemo(type: string | undefined, color: string): AnnotationKind {
+  return type ? kindForType(type, current) : kindForColor(color, current)
+}